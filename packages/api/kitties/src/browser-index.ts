@@ -31,4 +31,6 @@ export * from './common/types.js';
 export * from './browser/api.js';
 export * from './browser/types.js';
 export * from './common/utils.js';
+export * from './common/snapshot.js';
+export * from './common/activity.js';
 // Note: node-api.js is excluded for browser compatibility
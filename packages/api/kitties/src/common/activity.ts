@@ -0,0 +1,207 @@
+/**
+ * @file activity.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Kitties, type Activity, type ActivityKind, type Ledger, type Offer } from '@midnight-ntwrk/kitties-contract';
+import type { ActivityEvent, ActivityEventType } from './types.js';
+import { formatAddress } from './utils.js';
+
+/**
+ * Number of entries the contract keeps in its activity log; older entries are dropped
+ */
+export const ACTIVITY_LOG_SIZE = 1024n;
+
+const EVENT_TYPES: Record<ActivityKind, ActivityEventType> = {
+  [Kitties.ActivityKind.Mint]: 'mint',
+  [Kitties.ActivityKind.Breed]: 'breed',
+  [Kitties.ActivityKind.Import]: 'import',
+  [Kitties.ActivityKind.Transfer]: 'transfer',
+  [Kitties.ActivityKind.Burn]: 'burn',
+  [Kitties.ActivityKind.Listed]: 'listed',
+  [Kitties.ActivityKind.Delisted]: 'delisted',
+  [Kitties.ActivityKind.Offer]: 'offer',
+  [Kitties.ActivityKind.OfferCancelled]: 'offerCancelled',
+  [Kitties.ActivityKind.OfferRejected]: 'offerRejected',
+  [Kitties.ActivityKind.Refund]: 'refund',
+  [Kitties.ActivityKind.Sale]: 'sale',
+  [Kitties.ActivityKind.AuctionCreated]: 'auctionCreated',
+  [Kitties.ActivityKind.Bid]: 'bid',
+  [Kitties.ActivityKind.AuctionClosed]: 'auctionClosed',
+  [Kitties.ActivityKind.SiringApproved]: 'siringApproved',
+  [Kitties.ActivityKind.SiringRevoked]: 'siringRevoked',
+  [Kitties.ActivityKind.MetadataChanged]: 'metadataChanged',
+  [Kitties.ActivityKind.SealedBid]: 'sealedBid',
+  [Kitties.ActivityKind.GiftCreated]: 'giftCreated',
+  [Kitties.ActivityKind.GiftClaimed]: 'giftClaimed',
+  [Kitties.ActivityKind.GiftReclaimed]: 'giftReclaimed',
+  [Kitties.ActivityKind.RentalOffered]: 'rentalOffered',
+  [Kitties.ActivityKind.Rented]: 'rented',
+  [Kitties.ActivityKind.RentalEnded]: 'rentalEnded',
+  [Kitties.ActivityKind.Attested]: 'attested',
+  [Kitties.ActivityKind.AccessoriesChanged]: 'accessoriesChanged',
+  [Kitties.ActivityKind.BundleListed]: 'bundleListed',
+  [Kitties.ActivityKind.BundleDelisted]: 'bundleDelisted',
+  [Kitties.ActivityKind.BundleOffer]: 'bundleOffer',
+  [Kitties.ActivityKind.BundleSold]: 'bundleSold',
+  [Kitties.ActivityKind.OfferCountered]: 'offerCountered',
+  [Kitties.ActivityKind.BidBeaten]: 'bidBeaten',
+  [Kitties.ActivityKind.DepositForfeited]: 'depositForfeited',
+};
+
+/**
+ * Decode one activity log entry
+ * @param seq - The entry's sequence number
+ * @param activity - The entry as stored in the ledger
+ * @returns The typed event, with unused accounts as null
+ */
+export function decodeActivity(seq: bigint, activity: Activity): ActivityEvent {
+  return {
+    seq,
+    type: EVENT_TYPES[activity.kind],
+    kittyId: activity.kittyId,
+    from: isUnsetAccount(activity.from) ? null : activity.from,
+    to: isUnsetAccount(activity.to) ? null : activity.to,
+    amount: activity.amount,
+  };
+}
+
+/**
+ * Decode the activity log of a deployment, oldest entry first
+ * @param ledgerState - The parsed ledger of the deployment
+ * @param since - First sequence number to include; entries older than the log keeps are gone
+ * @returns The events still in the log from since onwards
+ */
+export function decodeActivityLog(ledgerState: Ledger, since = 0n): ActivityEvent[] {
+  return Array.from(ledgerState.activityLog)
+    .filter(([seq]) => seq >= since)
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([seq, activity]) => decodeActivity(seq, activity));
+}
+
+/**
+ * Decode the negotiation a buy offer keeps on the ledger, independently of the activity log
+ * @param offer - The offer as stored in the ledger
+ * @returns The buyer's bid and the counters and outcome that followed, oldest first. Only the last
+ * steps are kept, so fewer than offer.stepCount are returned once older ones have been dropped
+ */
+export function getOfferThread(offer: Pick<Offer, 'steps' | 'stepCount'>): ActivityEvent[] {
+  const kept = offer.stepCount < BigInt(offer.steps.length) ? Number(offer.stepCount) : offer.steps.length;
+  return offer.steps.slice(offer.steps.length - kept).map((step) => decodeActivity(step.seq, step.activity));
+}
+
+/**
+ * Check whether entries from a sequence number on have already been dropped from the log.
+ * An indexer that falls this far behind has to rebuild from a snapshot.
+ * @param since - The first sequence number the caller has not seen yet
+ * @param activityCount - The number of entries ever appended, from the ledger
+ * @returns True if some entries from since on are no longer in the log
+ */
+export function hasActivityGap(since: bigint, activityCount: bigint): boolean {
+  return activityCount - since > ACTIVITY_LOG_SIZE;
+}
+
+/**
+ * Describe an activity event in one line
+ * @param event - The decoded event
+ * @returns E.g. 'Kitty #3 sold for 500 by 0a1b… to 2c3d…'
+ */
+export function formatActivityEvent(event: ActivityEvent): string {
+  const kitty = `Kitty #${event.kittyId}`;
+  const from = event.from ? shortAddress(event.from) : '';
+  const to = event.to ? shortAddress(event.to) : '';
+  switch (event.type) {
+    case 'mint':
+      return `${kitty} minted to ${to}`;
+    case 'breed':
+      return `${kitty} born to ${to}`;
+    case 'import':
+      return `${kitty} imported for ${to}`;
+    case 'transfer':
+      return `${kitty} transferred from ${from} to ${to}`;
+    case 'burn':
+      return `${kitty} burned by ${from}`;
+    case 'listed':
+      return `${kitty} listed for ${event.amount}`;
+    case 'delisted':
+      return `${kitty} taken off sale`;
+    case 'offer':
+      return `${kitty} got an offer of ${event.amount} from ${from}`;
+    case 'offerCancelled':
+      return `${kitty} offer from ${from} cancelled`;
+    case 'offerRejected':
+      return `${kitty} offer from ${to} rejected`;
+    case 'refund':
+      return `${kitty} escrow of ${event.amount} refunded to ${to}`;
+    case 'sale':
+      return `${kitty} sold for ${event.amount} by ${from} to ${to}`;
+    case 'auctionCreated':
+      return `${kitty} put on auction from ${event.amount}`;
+    case 'bid':
+      return `${kitty} got a bid of ${event.amount} from ${from}`;
+    case 'auctionClosed':
+      return `${kitty} auction closed without a sale`;
+    case 'siringApproved':
+      return `${kitty} approved by ${from} for siring with ${to}`;
+    case 'siringRevoked':
+      return `${kitty} siring approval revoked`;
+    case 'metadataChanged':
+      return `${kitty} name or metadata URI changed`;
+    case 'sealedBid':
+      return `${kitty} got a sealed bid`;
+    case 'giftCreated':
+      return `${kitty} gifted by ${from}`;
+    case 'giftClaimed':
+      return `${kitty} gift from ${from} claimed by ${to}`;
+    case 'giftReclaimed':
+      return `${kitty} gift taken back by ${from}`;
+    case 'rentalOffered':
+      return `${kitty} offered for rent to ${to} for ${event.amount}`;
+    case 'rented':
+      return `${kitty} rented by ${to} from ${from} for ${event.amount}`;
+    case 'rentalEnded':
+      return `${kitty} rental to ${from} ended`;
+    case 'attested':
+      return 'Ownership of a shielded kitty attested';
+    case 'accessoriesChanged':
+      return `${kitty} accessories changed by ${from}`;
+    case 'bundleListed':
+      return `${kitty} listed in a bundle for ${event.amount}`;
+    case 'bundleDelisted':
+      return `${kitty} bundle taken off sale`;
+    case 'bundleOffer':
+      return `${kitty} bundle got an offer of ${event.amount} from ${from}`;
+    case 'bundleSold':
+      return `${kitty} sold in a bundle for ${event.amount} by ${from} to ${to}`;
+    case 'offerCountered':
+      return `${kitty} offer from ${to} countered at ${event.amount}`;
+    case 'bidBeaten':
+      return `${kitty} sealed bid revealed below the leading bid`;
+    case 'depositForfeited':
+      return `${kitty} unrevealed sealed bid deposit of ${event.amount} paid to ${to}`;
+  }
+}
+
+function isUnsetAccount(account: { bytes: Uint8Array }): boolean {
+  return account.bytes.every((byte) => byte === 0);
+}
+
+function shortAddress(account: { bytes: Uint8Array }): string {
+  return `${formatAddress(account.bytes).slice(0, 8)}…`;
+}
@@ -0,0 +1,148 @@
+/**
+ * @file allowlist.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { toHex } from '@midnight-ntwrk/midnight-js-utils';
+import type { Gender, Kitty, KittyMetadata, Ledger, ShieldedOwner } from '@midnight-ntwrk/kitties-contract';
+import type { KittiesSnapshot, SnapshotKitty, SnapshotOffer } from './types.js';
+import { decodePaddedString, encodeKittyName, encodeMetadataUri, parseAddress } from './utils.js';
+
+import { toHex } from '@midnight-ntwrk/midnight-js-utils';
+import { type Allowlist, type AllowlistEntry, getAllowlistRoot } from '@midnight-ntwrk/kitties-contract';
+import type { AllowlistFile } from './types.js';
+import { formatAddress, parseAddress } from './utils.js';
+
+// Re-export the allowlist builder so apps don't need to depend on the contract package
+export {
+  createAllowlist,
+  isAllowlistActive,
+  type Allowlist,
+  type AllowlistEntry,
+  type AllowlistHolder,
+} from '@midnight-ntwrk/kitties-contract';
+
+/**
+ * Allowlist format written by serializeAllowlist. Bump it when the format changes, so older tools refuse newer files.
+ */
+export const ALLOWLIST_VERSION = 1;
+
+const HEX_32_BYTES = /^[0-9a-f]{64}$/i;
+
+/**
+ * Parse the admin's allowlist CSV: one `kind,value,limit` row per entry, where kind is `key` for a
+ * public key or `secret` for an allowlist secret, both as 32 bytes of hex. Blank lines, `#` comments
+ * and a `kind,value,limit` header are skipped.
+ * @param csv - The CSV document
+ * @returns The entries, in file order
+ * @throws Error naming the first malformed line
+ */
+export function parseAllowlistCsv(csv: string): AllowlistEntry[] {
+  const entries: AllowlistEntry[] = [];
+  csv.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#') || /^kind\s*,/i.test(line)) {
+      return;
+    }
+    const lineError = (reason: string) => new Error(`Line ${index + 1}: ${reason}`);
+    const [kind, value, limit, ...rest] = line.split(',').map((field) => field.trim());
+    if (limit === undefined || rest.length > 0) {
+      throw lineError('expected kind,value,limit');
+    }
+    if (kind !== 'key' && kind !== 'secret') {
+      throw lineError(`unknown kind '${kind}', expected key or secret`);
+    }
+    const hex = value.replace(/^0x/i, '');
+    if (!HEX_32_BYTES.test(hex)) {
+      throw lineError(`${kind} must be 32 bytes of hex`);
+    }
+    if (!/^\d+$/.test(limit) || BigInt(limit) === 0n) {
+      throw lineError('limit must be a positive whole number');
+    }
+    entries.push({
+      kind: kind as AllowlistEntry['kind'],
+      value: parseAddress(hex.toLowerCase()),
+      limit: BigInt(limit),
+    });
+  });
+  return entries;
+}
+
+/**
+ * Serialize an allowlist as indented JSON, to publish next to the root
+ * @param allowlist - The allowlist from createAllowlist
+ * @returns The JSON document
+ */
+export function serializeAllowlist(allowlist: Allowlist): string {
+  const file: AllowlistFile = {
+    version: ALLOWLIST_VERSION,
+    root: allowlist.root.field.toString(),
+    leaves: allowlist.leaves.map((leaf) => ({ hash: toHex(leaf.hash), limit: leaf.limit.toString() })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse an allowlist written by serializeAllowlist. The root is recomputed from the leaves,
+ * so a file that was edited after publishing is refused.
+ * @param json - The JSON document
+ * @returns The allowlist
+ * @throws Error if the document is not an allowlist, has an unsupported version or a root that doesn't match
+ */
+export function parseAllowlist(json: string): Allowlist {
+  const file = JSON.parse(json) as Partial<AllowlistFile>;
+  if (typeof file !== 'object' || file === null || typeof file.version !== 'number') {
+    throw new Error('Not a kitties allowlist');
+  }
+  if (file.version !== ALLOWLIST_VERSION) {
+    throw new Error(`Unsupported allowlist version ${file.version}, expected ${ALLOWLIST_VERSION}`);
+  }
+  if (typeof file.root !== 'string' || !Array.isArray(file.leaves)) {
+    throw new Error('Allowlist is missing its root or leaves');
+  }
+  const leaves = file.leaves.map((leaf) => ({ hash: parseAddress(leaf.hash), limit: BigInt(leaf.limit) }));
+  const root = getAllowlistRoot(leaves);
+  if (root.field !== BigInt(file.root)) {
+    throw new Error("Allowlist root doesn't match its leaves");
+  }
+  return { root, leaves };
+}
+
+/**
+ * Encode an allowlist secret as a code to hand out
+ * @param secret - The secret from the admin's CSV
+ * @returns 'allowlist-' followed by the secret in hex
+ */
+export function encodeAllowlistCode(secret: Uint8Array): string {
+  return `allowlist-${formatAddress(secret)}`;
+}
+
+/**
+ * Decode a code made by encodeAllowlistCode
+ * @param code - The code, surrounding whitespace is ignored
+ * @returns The allowlist secret
+ * @throws Error if the code is malformed
+ */
+export function decodeAllowlistCode(code: string): Uint8Array {
+  const match = /^allowlist-([0-9a-f]{64})$/i.exec(code.trim());
+  if (!match) {
+    throw new Error('Invalid allowlist code');
+  }
+  return parseAddress(match[1].toLowerCase());
+}
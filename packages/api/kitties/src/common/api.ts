@@ -25,19 +25,64 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 
-import { type ContractAddress } from '@midnight-ntwrk/compact-runtime';
+import { type ContractAddress, encodeCoinInfo } from '@midnight-ntwrk/compact-runtime';
+import { createCoinInfo, nativeToken } from '@midnight-ntwrk/ledger';
 import {
   Kitties,
   type KittiesPrivateState,
   createKittiesPrivateState,
   witnesses,
+  getShieldedOwnerKey,
+  isShieldedVault,
+  ownsShieldedKitty,
+  getDutchAuctionPrice,
+  getMinimumBid,
+  isDutchAuction,
+  formatRoyaltyRate,
+  ROYALTY_BASIS_POINTS,
+  splitIntoBatches,
+  toBundle,
+  getBundleKittyIds,
+  type Bundle,
+  getSealedBidCommitment,
+  addSealedBid,
+  removeSealedBid,
+  type SealedBid,
+  type SealedAuction,
+  type Gift,
+  getGiftLock,
+  opensGift,
+  type Rental,
+  createAttestationPredicate,
+  matchesPredicate,
+  verifyAttestation,
+  getPresenterKey,
+  type AttestationPredicate,
+  getAllowlistTicket,
+  isAllowlistActive,
+  setAllowlistTicket,
+  type Allowlist,
+  type AllowlistTicket,
+  ACCESSORY_SLOTS,
+  getAccessoryName,
+  type Accessory,
+  type AccessorySlot,
   type Offer,
+  type OfferStatus,
+  type RandomCommit,
+  RANDOM_SEAL_DELAY,
+  getRandomCommitKey,
   type Kitty,
+  type KittyMetadata,
+  type Ledger,
+  type Auction,
+  type MintPolicy,
 } from '@midnight-ntwrk/kitties-contract';
 import { deployContract, findDeployedContract } from '@midnight-ntwrk/midnight-js-contracts';
 
 import { assertIsContractAddress, toHex, parseCoinPublicKeyToHex } from '@midnight-ntwrk/midnight-js-utils';
 import type { PrivateStateProvider } from '@midnight-ntwrk/midnight-js-types';
+import { getZswapNetworkId } from '@midnight-ntwrk/midnight-js-network-id';
 import { map, type Observable, retry } from 'rxjs';
 import {
   type KittiesContract,
@@ -45,20 +90,103 @@ import {
   type DeployedKittiesContract,
   type KittyData,
   type KittyListingData,
+  type DeployKittiesConfig,
+  type LineageData,
+  type ActivityEvent,
+  type GetActivityParams,
+  type AdminInfo,
+  type SetMintPolicyParams,
+  type TransferAdminParams,
+  type UseAllowlistParams,
+  type AllowlistStatus,
+  type AncestorTree,
+  type DescendantTree,
   type TransferKittyParams,
   type TransferKittyFromParams,
+  type BurnKittyParams,
+  type SetKittyMetadataParams,
   type SetPriceParams,
+  type KittiesSnapshot,
+  type BatchTransferKittyParams,
+  type BatchSetPriceParams,
+  type BatchCancelListingParams,
   type CreateBuyOfferParams,
   type ApproveOfferParams,
+  type CancelOfferParams,
+  type RejectOfferParams,
+  type CounterOfferParams,
+  type AcceptCounterOfferParams,
   type GetOfferParams,
+  type OfferData,
+  type OfferStatusName,
+  type RefundData,
+  type WithdrawRefundParams,
+  type CreateBundleParams,
+  type BundleParams,
+  type CreateBundleOfferParams,
+  type BundleOfferParams,
+  type BundleData,
+  type BundleOfferData,
+  type BundleRefundData,
+  type AuctionData,
+  type CreateEnglishAuctionParams,
+  type CreateDutchAuctionParams,
+  type BidOnAuctionParams,
+  type AuctionParams,
+  type CreateSealedAuctionParams,
+  type CommitSealedBidParams,
+  type SealedAuctionData,
+  type MySealedBidData,
+  type ForfeitedSealedBidData,
+  type ClaimSealedBidDepositParams,
+  type GiftParams,
+  type GiftData,
+  type OfferRentalParams,
+  type RentalParams,
+  type RentalData,
+  type AccountRentals,
+  type AccessoryData,
+  type AccessorySlotName,
+  type MintAccessoryParams,
+  type TransferAccessoryParams,
+  type EquipAccessoryParams,
+  type UnequipAccessoryParams,
+  type AttestOwnershipParams,
+  type VerifyAttestationParams,
+  type AttestationData,
+  type OwnershipAttestation,
   type BreedKittyParams,
+  type ApproveSiringParams,
+  type RevokeSiringParams,
+  type ShieldKittyParams,
+  type TransferShieldedKittyParams,
   type NFTApprovalParams,
   type NFTSetApprovalForAllParams,
 } from './types.js';
+import {
+  decodeClaimCode,
+  decodePaddedString,
+  encodeClaimCode,
+  encodeKittyName,
+  encodeMetadataUri,
+  isOpenOffer,
+  nowInSeconds,
+  parseAddress,
+  randomBytes,
+} from './utils.js';
+import { createSnapshot, toImportedKitty } from './snapshot.js';
+import { ACTIVITY_LOG_SIZE, decodeActivityLog, getOfferThread, hasActivityGap } from './activity.js';
 
 // Single shared contract instance to ensure consistency
 const kittiesContractInstance: KittiesContract = new Kitties.Contract(witnesses);
 
+const OFFER_STATUSES: Record<OfferStatus, OfferStatusName> = {
+  [Kitties.OfferStatus.Pending]: 'pending',
+  [Kitties.OfferStatus.Countered]: 'countered',
+  [Kitties.OfferStatus.Accepted]: 'accepted',
+  [Kitties.OfferStatus.Rejected]: 'rejected',
+};
+
 // Unified API interfaces
 export interface DeployedKittiesAPI {
   readonly deployedContractAddress: ContractAddress;
@@ -68,16 +196,104 @@ export interface DeployedKittiesAPI {
   readonly createKitty: () => Promise<void>;
   readonly transferKitty: (params: TransferKittyParams) => Promise<void>;
   readonly transferKittyFrom: (params: TransferKittyFromParams) => Promise<void>;
+  readonly burnKitty: (params: BurnKittyParams) => Promise<void>;
+  readonly setKittyMetadata: (params: SetKittyMetadataParams) => Promise<void>;
   readonly setPrice: (params: SetPriceParams) => Promise<void>;
+  readonly batchTransferKitty: (params: BatchTransferKittyParams) => Promise<void>;
+  readonly batchSetPrice: (params: BatchSetPriceParams) => Promise<void>;
+  readonly batchCancelListing: (params: BatchCancelListingParams) => Promise<void>;
   readonly createBuyOffer: (params: CreateBuyOfferParams) => Promise<void>;
   readonly approveOffer: (params: ApproveOfferParams) => Promise<void>;
+  readonly cancelOffer: (params: CancelOfferParams) => Promise<void>;
+  readonly rejectOffer: (params: RejectOfferParams) => Promise<void>;
+  readonly counterOffer: (params: CounterOfferParams) => Promise<void>;
+  readonly acceptCounterOffer: (params: AcceptCounterOfferParams) => Promise<void>;
   readonly getOffer: (params: GetOfferParams) => Promise<Offer>;
-  readonly getOffersForKitty: (kittyId: bigint) => Promise<Offer[]>;
+  readonly getOffersForKitty: (kittyId: bigint) => Promise<OfferData[]>;
+  readonly withdrawRefund: (params: WithdrawRefundParams) => Promise<void>;
+  readonly getPendingRefunds: (buyer: { bytes: Uint8Array }) => Promise<RefundData[]>;
+  readonly createBundle: (params: CreateBundleParams) => Promise<void>;
+  readonly cancelBundle: (params: BundleParams) => Promise<void>;
+  readonly createBundleOffer: (params: CreateBundleOfferParams) => Promise<void>;
+  readonly approveBundleOffer: (params: BundleOfferParams) => Promise<void>;
+  readonly cancelBundleOffer: (params: BundleParams) => Promise<void>;
+  readonly rejectBundleOffer: (params: BundleOfferParams) => Promise<void>;
+  readonly withdrawBundleRefund: (params: BundleParams) => Promise<void>;
+  readonly getBundle: (bundleId: bigint) => Promise<BundleData | null>;
+  readonly getBundles: () => Promise<BundleData[]>;
+  readonly getPendingBundleRefunds: (buyer: { bytes: Uint8Array }) => Promise<BundleRefundData[]>;
+  readonly createEnglishAuction: (params: CreateEnglishAuctionParams) => Promise<void>;
+  readonly createDutchAuction: (params: CreateDutchAuctionParams) => Promise<void>;
+  readonly bidOnAuction: (params: BidOnAuctionParams) => Promise<void>;
+  readonly buyDutchAuction: (params: AuctionParams) => Promise<void>;
+  readonly settleAuction: (params: AuctionParams) => Promise<void>;
+  readonly cancelAuction: (params: AuctionParams) => Promise<void>;
+  readonly getAuction: (kittyId: bigint) => Promise<AuctionData | null>;
+  readonly getAuctions: () => Promise<AuctionData[]>;
+  readonly createSealedAuction: (params: CreateSealedAuctionParams) => Promise<void>;
+  readonly commitSealedBid: (params: CommitSealedBidParams) => Promise<void>;
+  readonly revealSealedBid: (params: AuctionParams) => Promise<void>;
+  readonly settleSealedAuction: (params: AuctionParams) => Promise<void>;
+  readonly cancelSealedAuction: (params: AuctionParams) => Promise<void>;
+  readonly withdrawSealedBid: (params: AuctionParams) => Promise<void>;
+  readonly claimSealedBidDeposit: (params: ClaimSealedBidDepositParams) => Promise<void>;
+  readonly getSealedAuction: (kittyId: bigint) => Promise<SealedAuctionData | null>;
+  readonly getSealedAuctions: () => Promise<SealedAuctionData[]>;
+  readonly getMySealedBids: () => Promise<MySealedBidData[]>;
+  readonly getForfeitedSealedBids: () => Promise<ForfeitedSealedBidData[]>;
+  readonly createGift: (params: GiftParams) => Promise<string>;
+  readonly claimGift: (claimCode: string) => Promise<bigint>;
+  readonly reclaimGift: (params: GiftParams) => Promise<void>;
+  readonly getGift: (kittyId: bigint) => Promise<GiftData | null>;
+  readonly getGifts: (giver: { bytes: Uint8Array }) => Promise<GiftData[]>;
   readonly breedKitty: (params: BreedKittyParams) => Promise<void>;
+  readonly approveSiring: (params: ApproveSiringParams) => Promise<void>;
+  readonly revokeSiring: (params: RevokeSiringParams) => Promise<void>;
+  readonly getSiringApproval: (kittyId: bigint) => Promise<{ bytes: Uint8Array } | null>;
+  readonly offerRental: (params: OfferRentalParams) => Promise<void>;
+  readonly acceptRental: (params: RentalParams) => Promise<void>;
+  readonly endRental: (params: RentalParams) => Promise<void>;
+  readonly getRental: (kittyId: bigint) => Promise<RentalData | null>;
+  readonly getRentals: (account: { bytes: Uint8Array }) => Promise<AccountRentals>;
+  readonly mintAccessory: (params: MintAccessoryParams) => Promise<void>;
+  readonly transferAccessory: (params: TransferAccessoryParams) => Promise<void>;
+  readonly equipAccessory: (params: EquipAccessoryParams) => Promise<void>;
+  readonly unequipAccessory: (params: UnequipAccessoryParams) => Promise<void>;
+  readonly getAccessory: (accessoryId: bigint) => Promise<AccessoryData | null>;
+  readonly getUserAccessories: (owner: { bytes: Uint8Array }) => Promise<AccessoryData[]>;
+  readonly createShieldedKitty: () => Promise<void>;
+  readonly breedShieldedKitty: (params: BreedKittyParams) => Promise<void>;
+  readonly shieldKitty: (params: ShieldKittyParams) => Promise<void>;
+  readonly transferShieldedKitty: (params: TransferShieldedKittyParams) => Promise<void>;
+  readonly getShieldedOwnerKey: () => Promise<Uint8Array>;
+  readonly attestOwnership: (params: AttestOwnershipParams) => Promise<OwnershipAttestation>;
+  readonly getAttestation: (attestationId: Uint8Array) => Promise<AttestationData | null>;
+  readonly verifyAttestation: (params: VerifyAttestationParams) => Promise<boolean>;
   readonly getKitty: (kittyId: bigint) => Promise<KittyData>;
   readonly getAllKittiesCount: () => Promise<bigint>;
+  readonly getLiveSupply: () => Promise<bigint>;
+  readonly getRoyaltyRate: () => Promise<bigint>;
   readonly getKittiesForSale: () => Promise<KittyListingData[]>;
   readonly getUserKitties: (owner: { bytes: Uint8Array }) => Promise<KittyData[]>;
+  readonly getLineage: (kittyId: bigint, depth?: number) => Promise<LineageData>;
+  readonly getActivity: (params?: GetActivityParams) => Promise<ActivityEvent[]>;
+
+  // Administration
+  readonly pause: () => Promise<void>;
+  readonly unpause: () => Promise<void>;
+  readonly setMintPolicy: (params: SetMintPolicyParams) => Promise<void>;
+  readonly transferAdmin: (params: TransferAdminParams) => Promise<void>;
+  readonly getAdminInfo: () => Promise<AdminInfo>;
+  readonly isAdmin: () => Promise<boolean>;
+  readonly setAllowlist: (allowlist: Allowlist) => Promise<void>;
+  readonly clearAllowlist: () => Promise<void>;
+  readonly useAllowlist: (params: UseAllowlistParams) => Promise<AllowlistTicket>;
+  readonly getAllowlistStatus: () => Promise<AllowlistStatus>;
+  readonly exportState: () => Promise<KittiesSnapshot>;
+  readonly importState: (
+    snapshot: KittiesSnapshot,
+    onProgress?: (imported: number, total: number) => void,
+  ) => Promise<void>;
 
   // Wallet convenience methods
   readonly getMyKitties: (from: { bytes: Uint8Array }) => Promise<KittyData[]>;
@@ -93,8 +309,20 @@ export interface DeployedKittiesAPI {
 
 export interface KittiesState {
   readonly allKittiesCount: bigint;
+  readonly burnedCount: bigint;
   readonly genderSelector: boolean;
   readonly kitties: Map<bigint, Kitty>;
+  readonly auctions: Map<bigint, Auction>;
+  readonly sealedAuctions: Map<bigint, SealedAuction>;
+  readonly gifts: Map<bigint, Gift>;
+  readonly rentals: Map<bigint, Rental>;
+  readonly royaltyRate: bigint;
+  readonly admin: { bytes: Uint8Array };
+  readonly paused: boolean;
+  readonly mintPolicy: MintPolicy;
+  readonly allowlistActive: boolean; // Whether generation 0 minting needs an allowlist ticket
+  readonly activityCount: bigint;
+  readonly activity: ActivityEvent[]; // Entries still in the activity log, oldest first
 }
 
 // Transaction response type for CLI operations
@@ -123,8 +351,20 @@ export class KittiesAPI implements DeployedKittiesAPI {
         map((contractState) => Kitties.ledger(contractState.data)),
         map((ledgerState) => ({
           allKittiesCount: ledgerState.allKittiesCount,
+          burnedCount: ledgerState.burnedCount,
           genderSelector: ledgerState.genderSelector,
           kitties: new Map(Array.from(ledgerState.kitties)),
+          auctions: new Map(Array.from(ledgerState.auctions)),
+          sealedAuctions: new Map(Array.from(ledgerState.sealedAuctions)),
+          gifts: new Map(Array.from(ledgerState.gifts)),
+          rentals: new Map(Array.from(ledgerState.rentals)),
+          royaltyRate: ledgerState.royaltyRate,
+          admin: ledgerState.admin,
+          paused: ledgerState.paused,
+          mintPolicy: ledgerState.mintPolicy,
+          allowlistActive: isAllowlistActive(ledgerState.allowlistRoot),
+          activityCount: ledgerState.activityCount,
+          activity: decodeActivityLog(ledgerState),
         })),
         retry({
           delay: 500, // retry websocket connection if it fails
@@ -146,8 +386,13 @@ export class KittiesAPI implements DeployedKittiesAPI {
   }
 
   async createKitty(): Promise<void> {
-    this.logger.info('Creating a new kitty...');
-    const finalizedTxData = await this.deployedContract.callTx.createKitty();
+    const mintFee = await this.prepareGen0Mint();
+    this.logger.info(mintFee > 0n ? `Creating a new kitty for ${mintFee} tokens...` : 'Creating a new kitty...');
+    // The contract accepts a birth time within 10 minutes of the block time
+    const finalizedTxData = await this.deployedContract.callTx.createKitty(
+      nowInSeconds(),
+      KittiesAPI.createEscrowCoin(mintFee),
+    );
     this.logger.info(`Kitty created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
   }
 
@@ -157,70 +402,1160 @@ export class KittiesAPI implements DeployedKittiesAPI {
     this.logger.info(`Kitty transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
   }
 
-  async transferKittyFrom(params: TransferKittyFromParams): Promise<void> {
-    this.logger.info(
-      `Transferring kitty ${params.kittyId} from ${toHex(params.from.bytes)} to ${toHex(params.to.bytes)}...`,
+  async transferKittyFrom(params: TransferKittyFromParams): Promise<void> {
+    this.logger.info(
+      `Transferring kitty ${params.kittyId} from ${toHex(params.from.bytes)} to ${toHex(params.to.bytes)}...`,
+    );
+    const finalizedTxData = await this.deployedContract.callTx.transferKittyFrom(
+      params.from,
+      params.to,
+      params.kittyId,
+    );
+    this.logger.info(`Kitty transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Burn a kitty for good. Works for the owner or an operator approved for it.
+   * Escrow from its open offers stays refundable through withdrawRefund.
+   */
+  async burnKitty(params: BurnKittyParams): Promise<void> {
+    this.logger.info(`Burning kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.burnKitty(params.kittyId);
+    this.logger.info(`Kitty burned! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Name a kitty and set its metadata URI. Only the owner can do this.
+   * Leaving out `uri` keeps the current one; empty strings clear a field.
+   */
+  async setKittyMetadata(params: SetKittyMetadataParams): Promise<void> {
+    const name = encodeKittyName(params.name);
+    const uri = encodeMetadataUri(params.uri ?? (await this.getKitty(params.kittyId)).metadataUri);
+    this.logger.info(`Setting the name of kitty ${params.kittyId} to "${params.name.trim()}"...`);
+    const finalizedTxData = await this.deployedContract.callTx.setKittyMetadata(params.kittyId, name, uri);
+    this.logger.info(`Kitty metadata updated! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async setPrice(params: SetPriceParams): Promise<void> {
+    this.logger.info(`Setting price for kitty ${params.kittyId} to ${params.price}...`);
+    const finalizedTxData = await this.deployedContract.callTx.setPrice(params.kittyId, params.price);
+    this.logger.info(`Price set! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  //  =====================================
+  //   BATCH OPERATIONS
+  //  =====================================
+
+  /**
+   * Transfer several kitties to the same address, one transaction per BATCH_SIZE kitties.
+   * Each transaction is all-or-nothing, but batches sent before a failing one stay applied.
+   */
+  async batchTransferKitty(params: BatchTransferKittyParams): Promise<void> {
+    for (const kittyIds of splitIntoBatches(params.kittyIds)) {
+      this.logger.info(`Transferring kitties ${KittiesAPI.formatBatch(kittyIds)} to ${toHex(params.to.bytes)}...`);
+      const finalizedTxData = await this.deployedContract.callTx.batchTransferKitty(params.to, kittyIds);
+      this.logger.info(`Kitties transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    }
+  }
+
+  /**
+   * List several kitties at the same price (0 takes them off sale), one transaction per BATCH_SIZE kitties.
+   */
+  async batchSetPrice(params: BatchSetPriceParams): Promise<void> {
+    for (const kittyIds of splitIntoBatches(params.kittyIds)) {
+      this.logger.info(`Setting price for kitties ${KittiesAPI.formatBatch(kittyIds)} to ${params.price}...`);
+      const finalizedTxData = await this.deployedContract.callTx.batchSetPrice(kittyIds, params.price);
+      this.logger.info(`Prices set! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    }
+  }
+
+  /**
+   * Take several kitties off sale, one transaction per BATCH_SIZE kitties. Open offers stay in place.
+   */
+  async batchCancelListing(params: BatchCancelListingParams): Promise<void> {
+    for (const kittyIds of splitIntoBatches(params.kittyIds)) {
+      this.logger.info(`Cancelling listings of kitties ${KittiesAPI.formatBatch(kittyIds)}...`);
+      const finalizedTxData = await this.deployedContract.callTx.batchCancelListing(kittyIds);
+      this.logger.info(`Listings cancelled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    }
+  }
+
+  // Kitty IDs of a padded batch for log messages, leaving out the empty slots
+  private static formatBatch(kittyIds: bigint[]): string {
+    return kittyIds
+      .filter((kittyId) => kittyId !== 0n)
+      .map((kittyId) => kittyId.toString())
+      .join(', ');
+  }
+
+  async createBuyOffer(params: CreateBuyOfferParams): Promise<void> {
+    this.logger.info(`Creating buy offer for kitty ${params.kittyId} with bid price ${params.bidPrice}...`);
+    const finalizedTxData = await this.deployedContract.callTx.createBuyOffer(
+      params.kittyId,
+      params.bidPrice,
+      params.expiresAt ?? 0n,
+      KittiesAPI.createEscrowCoin(params.bidPrice),
+    );
+    this.logger.info(`Buy offer created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async approveOffer(params: ApproveOfferParams): Promise<void> {
+    this.logger.info(`Approving offer for kitty ${params.kittyId} from buyer...`);
+    const finalizedTxData = await this.deployedContract.callTx.approveOffer(params.kittyId, params.buyer);
+    this.logger.info(`Offer approved! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async cancelOffer(params: CancelOfferParams): Promise<void> {
+    this.logger.info(`Cancelling offer for kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.cancelOffer(params.kittyId);
+    this.logger.info(`Offer cancelled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async rejectOffer(params: RejectOfferParams): Promise<void> {
+    this.logger.info(`Rejecting offer for kitty ${params.kittyId} from ${toHex(params.buyer.bytes)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.rejectOffer(params.kittyId, params.buyer);
+    this.logger.info(`Offer rejected! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Answer an open offer with the price the owner would sell for, replacing any earlier counter.
+   * The owner can still approve the bid itself or reject it afterwards.
+   */
+  async counterOffer(params: CounterOfferParams): Promise<void> {
+    this.logger.info(
+      `Countering offer for kitty ${params.kittyId} from ${toHex(params.buyer.bytes)} at ${params.counterPrice}...`,
+    );
+    const finalizedTxData = await this.deployedContract.callTx.counterOffer(
+      params.kittyId,
+      params.buyer,
+      params.counterPrice,
+    );
+    this.logger.info(`Offer countered! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Buy a kitty at the price its owner countered this wallet's offer with,
+   * paying the difference to the escrowed bid.
+   */
+  async acceptCounterOffer(params: AcceptCounterOfferParams): Promise<void> {
+    const buyer = toHex(this.ownPublicKey().bytes);
+    const offer = (await this.getOffersForKitty(params.kittyId)).find((offer) => toHex(offer.buyer.bytes) === buyer);
+    if (!offer || offer.status !== 'countered') {
+      throw new Error(`Kitty ${params.kittyId} has no counter offer for this wallet`);
+    }
+
+    const topUp = offer.counterPrice - offer.price;
+    this.logger.info(`Accepting counter price ${offer.counterPrice} for kitty ${params.kittyId}, adding ${topUp}...`);
+    const finalizedTxData = await this.deployedContract.callTx.acceptCounterOffer(
+      params.kittyId,
+      KittiesAPI.createEscrowCoin(topUp),
+    );
+    this.logger.info(`Kitty bought! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getOffer(params: GetOfferParams): Promise<Offer> {
+    this.logger.info(`Getting offer for kitty ${params.kittyId} from ${toHex(params.from.bytes)}...`);
+    const response = await this.deployedContract.callTx.getOffer(params.kittyId, params.from);
+    const offer = (response as any).private.result;
+    return offer;
+  }
+
+  async getOffersForKitty(kittyId: bigint): Promise<OfferData[]> {
+    this.logger.info(`Getting all offers for kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const offers: OfferData[] = [];
+
+    // Check if there are any offers for this kitty
+    if (ledgerState.buyOffers && ledgerState.buyOffers.member(kittyId)) {
+      const kittyOffers = ledgerState.buyOffers.lookup(kittyId);
+      const kittyEscrow = ledgerState.offerEscrow.member(kittyId) ? ledgerState.offerEscrow.lookup(kittyId) : null;
+      // Iterate through all offers for this kitty, open or closed
+      for (const [buyer, offer] of kittyOffers) {
+        const escrowed = kittyEscrow && kittyEscrow.member(buyer) ? kittyEscrow.lookup(buyer).value : 0n;
+        offers.push(KittiesAPI.toOfferData(offer, escrowed));
+      }
+    }
+
+    this.logger.info(`Found ${offers.length} offers for kitty ${kittyId}`);
+    return offers;
+  }
+
+  /**
+   * Offer data with its status by name and its negotiation steps decoded.
+   */
+  static toOfferData(offer: Offer, escrowed: bigint): OfferData {
+    return {
+      kittyId: offer.kittyId,
+      buyer: offer.buyer,
+      price: offer.price,
+      expiresAt: offer.expiresAt,
+      status: OFFER_STATUSES[offer.status],
+      counterPrice: offer.counterPrice,
+      stepCount: offer.stepCount,
+      escrowed,
+      thread: getOfferThread(offer),
+    };
+  }
+
+  async withdrawRefund(params: WithdrawRefundParams): Promise<void> {
+    this.logger.info(`Withdrawing escrowed funds for kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.withdrawRefund(params.kittyId);
+    this.logger.info(`Refund withdrawn! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getPendingRefunds(buyer: { bytes: Uint8Array }): Promise<RefundData[]> {
+    this.logger.info(`Getting pending refunds for ${toHex(buyer.bytes)}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const refunds: RefundData[] = [];
+
+    // An escrow is refundable once the buyer no longer has an open offer for that kitty
+    for (const [kittyId, kittyEscrow] of ledgerState.offerEscrow) {
+      if (!kittyEscrow.member(buyer)) {
+        continue;
+      }
+      const kittyOffers = ledgerState.buyOffers.member(kittyId) ? ledgerState.buyOffers.lookup(kittyId) : null;
+      const status = kittyOffers?.member(buyer) ? OFFER_STATUSES[kittyOffers.lookup(buyer).status] : null;
+      if (!status || !isOpenOffer({ status })) {
+        refunds.push({ kittyId, amount: kittyEscrow.lookup(buyer).value });
+      }
+    }
+
+    this.logger.info(`Found ${refunds.length} pending refunds`);
+    return refunds;
+  }
+
+  //  =====================================
+  //   BUNDLES
+  //  =====================================
+
+  /**
+   * List 2 to BATCH_SIZE kitties with the same creator for sale as one bundle.
+   * Selling, auctioning or transferring any of them on its own drops the bundle.
+   */
+  async createBundle(params: CreateBundleParams): Promise<void> {
+    this.logger.info(`Bundling kitties ${params.kittyIds.join(', ')} for ${params.price}...`);
+    const finalizedTxData = await this.deployedContract.callTx.createBundle(toBundle(params.kittyIds), params.price);
+    this.logger.info(`Bundle listed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async cancelBundle(params: BundleParams): Promise<void> {
+    this.logger.info(`Cancelling bundle ${params.bundleId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.cancelBundle(params.bundleId);
+    this.logger.info(`Bundle cancelled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async createBundleOffer(params: CreateBundleOfferParams): Promise<void> {
+    this.logger.info(`Creating offer for bundle ${params.bundleId} with bid price ${params.bidPrice}...`);
+    const finalizedTxData = await this.deployedContract.callTx.createBundleOffer(
+      params.bundleId,
+      params.bidPrice,
+      params.expiresAt ?? 0n,
+      KittiesAPI.createEscrowCoin(params.bidPrice),
+    );
+    this.logger.info(`Bundle offer created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async approveBundleOffer(params: BundleOfferParams): Promise<void> {
+    this.logger.info(`Approving offer for bundle ${params.bundleId} from ${toHex(params.buyer.bytes)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.approveBundleOffer(params.bundleId, params.buyer);
+    this.logger.info(`Bundle sold! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async cancelBundleOffer(params: BundleParams): Promise<void> {
+    this.logger.info(`Cancelling offer for bundle ${params.bundleId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.cancelBundleOffer(params.bundleId);
+    this.logger.info(`Bundle offer cancelled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async rejectBundleOffer(params: BundleOfferParams): Promise<void> {
+    this.logger.info(`Rejecting offer for bundle ${params.bundleId} from ${toHex(params.buyer.bytes)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.rejectBundleOffer(params.bundleId, params.buyer);
+    this.logger.info(`Bundle offer rejected! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async withdrawBundleRefund(params: BundleParams): Promise<void> {
+    this.logger.info(`Withdrawing escrowed funds for bundle ${params.bundleId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.withdrawBundleRefund(params.bundleId);
+    this.logger.info(`Refund withdrawn! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getBundle(bundleId: bigint): Promise<BundleData | null> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    const ledgerState = contractState ? Kitties.ledger(contractState.data) : null;
+    return ledgerState?.bundles.member(bundleId)
+      ? KittiesAPI.toBundleData(ledgerState, bundleId, ledgerState.bundles.lookup(bundleId))
+      : null;
+  }
+
+  async getBundles(): Promise<BundleData[]> {
+    this.logger.info('Getting bundles for sale...');
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const bundles = Array.from(ledgerState.bundles).map(([bundleId, bundle]) =>
+      KittiesAPI.toBundleData(ledgerState, bundleId, bundle),
+    );
+
+    this.logger.info(`Found ${bundles.length} bundles for sale`);
+    return bundles;
+  }
+
+  async getPendingBundleRefunds(buyer: { bytes: Uint8Array }): Promise<BundleRefundData[]> {
+    this.logger.info(`Getting pending bundle refunds for ${toHex(buyer.bytes)}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const refunds: BundleRefundData[] = [];
+
+    // Like offer escrow, a bundle escrow is refundable once the buyer's offer is gone
+    for (const [bundleId, bundleEscrow] of ledgerState.bundleEscrow) {
+      if (!bundleEscrow.member(buyer)) {
+        continue;
+      }
+      const offerActive =
+        ledgerState.bundleOffers.member(bundleId) && ledgerState.bundleOffers.lookup(bundleId).member(buyer);
+      if (!offerActive) {
+        refunds.push({ bundleId, amount: bundleEscrow.lookup(buyer).value });
+      }
+    }
+
+    this.logger.info(`Found ${refunds.length} pending bundle refunds`);
+    return refunds;
+  }
+
+  /**
+   * Bundle data with its kitty IDs and open offers.
+   */
+  private static toBundleData(ledgerState: Ledger, bundleId: bigint, bundle: Bundle): BundleData {
+    const offers: BundleOfferData[] = [];
+    if (ledgerState.bundleOffers.member(bundleId)) {
+      const escrow = ledgerState.bundleEscrow.member(bundleId) ? ledgerState.bundleEscrow.lookup(bundleId) : null;
+      for (const [buyer, offer] of ledgerState.bundleOffers.lookup(bundleId)) {
+        offers.push({ ...offer, escrowed: escrow && escrow.member(buyer) ? escrow.lookup(buyer).value : 0n });
+      }
+    }
+    return { ...bundle, id: bundleId, kittyIds: getBundleKittyIds(bundle), offers };
+  }
+
+  //  =====================================
+  //   AUCTIONS
+  //  =====================================
+
+  async createEnglishAuction(params: CreateEnglishAuctionParams): Promise<void> {
+    this.logger.info(
+      `Auctioning kitty ${params.kittyId} with reserve price ${params.reservePrice} until ${params.endTime}...`,
+    );
+    const finalizedTxData = await this.deployedContract.callTx.createEnglishAuction(
+      params.kittyId,
+      params.reservePrice,
+      params.minIncrement,
+      params.endTime,
+    );
+    this.logger.info(`English auction created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async createDutchAuction(params: CreateDutchAuctionParams): Promise<void> {
+    this.logger.info(
+      `Auctioning kitty ${params.kittyId} from ${params.startPrice} down to ${params.endPrice} over ${params.duration}s...`,
+    );
+    // The contract accepts a start time within 10 minutes of the block time
+    const finalizedTxData = await this.deployedContract.callTx.createDutchAuction(
+      params.kittyId,
+      params.startPrice,
+      params.endPrice,
+      params.duration,
+      nowInSeconds(),
+    );
+    this.logger.info(`Dutch auction created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async bidOnAuction(params: BidOnAuctionParams): Promise<void> {
+    this.logger.info(`Bidding ${params.bidPrice} on the auction of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.bidOnAuction(
+      params.kittyId,
+      params.bidPrice,
+      KittiesAPI.createEscrowCoin(params.bidPrice),
+    );
+    this.logger.info(`Bid placed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Buy a kitty from a Dutch auction, paying its price at the current time.
+   */
+  async buyDutchAuction(params: AuctionParams): Promise<void> {
+    const auction = await this.getAuction(params.kittyId);
+    if (!auction || !isDutchAuction(auction)) {
+      throw new Error(`Kitty ${params.kittyId} is not in a Dutch auction`);
+    }
+    const buyTime = nowInSeconds();
+    const price = getDutchAuctionPrice(auction, buyTime);
+    this.logger.info(`Buying kitty ${params.kittyId} from its Dutch auction for ${price}...`);
+    const finalizedTxData = await this.deployedContract.callTx.buyDutchAuction(
+      params.kittyId,
+      buyTime,
+      KittiesAPI.createEscrowCoin(price),
+    );
+    this.logger.info(`Kitty bought! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async settleAuction(params: AuctionParams): Promise<void> {
+    this.logger.info(`Settling the auction of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.settleAuction(params.kittyId);
+    this.logger.info(`Auction settled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async cancelAuction(params: AuctionParams): Promise<void> {
+    this.logger.info(`Cancelling the auction of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.cancelAuction(params.kittyId);
+    this.logger.info(`Auction cancelled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getAuction(kittyId: bigint): Promise<AuctionData | null> {
+    this.logger.info(`Getting auction for kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return null;
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    return ledgerState.auctions.member(kittyId)
+      ? KittiesAPI.toAuctionData(kittyId, ledgerState.auctions.lookup(kittyId))
+      : null;
+  }
+
+  async getAuctions(): Promise<AuctionData[]> {
+    this.logger.info('Getting running auctions...');
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const auctions: AuctionData[] = [];
+    for (const [kittyId, auction] of ledgerState.auctions) {
+      auctions.push(KittiesAPI.toAuctionData(kittyId, auction));
+    }
+
+    this.logger.info(`Found ${auctions.length} auctions`);
+    return auctions;
+  }
+
+  /**
+   * Auction data with the price that applies right now.
+   */
+  static toAuctionData(kittyId: bigint, auction: Auction): AuctionData {
+    const currentPrice = isDutchAuction(auction)
+      ? getDutchAuctionPrice(auction, nowInSeconds())
+      : getMinimumBid(auction);
+    return { ...auction, kittyId, currentPrice };
+  }
+
+  //  =====================================
+  //   SEALED-BID AUCTIONS
+  //  =====================================
+
+  async createSealedAuction(params: CreateSealedAuctionParams): Promise<void> {
+    this.logger.info(
+      `Auctioning kitty ${params.kittyId} with sealed bids from ${params.reservePrice} until ${params.bidEndTime}...`,
+    );
+    const finalizedTxData = await this.deployedContract.callTx.createSealedAuction(
+      params.kittyId,
+      params.reservePrice,
+      params.deposit,
+      params.bidEndTime,
+      params.revealEndTime,
+    );
+    this.logger.info(`Sealed-bid auction created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Place a sealed bid, escrowing the auction's deposit. The bid is saved in the private state before
+   * the transaction, so it survives restarts, and dropped again if the transaction fails without placing it.
+   */
+  async commitSealedBid(params: CommitSealedBidParams): Promise<void> {
+    const auction = await this.getSealedAuction(params.kittyId);
+    if (!auction) {
+      throw new Error(`Kitty ${params.kittyId} is not in a sealed-bid auction`);
+    }
+
+    // A bid from an earlier auction of this kitty that paid for it or was forfeited has nothing left to withdraw
+    let privateState = await this.getSealedBidState();
+    if (
+      (await this.getMySealedBids()).some(
+        (bid) => bid.kittyId === params.kittyId && (bid.status === 'settled' || bid.status === 'forfeited'),
+      )
+    ) {
+      privateState = removeSealedBid(privateState, params.kittyId);
+    }
+    const bid: SealedBid = {
+      kittyId: params.kittyId,
+      bidEndTime: auction.bidEndTime,
+      price: params.price,
+      salt: randomBytes(32),
+    };
+    await this.providers.privateStateProvider.set('kittiesPrivateState', addSealedBid(privateState, bid));
+
+    this.logger.info(`Placing a sealed bid on kitty ${params.kittyId}, escrowing ${auction.deposit}...`);
+    try {
+      const finalizedTxData = await this.deployedContract.callTx.commitSealedBid(
+        params.kittyId,
+        KittiesAPI.createEscrowCoin(auction.deposit),
+      );
+      this.logger.info(`Sealed bid placed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    } catch (error) {
+      // Keep the opening if the bid made it onto the ledger anyway, or its deposit could never be withdrawn
+      const commitment = getSealedBidCommitment(privateState.ownerSecret, bid);
+      if (!(await this.hasSealedBidDeposit(params.kittyId, commitment))) {
+        await this.providers.privateStateProvider.set('kittiesPrivateState', privateState);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reveal this wallet's sealed bid once bidding has closed. A bid that beats the leading one becomes
+   * the leading bid; a beaten bid is only proven beaten, without disclosing it, and its deposit can then be
+   * withdrawn with withdrawSealedBid. A bid not revealed before revealEndTime forfeits its deposit to the seller.
+   */
+  async revealSealedBid(params: AuctionParams): Promise<void> {
+    this.logger.info(`Revealing the sealed bid on kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.revealSealedBid(params.kittyId);
+    this.logger.info(`Sealed bid revealed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async settleSealedAuction(params: AuctionParams): Promise<void> {
+    this.logger.info(`Settling the sealed-bid auction of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.settleSealedAuction(params.kittyId);
+    this.logger.info(`Sealed-bid auction settled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async cancelSealedAuction(params: AuctionParams): Promise<void> {
+    this.logger.info(`Cancelling the sealed-bid auction of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.cancelSealedAuction(params.kittyId);
+    this.logger.info(`Sealed-bid auction cancelled! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Withdraw the deposit of this wallet's sealed bid on a kitty and forget the bid. After bidding
+   * has closed, only a revealed bid that isn't leading can be withdrawn.
+   */
+  async withdrawSealedBid(params: AuctionParams): Promise<void> {
+    this.logger.info(`Withdrawing the sealed bid deposit for kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.withdrawSealedBid(params.kittyId);
+    const privateState = await this.getSealedBidState();
+    await this.providers.privateStateProvider.set('kittiesPrivateState', removeSealedBid(privateState, params.kittyId));
+    this.logger.info(`Deposit withdrawn! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Claim the deposit of a sealed bid that was never revealed in one of this wallet's auctions.
+   */
+  async claimSealedBidDeposit(params: ClaimSealedBidDepositParams): Promise<void> {
+    this.logger.info(`Claiming a forfeited sealed bid deposit for kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.claimSealedBidDeposit(params.kittyId, params.commitment);
+    this.logger.info(`Deposit claimed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getSealedAuction(kittyId: bigint): Promise<SealedAuctionData | null> {
+    this.logger.info(`Getting sealed-bid auction for kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return null;
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    return ledgerState.sealedAuctions.member(kittyId)
+      ? KittiesAPI.toSealedAuctionData(kittyId, ledgerState.sealedAuctions.lookup(kittyId))
+      : null;
+  }
+
+  async getSealedAuctions(): Promise<SealedAuctionData[]> {
+    this.logger.info('Getting running sealed-bid auctions...');
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const auctions: SealedAuctionData[] = [];
+    for (const [kittyId, auction] of ledgerState.sealedAuctions) {
+      auctions.push(KittiesAPI.toSealedAuctionData(kittyId, auction));
+    }
+
+    this.logger.info(`Found ${auctions.length} sealed-bid auctions`);
+    return auctions;
+  }
+
+  /**
+   * Sealed bids remembered in this wallet's private state, with where each stands on the ledger.
+   */
+  async getMySealedBids(): Promise<MySealedBidData[]> {
+    const privateState = await this.getSealedBidState();
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const now = nowInSeconds();
+    return (privateState.sealedBids ?? []).map((bid) => {
+      const commitment = getSealedBidCommitment(privateState.ownerSecret, bid);
+      const auction = ledgerState.sealedAuctions.member(bid.kittyId)
+        ? ledgerState.sealedAuctions.lookup(bid.kittyId)
+        : null;
+      const running = auction !== null && auction.bidEndTime === bid.bidEndTime;
+
+      let status: MySealedBidData['status'];
+      if (!ledgerState.sealedBidStates.member(commitment)) {
+        status = 'settled';
+      } else if (running && toHex(auction.leader) === toHex(commitment)) {
+        status = 'leading';
+      } else {
+        const state = ledgerState.sealedBidStates.lookup(commitment);
+        status = state.revealed ? 'lost' : now < state.revealEndTime ? 'sealed' : 'forfeited';
+      }
+      return { kittyId: bid.kittyId, price: bid.price, bidEndTime: bid.bidEndTime, status };
+    });
+  }
+
+  /**
+   * Deposits of sealed bids never revealed in this wallet's auctions, once revealing has closed.
+   * Each one is claimed with claimSealedBidDeposit.
+   */
+  async getForfeitedSealedBids(): Promise<ForfeitedSealedBidData[]> {
+    this.logger.info('Getting forfeited sealed bid deposits...');
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const seller = toHex(this.ownPublicKey().bytes);
+    const now = nowInSeconds();
+    const forfeited: ForfeitedSealedBidData[] = [];
+    for (const [kittyId, escrow] of ledgerState.sealedBidEscrow) {
+      for (const [commitment, deposit] of escrow) {
+        if (!ledgerState.sealedBidStates.member(commitment)) {
+          continue;
+        }
+        const state = ledgerState.sealedBidStates.lookup(commitment);
+        if (toHex(state.seller.bytes) === seller && !state.revealed && now >= state.revealEndTime) {
+          forfeited.push({ kittyId, commitment, amount: deposit.value });
+        }
+      }
+    }
+
+    this.logger.info(`Found ${forfeited.length} forfeited deposits`);
+    return forfeited;
+  }
+
+  private async getSealedBidState(): Promise<KittiesPrivateState> {
+    const privateState = await this.providers.privateStateProvider.get('kittiesPrivateState');
+    if (!privateState?.ownerSecret) {
+      throw new Error('No owner secret in the private state');
+    }
+    return privateState;
+  }
+
+  private async hasSealedBidDeposit(kittyId: bigint, commitment: Uint8Array): Promise<boolean> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return false;
+    }
+    const escrow = Kitties.ledger(contractState.data).sealedBidEscrow;
+    return escrow.member(kittyId) && escrow.lookup(kittyId).member(commitment);
+  }
+
+  /**
+   * Sealed-bid auction data with the phase it is in right now.
+   */
+  static toSealedAuctionData(kittyId: bigint, auction: SealedAuction): SealedAuctionData {
+    const now = nowInSeconds();
+    const phase = now < auction.bidEndTime ? 'bidding' : now < auction.revealEndTime ? 'revealing' : 'ended';
+    return { ...auction, kittyId, phase };
+  }
+
+  //  =====================================
+  //   GIFTS
+  //  =====================================
+
+  /**
+   * Lock one of your kitties in a gift that anyone with the returned claim code can claim.
+   * The code holds the secret, so share it only with the recipient; it is not stored anywhere else.
+   */
+  async createGift(params: GiftParams): Promise<string> {
+    const secret = randomBytes(32);
+    this.logger.info(`Gifting kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.createGift(
+      params.kittyId,
+      getGiftLock(params.kittyId, secret),
+    );
+    this.logger.info(`Gift created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    return encodeClaimCode({ kittyId: params.kittyId, secret });
+  }
+
+  /**
+   * Claim the kitty behind a claim code to this wallet. Returns the claimed kitty's ID.
+   */
+  async claimGift(claimCode: string): Promise<bigint> {
+    const { kittyId, secret } = decodeClaimCode(claimCode);
+    const gift = await this.getGift(kittyId);
+    if (!gift) {
+      throw new Error(`Kitty ${kittyId} is not gifted, it may have been claimed or reclaimed`);
+    }
+    if (!opensGift(kittyId, secret, gift)) {
+      throw new Error(`This claim code does not open the gift of kitty ${kittyId}`);
+    }
+
+    this.logger.info(`Claiming kitty ${kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.claimGift(kittyId, secret);
+    this.logger.info(`Gift claimed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    return kittyId;
+  }
+
+  async reclaimGift(params: GiftParams): Promise<void> {
+    this.logger.info(`Taking back the gift of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.reclaimGift(params.kittyId);
+    this.logger.info(`Gift reclaimed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getGift(kittyId: bigint): Promise<GiftData | null> {
+    this.logger.info(`Getting gift of kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return null;
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    return ledgerState.gifts.member(kittyId) ? { ...ledgerState.gifts.lookup(kittyId), kittyId } : null;
+  }
+
+  async getGifts(giver: { bytes: Uint8Array }): Promise<GiftData[]> {
+    this.logger.info(`Getting unclaimed gifts from ${toHex(giver.bytes)}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const gifts: GiftData[] = [];
+    for (const [kittyId, gift] of ledgerState.gifts) {
+      if (toHex(gift.giver.bytes) === toHex(giver.bytes)) {
+        gifts.push({ ...gift, kittyId });
+      }
+    }
+
+    this.logger.info(`Found ${gifts.length} unclaimed gifts`);
+    return gifts;
+  }
+
+  async breedKitty(params: BreedKittyParams): Promise<void> {
+    await this.ensureRandomCommit();
+    this.logger.info(`Breeding kitties ${params.kittyId1} and ${params.kittyId2}...`);
+    // The contract accepts a breed time within 10 minutes of the block time
+    const finalizedTxData = await this.deployedContract.callTx.breedKitty(
+      params.kittyId1,
+      params.kittyId2,
+      nowInSeconds(),
+    );
+    this.logger.info(`Kitties bred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Make sure a sealed randomness commitment is ready for the next new kitty.
+   * A pending commitment is reused until it expires; otherwise a new one is made, which the
+   * witness does with a fresh secret seed. A commitment can only be revealed from its sealAfter
+   * time on, so this waits until then and the caller can mint or breed straight away.
+   */
+  private async ensureRandomCommit(): Promise<void> {
+    const commit = await this.getRandomCommit();
+    let sealAfter: bigint;
+    if (commit && commit.deadline > nowInSeconds()) {
+      this.logger.info('Reusing pending randomness commitment...');
+      sealAfter = commit.sealAfter;
+    } else {
+      this.logger.info('Committing to randomness for the new kitty...');
+      // The contract accepts a commit time within 10 minutes of the block time
+      const commitTime = nowInSeconds();
+      const finalizedTxData = await this.deployedContract.callTx.commitRandomness(commitTime);
+      this.logger.info(`Randomness committed! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+      sealAfter = commitTime + RANDOM_SEAL_DELAY;
+    }
+
+    while (nowInSeconds() < sealAfter) {
+      const remaining = sealAfter - nowInSeconds();
+      this.logger.info(`Waiting ${remaining}s for the randomness commitment to be sealed...`);
+      const delay = Number(remaining < 30n ? remaining : 30n) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private async getRandomCommit(): Promise<RandomCommit | null> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return null;
+    }
+
+    const privateState = await this.providers.privateStateProvider.get('kittiesPrivateState');
+    if (!privateState) {
+      return null;
+    }
+
+    // Commitments are keyed by the owner secret and the seed they commit to, not by the wallet
+    const ledgerState = Kitties.ledger(contractState.data);
+    const key = getRandomCommitKey(privateState.ownerSecret, privateState.secretSeed);
+    return ledgerState.randomCommits.member(key) ? ledgerState.randomCommits.lookup(key) : null;
+  }
+
+  private ownPublicKey(): { bytes: Uint8Array } {
+    return {
+      bytes: parseAddress(parseCoinPublicKeyToHex(this.providers.walletProvider.coinPublicKey, getZswapNetworkId())),
+    };
+  }
+
+  async approveSiring(params: ApproveSiringParams): Promise<void> {
+    this.logger.info(`Allowing ${toHex(params.to.bytes)} to breed with kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.approveSiring(params.kittyId, params.to);
+    this.logger.info(`Siring approved! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async revokeSiring(params: RevokeSiringParams): Promise<void> {
+    this.logger.info(`Revoking siring approval for kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.revokeSiring(params.kittyId);
+    this.logger.info(`Siring approval revoked! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getSiringApproval(kittyId: bigint): Promise<{ bytes: Uint8Array } | null> {
+    this.logger.info(`Getting siring approval for kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return null;
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    return ledgerState.siringApprovals.member(kittyId) ? ledgerState.siringApprovals.lookup(kittyId) : null;
+  }
+
+  //  =====================================
+  //   RENTALS
+  //  =====================================
+
+  async offerRental(params: OfferRentalParams): Promise<void> {
+    this.logger.info(`Offering kitty ${params.kittyId} for rent to ${toHex(params.borrower.bytes)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.offerRental(
+      params.kittyId,
+      params.borrower,
+      params.kind === 'custody' ? Kitties.RentalKind.Custody : Kitties.RentalKind.Breeding,
+      params.endTime,
+      params.fee,
+    );
+    this.logger.info(`Rental offered! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Accept a rental offered to this wallet, paying its fee to the lender.
+   */
+  async acceptRental(params: RentalParams): Promise<void> {
+    const rental = await this.getRental(params.kittyId);
+    if (!rental || rental.status !== 'offered') {
+      throw new Error(`Kitty ${params.kittyId} has no open rental offer`);
+    }
+
+    this.logger.info(`Renting kitty ${params.kittyId} for ${rental.fee}...`);
+    const finalizedTxData = await this.deployedContract.callTx.acceptRental(
+      params.kittyId,
+      KittiesAPI.createEscrowCoin(rental.fee),
+    );
+    this.logger.info(`Kitty rented! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * End a rental, giving the kitty back to its lender, or withdraw a rental offer.
+   */
+  async endRental(params: RentalParams): Promise<void> {
+    this.logger.info(`Ending rental of kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.endRental(params.kittyId);
+    this.logger.info(`Rental ended! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getRental(kittyId: bigint): Promise<RentalData | null> {
+    this.logger.info(`Getting rental of kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return null;
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    return ledgerState.rentals.member(kittyId)
+      ? KittiesAPI.toRentalData(kittyId, ledgerState.rentals.lookup(kittyId))
+      : null;
+  }
+
+  async getRentals(account: { bytes: Uint8Array }): Promise<AccountRentals> {
+    this.logger.info(`Getting rentals of ${toHex(account.bytes)}...`);
+    const rentals: AccountRentals = { lent: [], borrowed: [] };
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return rentals;
+    }
+
+    const accountHex = toHex(account.bytes);
+    for (const [kittyId, rental] of Kitties.ledger(contractState.data).rentals) {
+      if (toHex(rental.lender.bytes) === accountHex) {
+        rentals.lent.push(KittiesAPI.toRentalData(kittyId, rental));
+      } else if (toHex(rental.borrower.bytes) === accountHex) {
+        rentals.borrowed.push(KittiesAPI.toRentalData(kittyId, rental));
+      }
+    }
+
+    this.logger.info(`Found ${rentals.lent.length} lent and ${rentals.borrowed.length} borrowed kitties`);
+    return rentals;
+  }
+
+  /**
+   * Rental data with the status it has right now.
+   */
+  static toRentalData(kittyId: bigint, rental: Rental): RentalData {
+    const status = nowInSeconds() >= rental.endTime ? 'ended' : rental.active ? 'active' : 'offered';
+    const kind = rental.kind === Kitties.RentalKind.Custody ? 'custody' : 'breeding';
+    return { ...rental, kittyId, kind, status };
+  }
+
+  //  =====================================
+  //   ACCESSORIES
+  //  =====================================
+
+  /**
+   * Mint a new accessory to an account. Only the admin can do this.
+   */
+  async mintAccessory(params: MintAccessoryParams): Promise<void> {
+    this.logger.info(`Minting a ${getAccessoryName(KittiesAPI.toAccessorySlot(params.slot), params.style)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.mintAccessory(
+      params.to,
+      KittiesAPI.toAccessorySlot(params.slot),
+      BigInt(params.style),
+    );
+    this.logger.info(`Accessory minted! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async transferAccessory(params: TransferAccessoryParams): Promise<void> {
+    this.logger.info(`Transferring accessory ${params.accessoryId} to ${toHex(params.to.bytes)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.transferAccessory(params.to, params.accessoryId);
+    this.logger.info(`Accessory transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Put an accessory on a kitty. Whatever the kitty wore in the same slot comes back to this wallet.
+   */
+  async equipAccessory(params: EquipAccessoryParams): Promise<void> {
+    this.logger.info(`Putting accessory ${params.accessoryId} on kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.equipAccessory(params.kittyId, params.accessoryId);
+    this.logger.info(`Accessory equipped! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async unequipAccessory(params: UnequipAccessoryParams): Promise<void> {
+    this.logger.info(`Taking the ${params.slot} off kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.unequipAccessory(
+      params.kittyId,
+      KittiesAPI.toAccessorySlot(params.slot),
+    );
+    this.logger.info(`Accessory unequipped! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getAccessory(accessoryId: bigint): Promise<AccessoryData | null> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    const ledgerState = contractState ? Kitties.ledger(contractState.data) : null;
+    return ledgerState?.accessories.member(accessoryId)
+      ? KittiesAPI.toAccessoryData(accessoryId, ledgerState.accessories.lookup(accessoryId))
+      : null;
+  }
+
+  /**
+   * Accessories an account holds that no kitty is wearing. Worn ones are listed with their kitty.
+   */
+  async getUserAccessories(owner: { bytes: Uint8Array }): Promise<AccessoryData[]> {
+    this.logger.info(`Getting accessories of ${toHex(owner.bytes)}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return [];
+    }
+
+    const accessories: AccessoryData[] = [];
+    for (const [accessoryId, accessory] of Kitties.ledger(contractState.data).accessories) {
+      if (accessory.kittyId === 0n && toHex(accessory.owner.bytes) === toHex(owner.bytes)) {
+        accessories.push(KittiesAPI.toAccessoryData(accessoryId, accessory));
+      }
+    }
+
+    this.logger.info(`Found ${accessories.length} accessories`);
+    return accessories;
+  }
+
+  static toAccessoryData(accessoryId: bigint, accessory: Accessory): AccessoryData {
+    return {
+      id: accessoryId,
+      slot: ACCESSORY_SLOTS[accessory.slot],
+      style: Number(accessory.style),
+      name: getAccessoryName(accessory.slot, Number(accessory.style)),
+      owner: accessory.kittyId === 0n ? accessory.owner : null,
+      kittyId: accessory.kittyId,
+    };
+  }
+
+  private static accessoriesOf(ledgerState: Ledger, kittyId: bigint): AccessoryData[] {
+    if (!ledgerState.kittyAccessories.member(kittyId)) {
+      return [];
+    }
+    const worn = ledgerState.kittyAccessories.lookup(kittyId);
+    return ACCESSORY_SLOTS.map((slot) => worn[slot])
+      .filter((accessoryId) => accessoryId !== 0n)
+      .map((accessoryId) => KittiesAPI.toAccessoryData(accessoryId, ledgerState.accessories.lookup(accessoryId)));
+  }
+
+  private static toAccessorySlot(slot: AccessorySlotName): AccessorySlot {
+    return ACCESSORY_SLOTS.indexOf(slot) as AccessorySlot;
+  }
+
+  //  =====================================
+  //   SHIELDED OWNERSHIP
+  //  =====================================
+
+  async createShieldedKitty(): Promise<void> {
+    const mintFee = await this.prepareGen0Mint();
+    this.logger.info('Creating a new shielded kitty...');
+    const finalizedTxData = await this.deployedContract.callTx.createShieldedKitty(
+      nowInSeconds(),
+      KittiesAPI.createEscrowCoin(mintFee),
     );
-    const finalizedTxData = await this.deployedContract.callTx.transferKittyFrom(
-      params.from,
-      params.to,
-      params.kittyId,
+    this.logger.info(`Shielded kitty created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async breedShieldedKitty(params: BreedKittyParams): Promise<void> {
+    await this.ensureRandomCommit();
+    this.logger.info(`Breeding kitties ${params.kittyId1} and ${params.kittyId2} into a shielded kitty...`);
+    const finalizedTxData = await this.deployedContract.callTx.breedShieldedKitty(
+      params.kittyId1,
+      params.kittyId2,
+      nowInSeconds(),
     );
-    this.logger.info(`Kitty transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    this.logger.info(`Kitties bred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
   }
 
-  async setPrice(params: SetPriceParams): Promise<void> {
-    this.logger.info(`Setting price for kitty ${params.kittyId} to ${params.price}...`);
-    const finalizedTxData = await this.deployedContract.callTx.setPrice(params.kittyId, params.price);
-    this.logger.info(`Price set! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  async shieldKitty(params: ShieldKittyParams): Promise<void> {
+    this.logger.info(`Shielding kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.shieldKitty(params.kittyId);
+    this.logger.info(`Kitty shielded! Transaction added in block ${finalizedTxData.public.blockHeight}`);
   }
 
-  async createBuyOffer(params: CreateBuyOfferParams): Promise<void> {
-    this.logger.info(`Creating buy offer for kitty ${params.kittyId} with bid price ${params.bidPrice}...`);
-    const finalizedTxData = await this.deployedContract.callTx.createBuyOffer(params.kittyId, params.bidPrice);
-    this.logger.info(`Buy offer created! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  async transferShieldedKitty(params: TransferShieldedKittyParams): Promise<void> {
+    this.logger.info(`Transferring shielded kitty ${params.kittyId}...`);
+    const finalizedTxData = await this.deployedContract.callTx.transferShieldedKitty(params.kittyId, params.toOwnerKey);
+    this.logger.info(`Shielded kitty transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
   }
 
-  async approveOffer(params: ApproveOfferParams): Promise<void> {
-    this.logger.info(`Approving offer for kitty ${params.kittyId} from buyer...`);
-    const finalizedTxData = await this.deployedContract.callTx.approveOffer(params.kittyId, params.buyer);
-    this.logger.info(`Offer approved! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  /**
+   * Owner key to share with anyone sending this wallet a shielded kitty.
+   * It is derived from the owner secret in the local private state.
+   */
+  async getShieldedOwnerKey(): Promise<Uint8Array> {
+    const privateState = await this.providers.privateStateProvider.get('kittiesPrivateState');
+    if (!privateState?.ownerSecret) {
+      throw new Error('No owner secret in the private state');
+    }
+    return getShieldedOwnerKey(privateState.ownerSecret);
   }
 
-  async getOffer(params: GetOfferParams): Promise<Offer> {
-    this.logger.info(`Getting offer for kitty ${params.kittyId} from ${toHex(params.from.bytes)}...`);
-    const response = await this.deployedContract.callTx.getOffer(params.kittyId, params.from);
-    const offer = (response as any).private.result;
-    return offer;
+  //  =====================================
+  //   OWNERSHIP ATTESTATIONS
+  //  =====================================
+
+  /**
+   * Prove to a verifier that this wallet owns a shielded kitty matching their filter, answering their challenge.
+   * Only the returned attestation ID and presenter secret need to be shared, with the verifier alone; the kitty
+   * stays private, even in the logs. The ID is public on the ledger, the secret is what shows it is yours.
+   */
+  async attestOwnership(params: AttestOwnershipParams): Promise<OwnershipAttestation> {
+    const predicate = createAttestationPredicate(params.filter);
+    const kittyId = params.kittyId ?? (await this.findAttestableKitty(predicate));
+    const presenterSecret = randomBytes(32);
+    const presenter = getPresenterKey(presenterSecret);
+
+    this.logger.info('Attesting kitty ownership...');
+    const finalizedTxData = await this.deployedContract.callTx.attestOwnership(
+      kittyId,
+      predicate,
+      params.challenge,
+      presenter,
+    );
+    this.logger.info(`Ownership attested! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    return { id: finalizedTxData.private.result, challenge: params.challenge, presenter, predicate, presenterSecret };
   }
 
-  async getOffersForKitty(kittyId: bigint): Promise<Offer[]> {
-    this.logger.info(`Getting all offers for kitty ${kittyId}...`);
+  async getAttestation(attestationId: Uint8Array): Promise<AttestationData | null> {
+    this.logger.info(`Getting attestation ${toHex(attestationId)}...`);
     const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
     if (!contractState) {
-      return [];
+      return null;
     }
 
     const ledgerState = Kitties.ledger(contractState.data);
-    const offers: Offer[] = [];
+    return ledgerState.attestations.member(attestationId)
+      ? { ...ledgerState.attestations.lookup(attestationId), id: attestationId }
+      : null;
+  }
 
-    // Check if there are any offers for this kitty
-    if (ledgerState.buyOffers && ledgerState.buyOffers.member(kittyId)) {
-      const kittyOffers = ledgerState.buyOffers.lookup(kittyId);
-      // Iterate through all offers for this kitty
-      for (const [buyer, offer] of kittyOffers) {
-        offers.push(offer);
-      }
+  /**
+   * Check an attestation someone handed over. Only reads the ledger, so verifiers don't need a wallet.
+   */
+  async verifyAttestation(params: VerifyAttestationParams): Promise<boolean> {
+    this.logger.info(`Verifying attestation ${toHex(params.attestationId)}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      return false;
     }
 
-    this.logger.info(`Found ${offers.length} offers for kitty ${kittyId}`);
-    return offers;
+    return verifyAttestation(
+      Kitties.ledger(contractState.data),
+      params.attestationId,
+      params.challenge,
+      params.presenterSecret,
+      createAttestationPredicate(params.filter),
+    );
   }
 
-  async breedKitty(params: BreedKittyParams): Promise<void> {
-    this.logger.info(`Breeding kitties ${params.kittyId1} and ${params.kittyId2}...`);
-    const finalizedTxData = await this.deployedContract.callTx.breedKitty(params.kittyId1, params.kittyId2);
-    this.logger.info(`Kitties bred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  private async findAttestableKitty(predicate: AttestationPredicate): Promise<bigint> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      throw new Error('Contract state not found');
+    }
+
+    const ledgerState = Kitties.ledger(contractState.data);
+    const ownerKey = await this.getShieldedOwnerKey();
+    for (const [kittyId, owner] of ledgerState.shieldedOwners) {
+      if (
+        ownsShieldedKitty(ownerKey, kittyId, owner) &&
+        matchesPredicate(ledgerState.kitties.lookup(kittyId), predicate)
+      ) {
+        return kittyId;
+      }
+    }
+    throw new Error('None of your shielded kitties matches, shield a matching kitty first');
   }
 
   async getKitty(kittyId: bigint): Promise<KittyData> {
@@ -229,15 +1564,14 @@ export class KittiesAPI implements DeployedKittiesAPI {
     const response = await this.deployedContract.callTx.getKitty(kittyId);
     // Extract the result from the transaction response
     const kitty = (response as any).private.result;
-    return {
-      id: kittyId,
-      dna: kitty.dna,
-      gender: kitty.gender,
-      owner: kitty.owner,
-      price: kitty.price,
-      forSale: kitty.forSale,
-      generation: kitty.generation,
-    };
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    const ledgerState = contractState ? Kitties.ledger(contractState.data) : null;
+    return KittiesAPI.toKittyData(
+      kittyId,
+      kitty,
+      ledgerState ? KittiesAPI.metadataOf(ledgerState, kittyId) : undefined,
+      ledgerState ? KittiesAPI.accessoriesOf(ledgerState, kittyId) : [],
+    );
   }
 
   async getAllKittiesCount(): Promise<bigint> {
@@ -249,6 +1583,25 @@ export class KittiesAPI implements DeployedKittiesAPI {
     return count;
   }
 
+  /**
+   * Number of kitties in circulation. Unlike getAllKittiesCount, burned kitties are not counted.
+   */
+  async getLiveSupply(): Promise<bigint> {
+    this.logger.info('Getting live supply...');
+    const response = await this.deployedContract.callTx.getLiveSupply();
+    const supply = (response as any).private.result;
+    this.logger.info(`Live supply: ${supply}`);
+    return supply;
+  }
+
+  /**
+   * Share of each sale paid to the kitty's creator, in basis points. It is fixed at deployment.
+   */
+  async getRoyaltyRate(): Promise<bigint> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    return contractState ? Kitties.ledger(contractState.data).royaltyRate : 0n;
+  }
+
   async getKittiesForSale(): Promise<KittyListingData[]> {
     this.logger.info('Getting kitties for sale...');
     const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
@@ -259,19 +1612,19 @@ export class KittiesAPI implements DeployedKittiesAPI {
     const ledgerState = Kitties.ledger(contractState.data);
     const forSaleKitties: KittyListingData[] = [];
 
+    // Bundled kitties are for sale too, with their bundle, even when they aren't listed on their own
     for (const [kittyId, kitty] of ledgerState.kitties) {
-      if (kitty.forSale) {
+      const bundleId = ledgerState.kittyBundles.member(kittyId) ? ledgerState.kittyBundles.lookup(kittyId) : null;
+      if (kitty.forSale || bundleId !== null) {
         forSaleKitties.push({
           id: kittyId,
-          kitty: {
-            id: kittyId,
-            dna: kitty.dna,
-            gender: kitty.gender,
-            owner: kitty.owner,
-            price: kitty.price,
-            forSale: kitty.forSale,
-            generation: kitty.generation,
-          },
+          kitty: KittiesAPI.toKittyData(
+            kittyId,
+            kitty,
+            KittiesAPI.metadataOf(ledgerState, kittyId),
+            KittiesAPI.accessoriesOf(ledgerState, kittyId),
+          ),
+          bundleId,
         });
       }
     }
@@ -290,17 +1643,23 @@ export class KittiesAPI implements DeployedKittiesAPI {
     const ledgerState = Kitties.ledger(contractState.data);
     const userKitties: KittyData[] = [];
 
+    // Shielded kitties don't disclose their owner, so only this wallet's private state can find its own
+    const ownerKey = toHex(owner.bytes) === toHex(this.ownPublicKey().bytes) ? await this.getShieldedOwnerKey() : null;
+    const ownsShielded = (kittyId: bigint): boolean =>
+      ownerKey !== null &&
+      ledgerState.shieldedOwners.member(kittyId) &&
+      ownsShieldedKitty(ownerKey, kittyId, ledgerState.shieldedOwners.lookup(kittyId));
+
     for (const [kittyId, kitty] of ledgerState.kitties) {
-      if (toHex(kitty.owner.bytes) === toHex(owner.bytes)) {
-        userKitties.push({
-          id: kittyId,
-          dna: kitty.dna,
-          gender: kitty.gender,
-          owner: kitty.owner,
-          price: kitty.price,
-          forSale: kitty.forSale,
-          generation: kitty.generation,
-        });
+      if (toHex(kitty.owner.bytes) === toHex(owner.bytes) || ownsShielded(kittyId)) {
+        userKitties.push(
+          KittiesAPI.toKittyData(
+            kittyId,
+            kitty,
+            KittiesAPI.metadataOf(ledgerState, kittyId),
+            KittiesAPI.accessoriesOf(ledgerState, kittyId),
+          ),
+        );
       }
     }
 
@@ -308,6 +1667,394 @@ export class KittiesAPI implements DeployedKittiesAPI {
     return userKitties;
   }
 
+  /**
+   * Kitty data as returned by the API, flagging kitties whose owner is shielded.
+   * The name and metadata URI come from the separate kittyMetadata ledger map, the worn accessories from kittyAccessories.
+   */
+  static toKittyData(
+    kittyId: bigint,
+    kitty: Kitty,
+    metadata?: KittyMetadata,
+    accessories: AccessoryData[] = [],
+  ): KittyData {
+    return {
+      id: kittyId,
+      name: metadata ? decodePaddedString(metadata.name) : '',
+      metadataUri: metadata ? decodePaddedString(metadata.uri) : '',
+      dna: kitty.dna,
+      gender: kitty.gender,
+      owner: kitty.owner,
+      price: kitty.price,
+      forSale: kitty.forSale,
+      generation: kitty.generation,
+      cooldownIndex: kitty.cooldownIndex,
+      cooldownEnd: kitty.cooldownEnd,
+      matronId: kitty.matronId,
+      sireId: kitty.sireId,
+      birthTime: kitty.birthTime,
+      creator: kitty.creator,
+      shielded: isShieldedVault(kitty.owner),
+      accessories,
+    };
+  }
+
+  private static metadataOf(ledgerState: Ledger, kittyId: bigint): KittyMetadata | undefined {
+    return ledgerState.kittyMetadata.member(kittyId) ? ledgerState.kittyMetadata.lookup(kittyId) : undefined;
+  }
+
+  //  =====================================
+  //   LINEAGE
+  //  =====================================
+
+  /**
+   * Family tree of a kitty, built from the matron and sire recorded on each kitty at birth.
+   * Ancestors and descendants are followed at most `depth` generations away.
+   */
+  async getLineage(kittyId: bigint, depth = 3): Promise<LineageData> {
+    this.logger.info(`Getting lineage of kitty ${kittyId}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    const ledgerState = contractState ? Kitties.ledger(contractState.data) : null;
+    if (!ledgerState?.kitties.member(kittyId)) {
+      throw new Error(`Kitty ${kittyId} does not exist`);
+    }
+
+    // Index every kitty and its children once, so the trees are built without rescanning the ledger
+    const kitties = new Map<bigint, KittyData>();
+    const children = new Map<bigint, KittyData[]>();
+    for (const [id, kitty] of ledgerState.kitties) {
+      const kittyData = KittiesAPI.toKittyData(
+        id,
+        kitty,
+        KittiesAPI.metadataOf(ledgerState, id),
+        KittiesAPI.accessoriesOf(ledgerState, id),
+      );
+      kitties.set(id, kittyData);
+      for (const parentId of [kitty.matronId, kitty.sireId]) {
+        if (parentId !== 0n) {
+          children.set(parentId, [...(children.get(parentId) ?? []), kittyData]);
+        }
+      }
+    }
+
+    const ancestorsOf = (kitty: KittyData, levels: number): AncestorTree => {
+      const parent = (parentId: bigint): AncestorTree | null => {
+        const found = kitties.get(parentId);
+        return levels > 0 && found ? ancestorsOf(found, levels - 1) : null;
+      };
+      return { kitty, matron: parent(kitty.matronId), sire: parent(kitty.sireId) };
+    };
+    const descendantsOf = (kitty: KittyData, levels: number): DescendantTree => ({
+      kitty,
+      children: levels > 0 ? (children.get(kitty.id) ?? []).map((child) => descendantsOf(child, levels - 1)) : [],
+    });
+
+    const root = kitties.get(kittyId)!;
+    return {
+      kittyId,
+      depth,
+      ancestors: ancestorsOf(root, depth),
+      descendants: descendantsOf(root, depth),
+    };
+  }
+
+  //  =====================================
+  //   ACTIVITY
+  //  =====================================
+
+  /**
+   * Decoded entries of the contract's activity log, oldest first. Indexers pass the sequence number
+   * after the last event they processed as `since`; a warning is logged if entries were dropped before
+   * they were read, since the contract only keeps the last ACTIVITY_LOG_SIZE entries.
+   */
+  async getActivity(params: GetActivityParams = {}): Promise<ActivityEvent[]> {
+    const { since = 0n, kittyId } = params;
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      throw new Error('Contract state not found');
+    }
+    const ledgerState = Kitties.ledger(contractState.data);
+    if (hasActivityGap(since, ledgerState.activityCount)) {
+      const oldest = ledgerState.activityCount - ACTIVITY_LOG_SIZE;
+      this.logger.info(`Activity #${since} to #${oldest - 1n} was dropped from the log, starting at #${oldest}`);
+    }
+    const events = decodeActivityLog(ledgerState, since);
+    return kittyId === undefined ? events : events.filter((event) => event.kittyId === kittyId);
+  }
+
+  //  =====================================
+  //   ADMINISTRATION
+  //  =====================================
+
+  /**
+   * Stop trading, minting and breeding. Offers, auctions and refunds can still be withdrawn.
+   */
+  async pause(): Promise<void> {
+    this.logger.info('Pausing the contract...');
+    const finalizedTxData = await this.deployedContract.callTx.pause();
+    this.logger.info(`Contract paused! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async unpause(): Promise<void> {
+    this.logger.info('Unpausing the contract...');
+    const finalizedTxData = await this.deployedContract.callTx.unpause();
+    this.logger.info(`Contract unpaused! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async setMintPolicy(params: SetMintPolicyParams): Promise<void> {
+    this.logger.info(
+      `Setting the mint policy (supply ${params.maxGen0Supply}, wallet limit ${params.walletLimit}, fee ${params.mintFee})...`,
+    );
+    const finalizedTxData = await this.deployedContract.callTx.setMintPolicy(
+      params.maxGen0Supply,
+      params.walletLimit,
+      params.mintFee,
+    );
+    this.logger.info(`Mint policy updated! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async transferAdmin(params: TransferAdminParams): Promise<void> {
+    this.logger.info(`Transferring the admin role to ${toHex(params.newAdmin.bytes)}...`);
+    const finalizedTxData = await this.deployedContract.callTx.transferAdmin(params.newAdmin);
+    this.logger.info(`Admin role transferred! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async getAdminInfo(): Promise<AdminInfo> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      throw new Error('Contract state not found');
+    }
+    const ledgerState = Kitties.ledger(contractState.data);
+    return {
+      admin: ledgerState.admin,
+      paused: ledgerState.paused,
+      mintPolicy: ledgerState.mintPolicy,
+      gen0Count: ledgerState.gen0Count,
+      allowlistRoot: ledgerState.allowlistRoot,
+    };
+  }
+
+  /**
+   * Whether the connected wallet holds the admin role
+   */
+  async isAdmin(): Promise<boolean> {
+    const { admin } = await this.getAdminInfo();
+    return toHex(admin.bytes) === toHex(this.ownPublicKey().bytes);
+  }
+
+  private async getMintFee(): Promise<bigint> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    return contractState ? Kitties.ledger(contractState.data).mintPolicy.mintFee : 0n;
+  }
+
+  //  =====================================
+  //   ALLOWLIST
+  //  =====================================
+
+  /**
+   * Limit generation 0 minting to the entries of an allowlist from createAllowlist or parseAllowlist.
+   * Only the root goes on chain; publish the list with serializeAllowlist so minters can find their entry.
+   */
+  async setAllowlist(allowlist: Allowlist): Promise<void> {
+    this.logger.info(`Publishing an allowlist of ${allowlist.leaves.length} entries...`);
+    const finalizedTxData = await this.deployedContract.callTx.setAllowlistRoot(allowlist.root);
+    this.logger.info(`Allowlist published! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  async clearAllowlist(): Promise<void> {
+    this.logger.info('Opening generation 0 minting to everyone...');
+    const finalizedTxData = await this.deployedContract.callTx.setAllowlistRoot({ field: 0n });
+    this.logger.info(`Allowlist cleared! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+  }
+
+  /**
+   * Find this wallet's entry on the published allowlist, by an allowlist secret or else by the wallet's
+   * public key, and keep its ticket in the private state for createKitty and createShieldedKitty.
+   */
+  async useAllowlist(params: UseAllowlistParams): Promise<AllowlistTicket> {
+    const { allowlistRoot } = await this.getAdminInfo();
+    if (params.allowlist.root.field !== allowlistRoot.field) {
+      throw new Error("This allowlist isn't the one set on chain");
+    }
+
+    const ticket = getAllowlistTicket(
+      params.allowlist,
+      params.secret ? { kind: 'secret', value: params.secret } : { kind: 'key', value: this.ownPublicKey().bytes },
+    );
+    const privateState = await this.getSealedBidState();
+    await this.providers.privateStateProvider.set('kittiesPrivateState', setAllowlistTicket(privateState, ticket));
+    this.logger.info(`Allowlist ticket saved, it can mint ${ticket.limit} kitties`);
+    return ticket;
+  }
+
+  async getAllowlistStatus(): Promise<AllowlistStatus> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      throw new Error('Contract state not found');
+    }
+    const ledgerState = Kitties.ledger(contractState.data);
+    const ticket = (await this.providers.privateStateProvider.get('kittiesPrivateState'))?.allowlistTicket;
+    if (!ticket) {
+      return { active: isAllowlistActive(ledgerState.allowlistRoot), limit: 0n, minted: 0n };
+    }
+    const leaf = ticket.path.leaf;
+    return {
+      active: isAllowlistActive(ledgerState.allowlistRoot),
+      limit: ticket.limit,
+      minted: ledgerState.allowlistMinted.member(leaf) ? ledgerState.allowlistMinted.lookup(leaf) : 0n,
+    };
+  }
+
+  /**
+   * Check the allowlist ticket, then get a sealed randomness commitment ready, for every
+   * generation 0 mint. Returns the mint fee to pay.
+   */
+  private async prepareGen0Mint(): Promise<bigint> {
+    await this.ensureAllowlistTicket();
+    await this.ensureRandomCommit();
+    return await this.getMintFee();
+  }
+
+  /**
+   * Refuse to mint before spending a randomness commitment when an allowlist is set
+   * and there is no ticket to mint with.
+   */
+  private async ensureAllowlistTicket(): Promise<void> {
+    const { active, limit, minted } = await this.getAllowlistStatus();
+    if (!active) {
+      return;
+    }
+    if (limit === 0n) {
+      throw new Error('Minting is limited to an allowlist, load your allowlist entry first');
+    }
+    if (minted >= limit) {
+      throw new Error(`Your allowlist entry has minted all of its ${limit} kitties`);
+    }
+  }
+
+  //  =====================================
+  //   MIGRATION
+  //  =====================================
+
+  /**
+   * Snapshot this deployment: kitties with their names and shielded owners, offers, counters,
+   * settings and NFT approvals. Write it to a file with serializeSnapshot.
+   */
+  async exportState(): Promise<KittiesSnapshot> {
+    this.logger.info(`Exporting the state of ${this.deployedContractAddress}...`);
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      throw new Error('Contract state not found');
+    }
+    const snapshot = createSnapshot(Kitties.ledger(contractState.data), this.deployedContractAddress);
+    this.logger.info(`Exported ${snapshot.kitties.length} kitties and ${snapshot.buyOffers.length} offers`);
+    return snapshot;
+  }
+
+  /**
+   * Recreate the kitties of a snapshot on this deployment, which must be fresh (admin only).
+   * Pauses the contract, opens the import, imports the kitties in ID order, closes the import for good and applies the
+   * snapshot's mint policy and pause state. Kitties imported by an interrupted run are skipped, so it
+   * can be run again. Offers and their escrow stay on the old deployment, and owners grant NFT approvals again.
+   */
+  async importState(snapshot: KittiesSnapshot, onProgress?: (imported: number, total: number) => void): Promise<void> {
+    const contractState = await this.providers.publicDataProvider.queryContractState(this.deployedContractAddress);
+    if (!contractState) {
+      throw new Error('Contract state not found');
+    }
+    const ledgerState = Kitties.ledger(contractState.data);
+    if (!ledgerState.importOpen && ledgerState.allKittiesCount > 0n) {
+      throw new Error('This deployment already has kitties, import into a fresh one');
+    }
+    if (!(await this.isAdmin())) {
+      throw new Error('Only the admin can import kitties');
+    }
+    if (ledgerState.royaltyRate.toString() !== snapshot.settings.royaltyRate) {
+      this.logger.info(
+        `Warning: this deployment pays ${formatRoyaltyRate(ledgerState.royaltyRate)} royalties, the snapshot ${formatRoyaltyRate(BigInt(snapshot.settings.royaltyRate))}`,
+      );
+    }
+
+    if (!ledgerState.paused) {
+      await this.pause();
+    }
+    if (!ledgerState.importOpen) {
+      this.logger.info('Opening the import...');
+      const finalizedTxData = await this.deployedContract.callTx.openImport();
+      this.logger.info(`Import opened! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+    }
+
+    const pending = snapshot.kitties
+      .map(toImportedKitty)
+      .filter(({ kittyId }) => kittyId > ledgerState.allKittiesCount);
+    for (const [index, { kittyId, kitty, metadata, shieldedOwner }] of pending.entries()) {
+      this.logger.info(`Importing kitty ${kittyId} (${index + 1}/${pending.length})...`);
+      const finalizedTxData = await this.deployedContract.callTx.importKitty(kittyId, kitty, metadata, shieldedOwner);
+      this.logger.info(`Kitty imported! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+      onProgress?.(index + 1, pending.length);
+    }
+
+    await this.importMintLimits(ledgerState, snapshot.mintLimits);
+
+    this.logger.info('Finishing the import...');
+    const finalizedTxData = await this.deployedContract.callTx.finishImport(
+      BigInt(snapshot.counters.allKittiesCount),
+      BigInt(snapshot.counters.gen0Count),
+    );
+    this.logger.info(`Import finished! Transaction added in block ${finalizedTxData.public.blockHeight}`);
+
+    const { maxGen0Supply, walletLimit, mintFee } = snapshot.settings.mintPolicy;
+    await this.setMintPolicy({
+      maxGen0Supply: BigInt(maxGen0Supply),
+      walletLimit: BigInt(walletLimit),
+      mintFee: BigInt(mintFee),
+    });
+    const allowlistRoot = BigInt(snapshot.settings.allowlistRoot);
+    if (allowlistRoot !== 0n && ledgerState.allowlistRoot.field !== allowlistRoot) {
+      this.logger.info('Publishing the allowlist of the earlier deployment...');
+      const rootTxData = await this.deployedContract.callTx.setAllowlistRoot({ field: allowlistRoot });
+      this.logger.info(`Allowlist published! Transaction added in block ${rootTxData.public.blockHeight}`);
+    }
+    if (!snapshot.settings.paused) {
+      await this.unpause();
+    }
+  }
+
+  /**
+   * Restore the generation 0 mint counts, shielded mint nullifiers and allowlist usage of a snapshot,
+   * so wallet and allowlist limits don't start over. Entries an interrupted import already restored are skipped.
+   */
+  private async importMintLimits(ledgerState: Ledger, mintLimits: KittiesSnapshot['mintLimits']): Promise<void> {
+    const mintedBy = mintLimits.gen0MintedBy
+      .map(({ account, minted }) => ({ account: { bytes: parseAddress(account) }, minted: BigInt(minted) }))
+      .filter(
+        ({ account, minted }) =>
+          !ledgerState.gen0MintedBy.member(account) || ledgerState.gen0MintedBy.lookup(account) !== minted,
+      );
+    this.logger.info(`Restoring the generation 0 mint counts of ${mintedBy.length} accounts...`);
+    for (const { account, minted } of mintedBy) {
+      await this.deployedContract.callTx.importGen0Minted(account, minted);
+    }
+
+    const nullifiers = mintLimits.gen0Nullifiers
+      .map(parseAddress)
+      .filter((nullifier) => !ledgerState.gen0Nullifiers.member(nullifier));
+    this.logger.info(`Restoring ${nullifiers.length} shielded mint nullifiers...`);
+    for (const nullifier of nullifiers) {
+      await this.deployedContract.callTx.importGen0Nullifier(nullifier);
+    }
+
+    const allowlistMinted = mintLimits.allowlistMinted
+      .map(({ leaf, minted }) => ({ leaf: parseAddress(leaf), minted: BigInt(minted) }))
+      .filter(
+        ({ leaf, minted }) =>
+          !ledgerState.allowlistMinted.member(leaf) || ledgerState.allowlistMinted.lookup(leaf) !== minted,
+      );
+    this.logger.info(`Restoring the mint counts of ${allowlistMinted.length} allowlist entries...`);
+    for (const { leaf, minted } of allowlistMinted) {
+      await this.deployedContract.callTx.importAllowlistMinted(leaf, minted);
+    }
+  }
+
   //  =====================================
   //   NFT STANDARD OPERATIONS
   //  =====================================
@@ -391,6 +2138,15 @@ export class KittiesAPI implements DeployedKittiesAPI {
     }
   }
 
+  /**
+   * Build the native token coin that escrows a bid
+   * @param amount - The amount of native tokens to lock
+   * @returns The encoded coin to pass to the contract
+   */
+  private static createEscrowCoin(amount: bigint) {
+    return encodeCoinInfo(createCoinInfo(nativeToken(), amount));
+  }
+
   //  =====================================
   //   UNIFIED STATIC METHODS (UI + CLI)
   //  =====================================
@@ -401,8 +2157,16 @@ export class KittiesAPI implements DeployedKittiesAPI {
    * @param privateState - Initial private state for the contract
    * @returns KittiesAPI instance
    */
-  static async deploy(providers: KittiesProviders, privateState: KittiesPrivateState): Promise<KittiesAPI> {
-    console.log('Deploying kitties contract...');
+  static async deploy(
+    providers: KittiesProviders,
+    privateState: KittiesPrivateState,
+    config: DeployKittiesConfig = {},
+  ): Promise<KittiesAPI> {
+    const royaltyRate = config.royaltyRate ?? 0n;
+    if (royaltyRate < 0n || royaltyRate > ROYALTY_BASIS_POINTS) {
+      throw new Error(`Royalty rate must be between 0 and ${ROYALTY_BASIS_POINTS} basis points`);
+    }
+    console.log(`Deploying kitties contract with a ${formatRoyaltyRate(royaltyRate)} creator royalty...`);
 
     try {
       // Validate providers
@@ -413,6 +2177,7 @@ export class KittiesAPI implements DeployedKittiesAPI {
         contract: kittiesContractInstance,
         privateStateId: 'kittiesPrivateState',
         initialPrivateState: await KittiesAPI.getPrivateState('kittiesPrivateState', providers.privateStateProvider),
+        args: [royaltyRate],
       });
 
       console.log(`Deployed contract at address: ${deployedContract.deployTxData.public.contractAddress}`);
@@ -478,8 +2243,12 @@ export class KittiesAPI implements DeployedKittiesAPI {
    * @returns Transaction response with details
    */
   static async createKittyWithTxInfo(kittiesApi: KittiesAPI): Promise<TransactionResponse> {
+    const mintFee = await kittiesApi.prepareGen0Mint();
     console.log('Creating new kitty...');
-    const finalizedTxData = await kittiesApi.deployedContract.callTx.createKitty();
+    const finalizedTxData = await kittiesApi.deployedContract.callTx.createKitty(
+      nowInSeconds(),
+      KittiesAPI.createEscrowCoin(mintFee),
+    );
 
     // Extract transaction information defensively
     let txInfo: TransactionResponse = {};
@@ -572,8 +2341,14 @@ export class KittiesAPI implements DeployedKittiesAPI {
     privateStateProvider: PrivateStateProvider<'kittiesPrivateState', KittiesPrivateState>,
   ): Promise<KittiesPrivateState> {
     let state = await privateStateProvider.get('kittiesPrivateState');
-    if (state === null) {
-      state = createKittiesPrivateState();
+    // Fill in secrets missing from states saved by older versions, keeping the existing ones
+    if (state === null || !state.secretSeed || !state.ownerSecret) {
+      state = createKittiesPrivateState(
+        state?.secretSeed ?? randomBytes(32),
+        state?.ownerSecret ?? randomBytes(32),
+        state?.sealedBids,
+        state?.allowlistTicket,
+      );
       await privateStateProvider.set('kittiesPrivateState', state);
     }
     return state;
@@ -585,7 +2360,7 @@ export class KittiesAPI implements DeployedKittiesAPI {
   ): Promise<KittiesPrivateState> {
     const existingPrivateState = await providers.get(privateStateKey);
     const initialState = await this.getOrCreateInitialPrivateState(providers);
-    return existingPrivateState ?? initialState;
+    return existingPrivateState?.secretSeed && existingPrivateState.ownerSecret ? existingPrivateState : initialState;
   }
 
   //  =====================================
@@ -691,7 +2466,12 @@ export class KittiesAPI implements DeployedKittiesAPI {
    */
   static async createBuyOffer(kittiesApi: KittiesAPI, params: CreateBuyOfferParams): Promise<TransactionResponse> {
     console.log(`Creating buy offer for kitty ${params.kittyId} with bid price ${params.bidPrice}...`);
-    const finalizedTxData = await kittiesApi.deployedContract.callTx.createBuyOffer(params.kittyId, params.bidPrice);
+    const finalizedTxData = await kittiesApi.deployedContract.callTx.createBuyOffer(
+      params.kittyId,
+      params.bidPrice,
+      params.expiresAt ?? 0n,
+      KittiesAPI.createEscrowCoin(params.bidPrice),
+    );
 
     return {
       txId: (finalizedTxData as any).public?.txId,
@@ -707,8 +2487,13 @@ export class KittiesAPI implements DeployedKittiesAPI {
    * @returns Transaction response with details
    */
   static async breedKitty(kittiesApi: KittiesAPI, params: BreedKittyParams): Promise<TransactionResponse> {
+    await kittiesApi.ensureRandomCommit();
     console.log(`Breeding kitties ${params.kittyId1} and ${params.kittyId2}...`);
-    const finalizedTxData = await kittiesApi.deployedContract.callTx.breedKitty(params.kittyId1, params.kittyId2);
+    const finalizedTxData = await kittiesApi.deployedContract.callTx.breedKitty(
+      params.kittyId1,
+      params.kittyId2,
+      nowInSeconds(),
+    );
 
     return {
       txId: (finalizedTxData as any).public?.txId,
@@ -761,7 +2546,7 @@ export class KittiesAPI implements DeployedKittiesAPI {
    * @param kittyId - The kitty ID to get offers for
    * @returns Array of offers for the kitty
    */
-  static async getOffersForKitty(kittiesApi: KittiesAPI, kittyId: bigint): Promise<Offer[]> {
+  static async getOffersForKitty(kittiesApi: KittiesAPI, kittyId: bigint): Promise<OfferData[]> {
     return await kittiesApi.getOffersForKitty(kittyId);
   }
 }
@@ -0,0 +1,211 @@
+/**
+ * @file snapshot.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { toHex } from '@midnight-ntwrk/midnight-js-utils';
+import {
+  Kitties,
+  type Gender,
+  type Kitty,
+  type KittyMetadata,
+  type Ledger,
+  type ShieldedOwner,
+} from '@midnight-ntwrk/kitties-contract';
+import type { KittiesSnapshot, SnapshotKitty, SnapshotOffer } from './types.js';
+import { decodePaddedString, encodeKittyName, encodeMetadataUri, parseAddress } from './utils.js';
+
+/**
+ * Snapshot format written by createSnapshot. Bump it when the format changes, so older tools refuse newer files.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * A kitty from a snapshot, decoded into the arguments of the importKitty circuit
+ */
+export interface ImportedKitty {
+  kittyId: bigint;
+  kitty: Kitty;
+  metadata: KittyMetadata;
+  shieldedOwner: ShieldedOwner;
+}
+
+/**
+ * Snapshot the ledger of a deployment
+ * @param ledgerState - The parsed ledger of the deployment
+ * @param contractAddress - The address of the deployment, recorded for reference
+ * @returns The snapshot, ready for serializeSnapshot
+ */
+export function createSnapshot(ledgerState: Ledger, contractAddress: string): KittiesSnapshot {
+  const kitties: SnapshotKitty[] = [];
+  for (const [kittyId, kitty] of ledgerState.kitties) {
+    const metadata = ledgerState.kittyMetadata.member(kittyId) ? ledgerState.kittyMetadata.lookup(kittyId) : null;
+    const shieldedOwner = ledgerState.shieldedOwners.member(kittyId)
+      ? ledgerState.shieldedOwners.lookup(kittyId)
+      : null;
+    kitties.push({
+      id: kittyId.toString(),
+      dna: kitty.dna.toString(),
+      gender: Number(kitty.gender),
+      owner: toHex(kitty.owner.bytes),
+      price: kitty.price.toString(),
+      forSale: kitty.forSale,
+      generation: kitty.generation.toString(),
+      cooldownIndex: kitty.cooldownIndex.toString(),
+      cooldownEnd: kitty.cooldownEnd.toString(),
+      matronId: kitty.matronId.toString(),
+      sireId: kitty.sireId.toString(),
+      birthTime: kitty.birthTime.toString(),
+      creator: toHex(kitty.creator.bytes),
+      name: metadata ? decodePaddedString(metadata.name) : '',
+      metadataUri: metadata ? decodePaddedString(metadata.uri) : '',
+      shieldedOwner: shieldedOwner
+        ? { commitment: toHex(shieldedOwner.commitment), round: shieldedOwner.round.toString() }
+        : undefined,
+      onAuction: ledgerState.auctions.member(kittyId) || ledgerState.sealedAuctions.member(kittyId),
+    });
+  }
+  kitties.sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+
+  const buyOffers: SnapshotOffer[] = [];
+  for (const [kittyId, kittyOffers] of ledgerState.buyOffers) {
+    const kittyEscrow = ledgerState.offerEscrow.member(kittyId) ? ledgerState.offerEscrow.lookup(kittyId) : null;
+    for (const [buyer, offer] of kittyOffers) {
+      // Only open offers are listed, accepted and rejected ones are closed
+      if (offer.status !== Kitties.OfferStatus.Pending && offer.status !== Kitties.OfferStatus.Countered) {
+        continue;
+      }
+      buyOffers.push({
+        kittyId: kittyId.toString(),
+        buyer: toHex(buyer.bytes),
+        price: offer.price.toString(),
+        expiresAt: offer.expiresAt.toString(),
+        escrowed: (kittyEscrow?.member(buyer) ? kittyEscrow.lookup(buyer).value : 0n).toString(),
+      });
+    }
+  }
+
+  // Approvals live in the ledgers of the imported NFT module
+  const tokens = Array.from(ledgerState.tokenApprovals)
+    .filter(([, approved]) => approved.bytes.some((byte) => byte !== 0))
+    .map(([kittyId, approved]) => ({ kittyId: kittyId.toString(), approved: toHex(approved.bytes) }));
+  const operators: Array<{ owner: string; operator: string }> = [];
+  for (const [owner, ownerOperators] of ledgerState.operatorApprovals) {
+    for (const [operator, approved] of ownerOperators) {
+      if (approved) {
+        operators.push({ owner: toHex(owner.bytes), operator: toHex(operator.bytes) });
+      }
+    }
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    contractAddress,
+    exportedAt: new Date().toISOString(),
+    counters: {
+      allKittiesCount: ledgerState.allKittiesCount.toString(),
+      burnedCount: ledgerState.burnedCount.toString(),
+      gen0Count: ledgerState.gen0Count.toString(),
+    },
+    settings: {
+      admin: toHex(ledgerState.admin.bytes),
+      paused: ledgerState.paused,
+      royaltyRate: ledgerState.royaltyRate.toString(),
+      mintPolicy: {
+        maxGen0Supply: ledgerState.mintPolicy.maxGen0Supply.toString(),
+        walletLimit: ledgerState.mintPolicy.walletLimit.toString(),
+        mintFee: ledgerState.mintPolicy.mintFee.toString(),
+      },
+      allowlistRoot: ledgerState.allowlistRoot.field.toString(),
+    },
+    mintLimits: {
+      gen0MintedBy: Array.from(ledgerState.gen0MintedBy).map(([account, minted]) => ({
+        account: toHex(account.bytes),
+        minted: minted.toString(),
+      })),
+      gen0Nullifiers: Array.from(ledgerState.gen0Nullifiers).map((nullifier) => toHex(nullifier)),
+      allowlistMinted: Array.from(ledgerState.allowlistMinted).map(([leaf, minted]) => ({
+        leaf: toHex(leaf),
+        minted: minted.toString(),
+      })),
+    },
+    kitties,
+    buyOffers,
+    nftApprovals: { tokens, operators },
+  };
+}
+
+/**
+ * Serialize a snapshot as indented JSON
+ * @param snapshot - The snapshot to write
+ * @returns The JSON document
+ */
+export function serializeSnapshot(snapshot: KittiesSnapshot): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+/**
+ * Parse a snapshot written by serializeSnapshot
+ * @param json - The JSON document
+ * @returns The snapshot
+ * @throws Error if the document is not a snapshot or has an unsupported version
+ */
+export function parseSnapshot(json: string): KittiesSnapshot {
+  const snapshot = JSON.parse(json) as Partial<KittiesSnapshot>;
+  if (typeof snapshot !== 'object' || snapshot === null || typeof snapshot.version !== 'number') {
+    throw new Error('Not a kitties snapshot');
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`);
+  }
+  if (!snapshot.counters || !snapshot.settings || !snapshot.mintLimits || !Array.isArray(snapshot.kitties)) {
+    throw new Error('Snapshot is missing its counters, settings, mint limits or kitties');
+  }
+  return snapshot as KittiesSnapshot;
+}
+
+/**
+ * Decode a snapshot kitty into the arguments of the importKitty circuit.
+ * A kitty that was on auction comes back to its seller, off sale.
+ * @param entry - The kitty as stored in the snapshot
+ * @returns The kitty ID, kitty, metadata and shielded owner to import
+ */
+export function toImportedKitty(entry: SnapshotKitty): ImportedKitty {
+  return {
+    kittyId: BigInt(entry.id),
+    kitty: {
+      dna: BigInt(entry.dna),
+      gender: entry.gender as Gender,
+      owner: { bytes: parseAddress(entry.owner) },
+      price: entry.onAuction ? 0n : BigInt(entry.price),
+      forSale: entry.onAuction ? false : entry.forSale,
+      generation: BigInt(entry.generation),
+      cooldownIndex: BigInt(entry.cooldownIndex),
+      cooldownEnd: BigInt(entry.cooldownEnd),
+      matronId: BigInt(entry.matronId),
+      sireId: BigInt(entry.sireId),
+      birthTime: BigInt(entry.birthTime),
+      creator: { bytes: parseAddress(entry.creator) },
+    },
+    metadata: { name: encodeKittyName(entry.name), uri: encodeMetadataUri(entry.metadataUri) },
+    shieldedOwner: entry.shieldedOwner
+      ? { commitment: parseAddress(entry.shieldedOwner.commitment), round: BigInt(entry.shieldedOwner.round) }
+      : { commitment: new Uint8Array(32), round: 0n },
+  };
+}
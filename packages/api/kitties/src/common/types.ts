@@ -23,7 +23,23 @@
  * damages or losses arising from the use of this software.
  */
 
-import { Kitties, type KittiesPrivateState, type Gender, type Offer } from '@midnight-ntwrk/kitties-contract';
+import {
+  Kitties,
+  type KittiesPrivateState,
+  type Gender,
+  type Offer,
+  type Bundle,
+  type BundleOffer,
+  type Auction,
+  type SealedAuction,
+  type Gift,
+  type Rental,
+  type Attestation,
+  type AttestationFilter,
+  type Allowlist,
+  type MintPolicy,
+} from '@midnight-ntwrk/kitties-contract';
+import type { MerkleTreeDigest } from '@midnight-ntwrk/compact-runtime';
 import type { ImpureCircuitId, MidnightProviders } from '@midnight-ntwrk/midnight-js-types';
 import type { DeployedContract, FoundContract } from '@midnight-ntwrk/midnight-js-contracts';
 
@@ -42,27 +58,159 @@ export type KittiesProviders = MidnightProviders<
 export type DeployedKittiesContract = DeployedContract<KittiesContract> | FoundContract<KittiesContract>;
 
 // Re-export types from the contract
-export type { Ledger, Kitty, Gender, Offer } from '@midnight-ntwrk/kitties-contract';
+export type {
+  Ledger,
+  Kitty,
+  KittyMetadata,
+  Gender,
+  Offer,
+  OfferStatus,
+  Bundle,
+  BundleOffer,
+  Auction,
+  AuctionKind,
+  SealedAuction,
+  Gift,
+  Rental,
+  RentalKind,
+  Attestation,
+  AttestationPredicate,
+  AttestationFilter,
+  AllowlistTicket,
+  MintPolicy,
+  Accessory,
+  AccessorySlot,
+  KittyAccessories,
+} from '@midnight-ntwrk/kitties-contract';
 
 // Helper types for API methods
 export interface KittyData {
   id: bigint;
+  name: string; // Set by the owner, '' if unnamed
+  metadataUri: string; // Off-chain metadata set by the owner, '' if none
   dna: bigint;
   gender: Gender;
   owner: { bytes: Uint8Array };
   price: bigint;
   forSale: boolean;
   generation: bigint;
+  cooldownIndex: bigint;
+  cooldownEnd: bigint; // Block time in seconds when the kitty can breed again, 0 = ready
+  matronId: bigint; // Female parent, 0 for generation 0
+  sireId: bigint; // Male parent, 0 for generation 0
+  birthTime: bigint; // Block time in seconds when the kitty was created or bred
+  creator: { bytes: Uint8Array }; // Minter or breeder, paid a royalty when the kitty is sold; all zeros if born shielded
+  shielded: boolean; // Owner is hidden behind a commitment, `owner` is the shielded vault
+  accessories: AccessoryData[]; // Accessories the kitty wears, drawn on top of it
 }
 
+export interface DeployKittiesConfig {
+  royaltyRate?: bigint; // Share of each sale paid to the kitty's creator, in basis points (0-10000, default 0)
+}
+
+// Current admin, pause switch and generation 0 mint policy (0 disables a limit or the fee)
+export interface AdminInfo {
+  admin: { bytes: Uint8Array };
+  paused: boolean;
+  mintPolicy: MintPolicy;
+  gen0Count: bigint; // Generation 0 kitties minted so far
+  allowlistRoot: MerkleTreeDigest; // field 0 while minting is open to everyone
+}
+
+export interface SetMintPolicyParams {
+  maxGen0Supply: bigint; // 0 for unlimited
+  walletLimit: bigint; // Generation 0 mints per account, 0 for unlimited
+  mintFee: bigint; // Paid to the admin on each generation 0 mint, 0 for free
+}
+
+export interface TransferAdminParams {
+  newAdmin: { bytes: Uint8Array };
+}
+
+// A kitty listed on its own, in a bundle or both
 export interface KittyListingData {
   id: bigint;
+  kitty: KittyData; // forSale and price are its own listing
+  bundleId: bigint | null; // Bundle it is listed in, null if none
+}
+
+// A kitty with its parents, grandparents and so on; null where there is no parent or the depth runs out
+export interface AncestorTree {
   kitty: KittyData;
+  matron: AncestorTree | null;
+  sire: AncestorTree | null;
+}
+
+// A kitty with its children, grandchildren and so on, up to the requested depth
+export interface DescendantTree {
+  kitty: KittyData;
+  children: DescendantTree[];
+}
+
+export interface LineageData {
+  kittyId: bigint;
+  depth: number;
+  ancestors: AncestorTree;
+  descendants: DescendantTree;
+}
+
+// Where an offer stands: 'pending' and 'countered' offers are open, 'accepted' and 'rejected' ones closed
+export type OfferStatusName = 'pending' | 'countered' | 'accepted' | 'rejected';
+
+export interface OfferData extends Omit<Offer, 'status' | 'steps'> {
+  status: OfferStatusName;
+  escrowed: bigint;
+  thread: ActivityEvent[]; // The buyer's bid and the counters and outcome that followed, oldest first (last 8 kept)
 }
 
 export interface KittyOffersData {
   kittyId: bigint;
-  offers: Offer[];
+  offers: OfferData[];
+}
+
+export interface AuctionData extends Auction {
+  kittyId: bigint;
+  currentPrice: bigint; // Dutch: price at the time of the query, English: lowest bid accepted next
+}
+
+export interface RefundData {
+  kittyId: bigint;
+  amount: bigint;
+}
+
+export interface CreateBundleParams {
+  kittyIds: bigint[]; // 2 to BATCH_SIZE kitties with the same creator
+  price: bigint; // Price of the whole bundle
+}
+
+export interface BundleParams {
+  bundleId: bigint;
+}
+
+export interface CreateBundleOfferParams {
+  bundleId: bigint;
+  bidPrice: bigint;
+  expiresAt?: bigint; // Block time in seconds, omitted for an offer that never expires
+}
+
+export interface BundleOfferParams {
+  bundleId: bigint;
+  buyer: { bytes: Uint8Array };
+}
+
+export interface BundleOfferData extends BundleOffer {
+  escrowed: bigint;
+}
+
+export interface BundleData extends Omit<Bundle, 'kittyIds'> {
+  id: bigint;
+  kittyIds: bigint[]; // Without the empty slots
+  offers: BundleOfferData[];
+}
+
+export interface BundleRefundData {
+  bundleId: bigint;
+  amount: bigint;
 }
 
 export interface TransferKittyParams {
@@ -76,14 +224,351 @@ export interface TransferKittyFromParams {
   kittyId: bigint;
 }
 
+export interface SetKittyMetadataParams {
+  kittyId: bigint;
+  name: string; // Up to 32 bytes of UTF-8, '' to clear
+  uri?: string; // Up to 128 bytes of UTF-8, '' to clear, omitted to keep the current one
+}
+
+export interface BurnKittyParams {
+  kittyId: bigint;
+}
+
+// Versioned snapshot of a deployment's ledger, written by exportState and replayed by importState.
+// Amounts, IDs and times are decimal strings and keys are hex, so it round-trips through plain JSON.
+export interface KittiesSnapshot {
+  version: number;
+  contractAddress: string;
+  exportedAt: string; // ISO 8601
+  counters: {
+    allKittiesCount: string; // Burned kitties included, the next kitty gets this + 1
+    burnedCount: string;
+    gen0Count: string;
+  };
+  settings: {
+    admin: string;
+    paused: boolean;
+    royaltyRate: string; // Basis points, a constructor argument of the new deployment
+    mintPolicy: { maxGen0Supply: string; walletLimit: string; mintFee: string };
+    allowlistRoot: string; // Field of the allowlist root, 0 while minting is open
+  };
+  mintLimits: {
+    gen0MintedBy: Array<{ account: string; minted: string }>; // Public generation 0 mints per account
+    gen0Nullifiers: string[]; // Nullifiers left by shielded generation 0 mints
+    allowlistMinted: Array<{ leaf: string; minted: string }>; // Generation 0 mints per allowlist entry
+  };
+  kitties: SnapshotKitty[];
+  buyOffers: SnapshotOffer[];
+  nftApprovals: {
+    tokens: Array<{ kittyId: string; approved: string }>;
+    operators: Array<{ owner: string; operator: string }>;
+  };
+}
+
+export interface SnapshotKitty {
+  id: string;
+  dna: string;
+  gender: number; // Gender enum value
+  owner: string; // The shielded vault key for shielded kitties
+  price: string;
+  forSale: boolean;
+  generation: string;
+  cooldownIndex: string;
+  cooldownEnd: string;
+  matronId: string;
+  sireId: string;
+  birthTime: string;
+  creator: string;
+  name: string;
+  metadataUri: string;
+  shieldedOwner?: { commitment: string; round: string };
+  onAuction: boolean; // Imported back to its seller, the auction is not migrated
+}
+
+export interface SnapshotOffer {
+  kittyId: string;
+  buyer: string;
+  price: string;
+  expiresAt: string;
+  escrowed: string; // Native tokens locked on the old deployment
+}
+
+// Entry kinds of the contract's activity log, one per ActivityKind value
+export type ActivityEventType =
+  | 'mint'
+  | 'breed'
+  | 'import'
+  | 'transfer'
+  | 'burn'
+  | 'listed'
+  | 'delisted'
+  | 'offer'
+  | 'offerCancelled'
+  | 'offerRejected'
+  | 'refund'
+  | 'sale'
+  | 'auctionCreated'
+  | 'bid'
+  | 'auctionClosed'
+  | 'siringApproved'
+  | 'siringRevoked'
+  | 'metadataChanged'
+  | 'sealedBid'
+  | 'giftCreated'
+  | 'giftClaimed'
+  | 'giftReclaimed'
+  | 'rentalOffered'
+  | 'rented'
+  | 'rentalEnded'
+  | 'attested'
+  | 'accessoriesChanged'
+  | 'bundleListed'
+  | 'bundleDelisted'
+  | 'bundleOffer'
+  | 'bundleSold'
+  | 'offerCountered'
+  | 'bidBeaten'
+  | 'depositForfeited';
+
+// A decoded activity log entry. Shielded kitties show the shielded vault instead of their owners.
+export interface ActivityEvent {
+  seq: bigint; // Position in the log, increasing by one per entry
+  type: ActivityEventType;
+  kittyId: bigint;
+  from: { bytes: Uint8Array } | null; // Seller, sender, bidder or acting owner, null if it doesn't apply
+  to: { bytes: Uint8Array } | null; // Buyer, recipient or new owner, null if it doesn't apply
+  amount: bigint; // Price, bid or refund in native tokens, 0 if it doesn't apply
+}
+
+export interface GetActivityParams {
+  since?: bigint; // First sequence number to return, omitted for everything still in the log
+  kittyId?: bigint; // Only entries about this kitty
+}
+
 export interface SetPriceParams {
   kittyId: bigint;
   price: bigint;
 }
 
+// Batch operations take any number of kitties and send one transaction per BATCH_SIZE of them
+export interface BatchTransferKittyParams {
+  to: { bytes: Uint8Array };
+  kittyIds: bigint[];
+}
+
+export interface BatchSetPriceParams {
+  kittyIds: bigint[];
+  price: bigint; // Same price for every kitty, 0 takes them off sale
+}
+
+export interface BatchCancelListingParams {
+  kittyIds: bigint[];
+}
+
 export interface CreateBuyOfferParams {
   kittyId: bigint;
   bidPrice: bigint;
+  expiresAt?: bigint; // Block time in seconds, omitted or 0 for no expiry
+}
+
+export interface CancelOfferParams {
+  kittyId: bigint;
+}
+
+export interface RejectOfferParams {
+  kittyId: bigint;
+  buyer: { bytes: Uint8Array };
+}
+
+export interface CounterOfferParams {
+  kittyId: bigint;
+  buyer: { bytes: Uint8Array };
+  counterPrice: bigint; // Has to be above the buyer's bid
+}
+
+export interface AcceptCounterOfferParams {
+  kittyId: bigint;
+}
+
+export interface CreateEnglishAuctionParams {
+  kittyId: bigint;
+  reservePrice: bigint;
+  minIncrement: bigint;
+  endTime: bigint; // Block time in seconds when bidding closes
+}
+
+export interface CreateDutchAuctionParams {
+  kittyId: bigint;
+  startPrice: bigint;
+  endPrice: bigint;
+  duration: bigint; // Seconds for the price to fall from startPrice to endPrice
+}
+
+export interface BidOnAuctionParams {
+  kittyId: bigint;
+  bidPrice: bigint;
+}
+
+export interface AuctionParams {
+  kittyId: bigint;
+}
+
+export interface CreateSealedAuctionParams {
+  kittyId: bigint;
+  reservePrice: bigint;
+  deposit: bigint; // Escrowed by every bid, and the highest bid allowed
+  bidEndTime: bigint; // Block time in seconds when bidding closes and revealing starts
+  revealEndTime: bigint; // Block time in seconds when revealing closes
+}
+
+export interface CommitSealedBidParams {
+  kittyId: bigint;
+  price: bigint; // Kept in the private state, only disclosed if revealed
+}
+
+export interface SealedAuctionData extends SealedAuction {
+  kittyId: bigint;
+  phase: 'bidding' | 'revealing' | 'ended'; // At the time of the query, 'ended' auctions wait to be settled
+}
+
+// A sealed bid remembered in the private state and where it stands on the ledger:
+// 'sealed' must still be revealed (or withdrawn while bidding is open), 'leading' is the highest revealed bid,
+// 'lost' was revealed and beaten and has its deposit waiting to be withdrawn, 'forfeited' was never revealed
+// and its deposit goes to the seller, and 'settled' has no deposit left: it paid for the kitty or was claimed
+export interface MySealedBidData {
+  kittyId: bigint;
+  price: bigint;
+  bidEndTime: bigint;
+  status: 'sealed' | 'leading' | 'lost' | 'forfeited' | 'settled';
+}
+
+// Deposit of a sealed bid never revealed in one of your auctions, claimable once revealing has closed
+export interface ForfeitedSealedBidData {
+  kittyId: bigint;
+  commitment: Uint8Array;
+  amount: bigint;
+}
+
+export interface ClaimSealedBidDepositParams {
+  kittyId: bigint;
+  commitment: Uint8Array;
+}
+
+export interface GiftParams {
+  kittyId: bigint;
+}
+
+// Allowlist as published by the admin, written by serializeAllowlist.
+// The root and limits are decimal strings and the leaf hashes hex, so it round-trips through plain JSON.
+export interface AllowlistFile {
+  version: number;
+  root: string;
+  leaves: Array<{ hash: string; limit: string }>;
+}
+
+export interface UseAllowlistParams {
+  allowlist: Allowlist; // The list published by the admin, from parseAllowlist
+  secret?: Uint8Array; // Allowlist secret handed out by the admin, defaults to this wallet's key entry
+}
+
+// This wallet's standing on the allowlist, from the ticket in its private state
+export interface AllowlistStatus {
+  active: boolean; // Whether minting is limited to the allowlist
+  limit: bigint; // 0 if this wallet has no ticket
+  minted: bigint; // Generation 0 kitties minted with the ticket's entry
+}
+
+// A gifted kitty and the secret that claims it, shared as a claim code
+export interface ClaimCode {
+  kittyId: bigint;
+  secret: Uint8Array;
+}
+
+export interface GiftData extends Gift {
+  kittyId: bigint;
+}
+
+// 'breeding' lets the borrower use the kitty as a parent, 'custody' also hands it over
+export type RentalKindName = 'breeding' | 'custody';
+
+export interface OfferRentalParams {
+  kittyId: bigint;
+  borrower: { bytes: Uint8Array };
+  kind: RentalKindName;
+  endTime: bigint; // Block time in seconds when the borrower's rights end
+  fee: bigint; // Paid to the lender when the borrower accepts, 0 for a free rental
+}
+
+export interface RentalParams {
+  kittyId: bigint;
+}
+
+// A rental with the status it has right now: 'offered' waits for the borrower to accept,
+// 'active' grants the borrower its rights and 'ended' waits for endRental (expired offers too)
+export interface RentalData extends Omit<Rental, 'kind'> {
+  kittyId: bigint;
+  kind: RentalKindName;
+  status: 'offered' | 'active' | 'ended';
+}
+
+// Rentals of one account, as lender and as borrower
+export interface AccountRentals {
+  lent: RentalData[];
+  borrowed: RentalData[];
+}
+
+// Slot an accessory is worn in, in contract order
+export type AccessorySlotName = 'hat' | 'collar' | 'background';
+
+export interface AccessoryData {
+  id: bigint;
+  slot: AccessorySlotName;
+  style: number; // Look within the slot, see ACCESSORY_STYLES
+  name: string; // Style name, e.g. 'Crown'
+  owner: { bytes: Uint8Array } | null; // null while worn, it then goes with the kitty
+  kittyId: bigint; // Kitty wearing it, 0 = not worn
+}
+
+export interface MintAccessoryParams {
+  to: { bytes: Uint8Array };
+  slot: AccessorySlotName;
+  style: number; // 0-255
+}
+
+export interface TransferAccessoryParams {
+  accessoryId: bigint;
+  to: { bytes: Uint8Array };
+}
+
+export interface EquipAccessoryParams {
+  kittyId: bigint;
+  accessoryId: bigint;
+}
+
+export interface UnequipAccessoryParams {
+  kittyId: bigint;
+  slot: AccessorySlotName;
+}
+
+export interface AttestOwnershipParams {
+  filter: AttestationFilter; // What the verifier asked for
+  challenge: Uint8Array; // 32 bytes issued by the verifier
+  kittyId?: bigint; // Defaults to any of your shielded kitties that matches the filter
+}
+
+export interface VerifyAttestationParams {
+  attestationId: Uint8Array;
+  presenterSecret: Uint8Array; // Handed over with the ID by whoever presents the attestation
+  challenge: Uint8Array; // The challenge the verifier issued
+  filter: AttestationFilter; // What the verifier requires
+}
+
+export interface AttestationData extends Attestation {
+  id: Uint8Array; // Hand this to the verifier, it doesn't reveal the kitty or the owner
+}
+
+export interface OwnershipAttestation extends AttestationData {
+  presenterSecret: Uint8Array; // Hand this to the verifier with the ID and to nobody else
 }
 
 export interface BreedKittyParams {
@@ -91,6 +576,24 @@ export interface BreedKittyParams {
   kittyId2: bigint;
 }
 
+export interface ShieldKittyParams {
+  kittyId: bigint;
+}
+
+export interface TransferShieldedKittyParams {
+  kittyId: bigint;
+  toOwnerKey: Uint8Array; // Recipient's shielded owner key, from their getShieldedOwnerKey
+}
+
+export interface ApproveSiringParams {
+  kittyId: bigint;
+  to: { bytes: Uint8Array };
+}
+
+export interface RevokeSiringParams {
+  kittyId: bigint;
+}
+
 export interface NFTApprovalParams {
   to: { bytes: Uint8Array };
   tokenId: bigint;
@@ -110,3 +613,7 @@ export interface GetOfferParams {
   kittyId: bigint;
   from: { bytes: Uint8Array };
 }
+
+export interface WithdrawRefundParams {
+  kittyId: bigint;
+}
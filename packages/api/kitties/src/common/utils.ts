@@ -19,7 +19,35 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { Gender } from '@midnight-ntwrk/kitties-contract';
+import {
+  type Gender,
+  type Auction,
+  GENE_SLOTS,
+  ROYALTY_BASIS_POINTS,
+  decodeTraits,
+  isDutchAuction,
+} from '@midnight-ntwrk/kitties-contract';
+import type { AncestorTree, ClaimCode, DescendantTree, KittyData, OfferData } from './types.js';
+
+// Re-export the genome decoder so apps don't need to depend on the contract package
+export {
+  GENE_SLOTS,
+  TRAIT_NAMES,
+  decodeTraits,
+  decodeGenes,
+  expressedDNA,
+  type GeneSlot,
+  type KittyTraits,
+  type Trait,
+} from '@midnight-ntwrk/kitties-contract';
+
+// Re-export the auction price helpers for the same reason
+export { getDutchAuctionPrice, getMinimumBid, isDutchAuction } from '@midnight-ntwrk/kitties-contract';
+
+// And the royalty helpers
+export { ROYALTY_BASIS_POINTS, getRoyaltyShare, formatRoyaltyRate } from '@midnight-ntwrk/kitties-contract';
+export { BATCH_SIZE, MIN_BUNDLE_SIZE } from '@midnight-ntwrk/kitties-contract';
+export { ACCESSORY_SLOTS, ACCESSORY_STYLES, getAccessoryName } from '@midnight-ntwrk/kitties-contract';
 
 /**
  * Generate random bytes for various purposes (DNA generation, etc.)
@@ -61,6 +89,124 @@ export function dateToUnixTimestamp(year: number, month: number, day: number): b
   return BigInt(Math.floor(date.getTime())); // Convert to seconds and return as bigint
 }
 
+/**
+ * Current time as a Unix timestamp in seconds, matching contract block time
+ * @returns The current time in seconds as bigint
+ */
+export function nowInSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Check if an offer has passed its expiry
+ * @param expiresAt - The offer expiry in seconds (0 = never expires)
+ * @param now - The reference time in seconds, defaults to the current time
+ * @returns True if the offer can no longer be approved
+ */
+export function isOfferExpired(expiresAt: bigint, now: bigint = nowInSeconds()): boolean {
+  return expiresAt !== 0n && expiresAt <= now;
+}
+
+/**
+ * Format an offer expiry for display
+ * @param expiresAt - The offer expiry in seconds (0 = never expires)
+ * @returns A readable expiry string
+ */
+export function formatOfferExpiry(expiresAt: bigint): string {
+  if (expiresAt === 0n) {
+    return 'Never';
+  }
+  const date = new Date(Number(expiresAt) * 1000).toLocaleString();
+  return isOfferExpired(expiresAt) ? `Expired (${date})` : date;
+}
+
+/**
+ * Check if an offer can still be approved, countered, rejected or cancelled
+ * @param offer - The offer with its status by name
+ * @returns True for pending and countered offers
+ */
+export function isOpenOffer(offer: Pick<OfferData, 'status'>): boolean {
+  return offer.status === 'pending' || offer.status === 'countered';
+}
+
+/**
+ * Check if a kitty has recovered from its last breeding
+ * @param cooldownEnd - The block time in seconds when the cooldown ends (0 = ready)
+ * @param now - The reference time in seconds, defaults to the current time
+ * @returns True if the kitty can breed
+ */
+export function isReadyToBreed(cooldownEnd: bigint, now: bigint = nowInSeconds()): boolean {
+  return cooldownEnd <= now;
+}
+
+/**
+ * Format the time left on a breeding cooldown for display
+ * @param cooldownEnd - The block time in seconds when the cooldown ends (0 = ready)
+ * @param now - The reference time in seconds, defaults to the current time
+ * @returns A readable countdown such as '1h 5m 30s', or 'Ready' when the kitty can breed
+ */
+export function formatBreedingCooldown(cooldownEnd: bigint, now: bigint = nowInSeconds()): string {
+  if (isReadyToBreed(cooldownEnd, now)) {
+    return 'Ready';
+  }
+  return formatCountdown(cooldownEnd - now);
+}
+
+/**
+ * Check two kitties against the contract's inbreeding rules before breeding them
+ * @param kitty1 - The first parent
+ * @param kitty2 - The second parent
+ * @returns Why the contract would refuse the pair, or null if they are not closely related
+ */
+export function getInbreedingError(kitty1: KittyData, kitty2: KittyData): string | null {
+  const isParentOf = (parent: KittyData, child: KittyData) =>
+    child.matronId === parent.id || child.sireId === parent.id;
+  if (isParentOf(kitty1, kitty2) || isParentOf(kitty2, kitty1)) {
+    const [parent, child] = isParentOf(kitty1, kitty2) ? [kitty1, kitty2] : [kitty2, kitty1];
+    return `Kitty #${parent.id} is a parent of kitty #${child.id}`;
+  }
+  const shareMatron = kitty1.matronId !== 0n && kitty1.matronId === kitty2.matronId;
+  const shareSire = kitty1.sireId !== 0n && kitty1.sireId === kitty2.sireId;
+  if (shareMatron || shareSire) {
+    return `Kitties #${kitty1.id} and #${kitty2.id} are ${shareMatron && shareSire ? 'siblings' : 'half-siblings'}`;
+  }
+  return null;
+}
+
+/**
+ * Format the time left in an auction for display
+ * @param endTime - English: the block time in seconds when bidding closes, Dutch: when the price stops falling
+ * @param now - The reference time in seconds, defaults to the current time
+ * @returns A readable countdown such as '1h 5m 30s', or 'Ended' once the end time has passed
+ */
+export function formatAuctionTimeLeft(endTime: bigint, now: bigint = nowInSeconds()): string {
+  return endTime <= now ? 'Ended' : formatCountdown(endTime - now);
+}
+
+/**
+ * Format an auction kind for display
+ * @param auction - The auction from the contract
+ * @returns 'Dutch' or 'English'
+ */
+export function formatAuctionKind(auction: Auction): string {
+  return isDutchAuction(auction) ? 'Dutch' : 'English';
+}
+
+/**
+ * Format a number of seconds as a countdown
+ * @param seconds - The remaining time in seconds
+ * @returns A readable countdown such as '1d 2h 5m 30s'
+ */
+function formatCountdown(seconds: bigint): string {
+  const remaining = Number(seconds);
+  const days = Math.floor(remaining / 86400);
+  const hours = Math.floor((remaining % 86400) / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const seconds = remaining % 60;
+  const parts = [days && `${days}d`, hours && `${hours}h`, minutes && `${minutes}m`, seconds && `${seconds}s`];
+  return parts.filter(Boolean).join(' ');
+}
+
 /**
  * Convert Uint8Array to string
  * @param arr - The Uint8Array to convert
@@ -70,6 +216,81 @@ export function uint8ArrayToString(arr: Uint8Array): string {
   return new TextDecoder().decode(arr);
 }
 
+// Sizes of the name and metadata URI fields stored on-chain for each kitty
+export const KITTY_NAME_LENGTH = 32;
+export const METADATA_URI_LENGTH = 128;
+
+/**
+ * Encode a kitty name for the contract
+ * @param name - The name, at most 32 bytes of UTF-8 once trimmed ('' clears it)
+ * @returns The zero-padded name
+ */
+export function encodeKittyName(name: string): Uint8Array {
+  return encodeMetadataField(name.trim(), KITTY_NAME_LENGTH, 'Kitty name');
+}
+
+/**
+ * Encode a metadata URI for the contract
+ * @param uri - The URI, at most 128 bytes of UTF-8 once trimmed ('' clears it)
+ * @returns The zero-padded URI
+ */
+export function encodeMetadataUri(uri: string): Uint8Array {
+  return encodeMetadataField(uri.trim(), METADATA_URI_LENGTH, 'Metadata URI');
+}
+
+/**
+ * Decode a zero-padded name or URI from the contract
+ * @param bytes - The padded bytes
+ * @returns The text before the padding
+ */
+export function decodePaddedString(bytes: Uint8Array): string {
+  const end = bytes.indexOf(0);
+  return uint8ArrayToString(end === -1 ? bytes : bytes.slice(0, end));
+}
+
+/**
+ * Label a kitty by ID and, if it has one, its name
+ * @param kitty - The kitty to label
+ * @returns E.g. 'Kitty #3 "Whiskers"', or 'Kitty #3' when unnamed
+ */
+export function formatKittyLabel(kitty: Pick<KittyData, 'id' | 'name'>): string {
+  return kitty.name ? `Kitty #${kitty.id} "${kitty.name}"` : `Kitty #${kitty.id}`;
+}
+
+/**
+ * Encode a gift's kitty ID and secret as a code to share with the recipient
+ * @param claim - The gifted kitty and the secret that claims it
+ * @returns E.g. 'kitty-3-' followed by the secret in hex
+ */
+export function encodeClaimCode(claim: ClaimCode): string {
+  return `kitty-${claim.kittyId}-${formatAddress(claim.secret)}`;
+}
+
+/**
+ * Decode a claim code made by encodeClaimCode
+ * @param code - The code, surrounding whitespace is ignored
+ * @returns The gifted kitty and the secret that claims it
+ * @throws Error if the code is malformed
+ */
+export function decodeClaimCode(code: string): ClaimCode {
+  const match = /^kitty-(\d+)-([0-9a-f]{64})$/i.exec(code.trim());
+  if (!match) {
+    throw new Error('Invalid claim code');
+  }
+  return { kittyId: BigInt(match[1]), secret: parseAddress(match[2].toLowerCase()) };
+}
+
+function encodeMetadataField(text: string, length: number, field: string): Uint8Array {
+  if (text.includes('\0')) {
+    throw new Error(`${field} can't contain null characters`);
+  }
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length > length) {
+    throw new Error(`${field} is ${bytes.length} bytes long, the limit is ${length}`);
+  }
+  return pad(text, length);
+}
+
 /**
  * Custom JSON stringify that handles bigint values
  * @param obj - The object to stringify
@@ -116,6 +337,71 @@ export function isKittyForSale(price: bigint, forSale: boolean): boolean {
   return forSale && price > 0n;
 }
 
+/**
+ * Format a gene slot name for display
+ * @param slot - The gene slot, e.g. 'eyeColor'
+ * @returns A readable label, e.g. 'Eye Color'
+ */
+export function formatGeneSlot(slot: string): string {
+  return slot.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+}
+
+/**
+ * Format the traits encoded in kitty DNA for display
+ * @param dna - The kitty DNA
+ * @returns One line per gene slot, e.g. 'Eye Color: Sapphire (carries Gold)'
+ */
+export function formatTraits(dna: bigint): string[] {
+  const traits = decodeTraits(dna);
+  return GENE_SLOTS.map((slot) => {
+    const { name, recessive } = traits[slot];
+    const carries = name === recessive ? '' : ` (carries ${recessive})`;
+    return `${formatGeneSlot(slot)}: ${name}${carries}`;
+  });
+}
+
+/**
+ * Format a kitty's ancestors as an indented tree for display
+ * @param tree - The ancestor tree from getLineage
+ * @returns One line per kitty, e.g. '├─ Matron: Kitty #1 (Gen 0, Female)'
+ */
+export function formatAncestorTree(tree: AncestorTree): string[] {
+  return formatTree(tree, (node) => {
+    const parents: Array<[string, AncestorTree]> = [];
+    if (node.matron) parents.push(['Matron: ', node.matron]);
+    if (node.sire) parents.push(['Sire: ', node.sire]);
+    return parents;
+  });
+}
+
+/**
+ * Format a kitty's descendants as an indented tree for display
+ * @param tree - The descendant tree from getLineage
+ * @returns One line per kitty, e.g. '└─ Kitty #5 (Gen 1, Male)'
+ */
+export function formatDescendantTree(tree: DescendantTree): string[] {
+  return formatTree(tree, (node) => node.children.map((child): [string, DescendantTree] => ['', child]));
+}
+
+/**
+ * Draw a tree of kitties with box-drawing branches
+ * @param node - The root of the tree
+ * @param branches - The labelled subtrees below a node
+ * @returns The root line followed by the indented lines of each subtree
+ */
+function formatTree<T extends { kitty: KittyData }>(node: T, branches: (node: T) => Array<[string, T]>): string[] {
+  const { generation, gender } = node.kitty;
+  const lines = [`${formatKittyLabel(node.kitty)} (Gen ${generation}, ${formatGenderEnum(gender)})`];
+  const subtrees = branches(node);
+  subtrees.forEach(([label, subtree], index) => {
+    const last = index === subtrees.length - 1;
+    const [first, ...rest] = formatTree(subtree, branches);
+    lines.push(`${last ? '└─ ' : '├─ '}${label}${first}`);
+    lines.push(...rest.map((line) => `${last ? '   ' : '│  '}${line}`));
+  });
+  return lines;
+}
+
 /**
  * Format a gender enum value to a readable string
  * @param gender - The gender enum value from the contract
@@ -182,6 +468,23 @@ export function parseAddress(input: string): Uint8Array {
   }
 }
 
+/**
+ * Parse a royalty percentage typed by a user into basis points
+ * @param input - A percentage with up to two decimals, e.g. '2.5'
+ * @returns The rate in basis points, e.g. 250n
+ */
+export function parseRoyaltyPercent(input: string): bigint {
+  const match = /^(\d{1,3})(?:\.(\d{1,2}))?$/.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid royalty percentage: ${input}`);
+  }
+  const rate = BigInt(match[1]) * 100n + BigInt((match[2] ?? '').padEnd(2, '0'));
+  if (rate > ROYALTY_BASIS_POINTS) {
+    throw new Error('Royalty rate cannot exceed 100%');
+  }
+  return rate;
+}
+
 /**
  * Format a generation number for display
  * @param generation - The generation number as bigint
@@ -232,3 +535,19 @@ export function safeParseBigInt(input: string): bigint {
   }
   return parseBigInt(input);
 }
+
+/**
+ * Parse a comma or space separated list of kitty IDs for the batch operations, dropping duplicates
+ * @param input - The list typed by the user, e.g. "1, 2, 5"
+ * @returns The kitty IDs in the order given
+ */
+export function parseKittyIdList(input: string): bigint[] {
+  const kittyIds = input
+    .split(/[\s,]+/)
+    .filter((part) => part !== '')
+    .map((part) => safeParseBigInt(part));
+  if (kittyIds.length === 0) {
+    throw new Error('Enter at least one kitty ID');
+  }
+  return [...new Set(kittyIds)];
+}
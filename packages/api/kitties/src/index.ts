@@ -30,5 +30,8 @@ export * from './browser/config.js';
 export * from './common/types.js';
 export * from './node/api.js';
 export * from './common/utils.js';
+export * from './common/snapshot.js';
+export * from './common/activity.js';
+export * from './common/allowlist.js';
 export * from './node/logger-utils.js';
 export * from './node/utils.js';
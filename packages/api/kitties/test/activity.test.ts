@@ -0,0 +1,42 @@
+/**
+ * @file kitties.api.test.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatActivityEvent, type ActivityEvent } from '@repo/kitties-api';
+
+const owner = { bytes: new Uint8Array(32).fill(0xaa) };
+const account = { bytes: new Uint8Array(32).fill(0xbb) };
+
+function event(type: ActivityEvent['type'], from: ActivityEvent['from'], to: ActivityEvent['to']): ActivityEvent {
+  return { seq: 0n, type, kittyId: 3n, from, to, amount: 0n };
+}
+
+describe('formatActivityEvent', () => {
+  it('names the owner who approved siring and the account approved', () => {
+    expect(formatActivityEvent(event('siringApproved', owner, account))).toBe(
+      'Kitty #3 approved by aaaaaaaa… for siring with bbbbbbbb…',
+    );
+  });
+});
@@ -25,6 +25,7 @@
 
 import { type Resource } from '@midnight-ntwrk/wallet';
 import { type Wallet } from '@midnight-ntwrk/wallet-api';
+import { readFile, writeFile } from 'node:fs/promises';
 import { stdin as input, stdout as output } from 'node:process';
 import { createInterface, type Interface } from 'node:readline/promises';
 import { type Logger } from 'pino';
@@ -37,8 +38,17 @@ import {
   buildFreshWallet,
   configureProviders,
 } from '@repo/kitties-api/node-api';
-import { setLogger, KittiesAPI } from '@repo/kitties-api';
-import type { Offer } from '@midnight-ntwrk/kitties-contract';
+import {
+  setLogger,
+  KittiesAPI,
+  type AccessoryData,
+  type AccessorySlot,
+  type AccessorySlotName,
+  type AttestationFilter,
+  type OfferData,
+  type RentalData,
+} from '@repo/kitties-api';
+import { Gender } from '@midnight-ntwrk/kitties-contract';
 import {
   formatDNA,
   formatGenderEnum,
@@ -49,9 +59,42 @@ import {
   formatContractAddress,
   formatCount,
   safeParseBigInt,
+  formatOfferExpiry,
+  isOfferExpired,
+  isOpenOffer,
+  nowInSeconds,
+  formatBreedingCooldown,
+  isReadyToBreed,
+  getInbreedingError,
+  formatTraits,
+  formatAncestorTree,
+  formatDescendantTree,
+  formatAuctionKind,
+  formatAuctionTimeLeft,
+  isDutchAuction,
   contractConfig,
   safeParseAddressWithWallet,
   convertWalletPublicKeyToBytes,
+  parseAddress,
+  parseRoyaltyPercent,
+  formatRoyaltyRate,
+  formatKittyLabel,
+  parseKittyIdList,
+  BATCH_SIZE,
+  serializeSnapshot,
+  parseSnapshot,
+  formatActivityEvent,
+  GENE_SLOTS,
+  TRAIT_NAMES,
+  createAllowlist,
+  isAllowlistActive,
+  parseAllowlistCsv,
+  serializeAllowlist,
+  parseAllowlist,
+  encodeAllowlistCode,
+  decodeAllowlistCode,
+  ACCESSORY_SLOTS,
+  ACCESSORY_STYLES,
 } from '@repo/kitties-api';
 import { NodeZkConfigProvider } from '@midnight-ntwrk/midnight-js-node-zk-config-provider';
 
@@ -84,8 +127,25 @@ You can do one of the following:
   10. View contract stats
   11. View all offers for a kitty
   12. Approve offer
-  13. NFT Operations
-  14. Exit
+  13. Cancel my offer
+  14. Reject offer
+  15. Withdraw offer refunds
+  16. Grant sire permission
+  17. Revoke sire permission
+  18. View family tree
+  19. Private kitties
+  20. Auctions
+  21. NFT Operations
+  22. Burn a kitty
+  23. Name a kitty
+  24. Batch operations
+  25. View recent activity
+  26. Gifts
+  27. Rentals
+  28. Admin
+  29. Accessories
+  30. Negotiate offers
+  31. Exit
 Which would you like to do? `;
 
 const join = async (providers: KittiesProviders, rli: Interface): Promise<KittiesAPI | null> => {
@@ -99,8 +159,9 @@ const join = async (providers: KittiesProviders, rli: Interface): Promise<Kittie
 };
 
 // Kitty operations
-const createKitty = async (kittiesApi: KittiesAPI): Promise<void> => {
+const createKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
+    await ensureAllowlistEntry(kittiesApi, rli);
     logger.info('Creating a new kitty...');
     await kittiesApi.createKitty();
     logger.info('✅ Kitty created successfully!');
@@ -109,6 +170,25 @@ const createKitty = async (kittiesApi: KittiesAPI): Promise<void> => {
   }
 };
 
+// While minting is limited to an allowlist, asks for the published list and loads this wallet's entry
+const ensureAllowlistEntry = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  const { active, limit, minted } = await kittiesApi.getAllowlistStatus();
+  if (!active) {
+    return;
+  }
+  if (limit > 0n && minted < limit) {
+    logger.info(`Allowlist entry: ${formatCount(limit - minted)} of ${formatCount(limit)} mints left`);
+    return;
+  }
+
+  logger.info('Minting is limited to an allowlist.');
+  const filePath = (await rli.question('Enter the allowlist file published by the admin: ')).trim();
+  const allowlist = parseAllowlist(await readFile(filePath, 'utf-8'));
+  const code = (await rli.question('Enter your allowlist code (empty to use your wallet key): ')).trim();
+  const ticket = await kittiesApi.useAllowlist({ allowlist, secret: code ? decodeAllowlistCode(code) : undefined });
+  logger.info(`✅ Allowlist entry found, it can mint ${formatCount(ticket.limit)} kitties`);
+};
+
 const viewMyKitties = async (kittiesApi: KittiesAPI, providers: KittiesProviders): Promise<void> => {
   try {
     logger.info('Fetching your kitties...');
@@ -126,12 +206,19 @@ const viewMyKitties = async (kittiesApi: KittiesAPI, providers: KittiesProviders
 
     logger.info(`\n=== Your Kitties (${kitties.length}) ===`);
     for (const kitty of kitties) {
-      logger.info(`Kitty #${kitty.id}:`);
+      logger.info(`${formatKittyLabel(kitty)}:`);
       logger.info(`  DNA: ${formatDNA(kitty.dna)}`);
       logger.info(`  Gender: ${formatGenderEnum(kitty.gender)}`);
       logger.info(`  Generation: ${formatGeneration(kitty.generation)}`);
+      logger.info(`  Breeding Cooldown: ${formatBreedingCooldown(kitty.cooldownEnd)}`);
       logger.info(`  Price: ${formatPrice(kitty.price)}`);
       logger.info(`  For Sale: ${formatForSale(kitty.forSale)}`);
+      if (kitty.shielded) {
+        logger.info('  Private: Yes');
+      }
+      if (kitty.accessories.length > 0) {
+        logger.info(`  Wearing: ${formatAccessories(kitty.accessories)}`);
+      }
       logger.info('');
     }
   } catch (error) {
@@ -152,11 +239,14 @@ const viewKittiesForSale = async (kittiesApi: KittiesAPI): Promise<void> => {
     logger.info(`\n=== Kitties for Sale (${forSaleKitties.length}) ===`);
     for (const listing of forSaleKitties) {
       const kitty = listing.kitty;
-      logger.info(`Kitty #${kitty.id}:`);
+      logger.info(`${formatKittyLabel(kitty)}:`);
       logger.info(`  DNA: ${formatDNA(kitty.dna)}`);
       logger.info(`  Gender: ${formatGenderEnum(kitty.gender)}`);
       logger.info(`  Generation: ${formatGeneration(kitty.generation)}`);
-      logger.info(`  Price: ${formatPrice(kitty.price)}`);
+      logger.info(`  Price: ${kitty.forSale ? formatPrice(kitty.price) : 'Only sold in its bundle'}`);
+      if (listing.bundleId !== null) {
+        logger.info(`  Bundle: #${listing.bundleId}`);
+      }
       logger.info(`  Owner: ${formatAddress(kitty.owner.bytes)}`);
       logger.info('');
     }
@@ -200,6 +290,45 @@ const transferKittyFrom = async (kittiesApi: KittiesAPI, rli: Interface): Promis
   }
 };
 
+const nameKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to name: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const kitty = await kittiesApi.getKitty(kittyId);
+    const name = await rli.question(`Enter a name, up to 32 bytes (current: "${kitty.name}", empty to clear): `);
+    const uriStr = await rli.question(
+      `Enter a metadata URI (current: "${kitty.metadataUri}", Enter to keep, "-" to clear): `,
+    );
+    const uri = uriStr.trim() === '' ? undefined : uriStr.trim() === '-' ? '' : uriStr;
+
+    logger.info(`Updating kitty #${kittyId}...`);
+    await kittiesApi.setKittyMetadata({ kittyId, name, uri });
+    logger.info(name.trim() ? `✅ Kitty #${kittyId} is now called "${name.trim()}"!` : '✅ Kitty name cleared.');
+  } catch (error) {
+    logger.error(`Failed to name kitty: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const burnKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to burn: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const confirm = await rli.question(`Kitty #${kittyId} will be gone for good. Continue? (y/n): `);
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Cancelled.');
+      return;
+    }
+
+    logger.info(`Burning kitty #${kittyId}...`);
+    await kittiesApi.burnKitty({ kittyId });
+    logger.info('✅ Kitty burned. Buyers with open offers can withdraw their refunds.');
+  } catch (error) {
+    logger.error(`Failed to burn kitty: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
 const setKittyPrice = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
     const kittyIdStr = await rli.question('Enter the kitty ID to set price for: ');
@@ -224,8 +353,14 @@ const createBuyOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<v
     const bidPriceStr = await rli.question('Enter your bid price: ');
     const bidPrice = safeParseBigInt(bidPriceStr);
 
+    const expiryHoursStr = await rli.question('Offer valid for how many hours? (0 for no expiry): ');
+    const expiryHours = safeParseBigInt(expiryHoursStr || '0');
+    const expiresAt = expiryHours > 0n ? nowInSeconds() + expiryHours * 3600n : 0n;
+
     logger.info(`Creating buy offer for kitty #${kittyId} with bid price ${formatPrice(bidPrice)}...`);
-    await kittiesApi.createBuyOffer({ kittyId, bidPrice });
+    logger.info(`${formatPrice(bidPrice)} tokens will be held in escrow until the offer is approved or refunded.`);
+    logger.info(`Offer expires: ${formatOfferExpiry(expiresAt)}`);
+    await kittiesApi.createBuyOffer({ kittyId, bidPrice, expiresAt });
     logger.info('✅ Buy offer created successfully!');
   } catch (error) {
     logger.error(`Failed to create buy offer: ${error instanceof Error ? error.message : String(error)}`);
@@ -240,6 +375,26 @@ const breedKitties = async (kittiesApi: KittiesAPI, rli: Interface): Promise<voi
     const kittyId2Str = await rli.question('Enter the second kitty ID: ');
     const kittyId2 = safeParseBigInt(kittyId2Str);
 
+    // Both parents must have recovered from their last breeding
+    const parents = [await kittiesApi.getKitty(kittyId1), await kittiesApi.getKitty(kittyId2)];
+    const coolingDown = parents.filter((kitty) => !isReadyToBreed(kitty.cooldownEnd));
+    if (coolingDown.length > 0) {
+      for (const kitty of coolingDown) {
+        logger.info(
+          `Kitty #${kitty.id} is cooling down, it can breed again in ${formatBreedingCooldown(kitty.cooldownEnd)}`,
+        );
+      }
+      logger.info('❌ Breeding cancelled - wait for the cooldown to finish.');
+      return;
+    }
+
+    // Parents can't be closely related
+    const inbreedingError = getInbreedingError(parents[0], parents[1]);
+    if (inbreedingError) {
+      logger.info(`❌ Breeding cancelled - ${inbreedingError}.`);
+      return;
+    }
+
     logger.info(`Breeding kitties #${kittyId1} and #${kittyId2}...`);
     await kittiesApi.breedKitty({ kittyId1, kittyId2 });
     logger.info('✅ Kitties bred successfully!');
@@ -248,6 +403,41 @@ const breedKitties = async (kittiesApi: KittiesAPI, rli: Interface): Promise<voi
   }
 };
 
+const approveSiring = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to offer for breeding: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const toAddressStr = await rli.question('Enter the address allowed to breed with it: ');
+    const toAddress = safeParseAddressWithWallet(toAddressStr);
+
+    logger.info(`Allowing ${formatAddress(toAddress)} to breed with kitty #${kittyId}...`);
+    await kittiesApi.approveSiring({ kittyId, to: { bytes: toAddress } });
+    logger.info('✅ Sire permission granted! It is used up by one breeding or cleared on transfer.');
+  } catch (error) {
+    logger.error(`Failed to grant sire permission: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const revokeSiring = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to revoke sire permission for: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const approved = await kittiesApi.getSiringApproval(kittyId);
+    if (!approved) {
+      logger.info(`Kitty #${kittyId} has no sire permission to revoke.`);
+      return;
+    }
+
+    logger.info(`Revoking sire permission of ${formatAddress(approved.bytes)} for kitty #${kittyId}...`);
+    await kittiesApi.revokeSiring({ kittyId });
+    logger.info('✅ Sire permission revoked!');
+  } catch (error) {
+    logger.error(`Failed to revoke sire permission: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
 const viewKittyDetails = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
     const kittyIdStr = await rli.question('Enter the kitty ID to view: ');
@@ -256,27 +446,96 @@ const viewKittyDetails = async (kittiesApi: KittiesAPI, rli: Interface): Promise
     logger.info(`Fetching details for kitty #${kittyId}...`);
     const kitty = await kittiesApi.getKitty(kittyId);
 
-    logger.info(`\n=== Kitty #${kitty.id} Details ===`);
+    logger.info(`\n=== ${formatKittyLabel(kitty)} Details ===`);
+    if (kitty.metadataUri) {
+      logger.info(`Metadata: ${kitty.metadataUri}`);
+    }
     logger.info(`DNA: ${formatDNA(kitty.dna)}`);
     logger.info(`Gender: ${formatGenderEnum(kitty.gender)}`);
     logger.info(`Generation: ${formatGeneration(kitty.generation)}`);
+    logger.info(`Breeding Cooldown: ${formatBreedingCooldown(kitty.cooldownEnd)}`);
+    logger.info(
+      `Parents: ${kitty.matronId === 0n ? 'None (generation 0)' : `Matron #${kitty.matronId}, Sire #${kitty.sireId}`}`,
+    );
+    logger.info(`Born: ${new Date(Number(kitty.birthTime) * 1000).toLocaleString()}`);
     logger.info(`Price: ${formatPrice(kitty.price)}`);
     logger.info(`For Sale: ${formatForSale(kitty.forSale)}`);
-    logger.info(`Owner: ${formatAddress(kitty.owner.bytes)}`);
+    logger.info(`Owner: ${kitty.shielded ? 'Private' : formatAddress(kitty.owner.bytes)}`);
+    logger.info(
+      `Creator: ${kitty.creator.bytes.every((byte) => byte === 0) ? 'None (born shielded)' : formatAddress(kitty.creator.bytes)}`,
+    );
+    logger.info(`Wearing: ${kitty.accessories.length > 0 ? formatAccessories(kitty.accessories) : 'Nothing'}`);
+    logger.info('Traits:');
+    for (const trait of formatTraits(kitty.dna)) {
+      logger.info(`  ${trait}`);
+    }
   } catch (error) {
     logger.error(`Failed to fetch kitty details: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
+const viewFamilyTree = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+    const depthStr = await rli.question('How many generations to show (default 3)? ');
+    const depth = depthStr.trim() === '' ? 3 : Number(safeParseBigInt(depthStr));
+
+    const lineage = await kittiesApi.getLineage(kittyId, depth);
+
+    logger.info(`\n=== Ancestors of Kitty #${kittyId} ===`);
+    for (const line of formatAncestorTree(lineage.ancestors)) {
+      logger.info(line);
+    }
+    logger.info(`\n=== Descendants of Kitty #${kittyId} ===`);
+    for (const line of formatDescendantTree(lineage.descendants)) {
+      logger.info(line);
+    }
+  } catch (error) {
+    logger.error(`Failed to fetch family tree: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const viewActivity = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter a kitty ID, or leave empty for all kitties: ');
+    const kittyId = kittyIdStr.trim() === '' ? undefined : safeParseBigInt(kittyIdStr);
+
+    const events = await kittiesApi.getActivity({ kittyId });
+    const recent = events.slice(-20);
+
+    logger.info(`\n=== Recent Activity${kittyId === undefined ? '' : ` of Kitty #${kittyId}`} ===`);
+    if (recent.length === 0) {
+      logger.info('No activity found.');
+      return;
+    }
+    for (const event of recent) {
+      logger.info(`#${event.seq} ${formatActivityEvent(event)}`);
+    }
+    if (events.length > recent.length) {
+      logger.info(`(${events.length - recent.length} older entries not shown)`);
+    }
+  } catch (error) {
+    logger.error(`Failed to fetch activity: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
 const viewContractStats = async (kittiesApi: KittiesAPI): Promise<void> => {
   try {
     logger.info('Fetching contract statistics...');
     const totalKitties = await kittiesApi.getAllKittiesCount();
+    const liveSupply = await kittiesApi.getLiveSupply();
+    const royaltyRate = await kittiesApi.getRoyaltyRate();
+    const adminInfo = await kittiesApi.getAdminInfo();
     const contractAddress = kittiesApi.deployedContractAddress;
 
     logger.info(`\n=== Contract Statistics ===`);
     logger.info(`Contract Address: ${formatContractAddress(contractAddress)}`);
     logger.info(`Total Kitties: ${formatCount(totalKitties)}`);
+    logger.info(`Live Supply: ${formatCount(liveSupply)}`);
+    logger.info(`Creator Royalty: ${formatRoyaltyRate(royaltyRate)}`);
+    logger.info(`Mint Fee: ${formatPrice(adminInfo.mintPolicy.mintFee)}`);
+    logger.info(`Status: ${adminInfo.paused ? 'Paused' : 'Active'}`);
   } catch (error) {
     logger.error(`Failed to fetch contract stats: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -289,7 +548,14 @@ const deployOrJoin = async (providers: KittiesProviders, rli: Interface): Promis
     switch (choice) {
       case '1':
         try {
-          return await KittiesAPI.deploy(providers, { value: 0 });
+          // Creators earn this share of every later sale of their kitties, fixed for the contract's lifetime
+          const royaltyStr = await rli.question('Creator royalty in percent (default 0): ');
+          const royaltyRate = royaltyStr.trim() === '' ? 0n : parseRoyaltyPercent(royaltyStr);
+          return await KittiesAPI.deploy(
+            providers,
+            await KittiesAPI.getOrCreateInitialPrivateState(providers.privateStateProvider),
+            { royaltyRate },
+          );
         } catch (error) {
           logger.error(`Failed to deploy: ${error instanceof Error ? error.message : String(error)}`);
           return null;
@@ -323,7 +589,7 @@ const mainLoop = async (providers: KittiesProviders, rli: Interface): Promise<vo
     const choice = await rli.question(MAIN_LOOP_QUESTION);
     switch (choice) {
       case '1':
-        await createKitty(kittiesApi);
+        await createKitty(kittiesApi, rli);
         break;
       case '2':
         await viewMyKitties(kittiesApi, providers);
@@ -359,9 +625,60 @@ const mainLoop = async (providers: KittiesProviders, rli: Interface): Promise<vo
         await approveOffer(kittiesApi, rli);
         break;
       case '13':
-        await nftOperations(kittiesApi, rli);
+        await cancelOffer(kittiesApi, rli);
         break;
       case '14':
+        await rejectOffer(kittiesApi, rli);
+        break;
+      case '15':
+        await withdrawRefunds(kittiesApi, providers, rli);
+        break;
+      case '16':
+        await approveSiring(kittiesApi, rli);
+        break;
+      case '17':
+        await revokeSiring(kittiesApi, rli);
+        break;
+      case '18':
+        await viewFamilyTree(kittiesApi, rli);
+        break;
+      case '19':
+        await privateKitties(kittiesApi, rli);
+        break;
+      case '20':
+        await auctionOperations(kittiesApi, rli);
+        break;
+      case '21':
+        await nftOperations(kittiesApi, rli);
+        break;
+      case '22':
+        await burnKitty(kittiesApi, rli);
+        break;
+      case '23':
+        await nameKitty(kittiesApi, rli);
+        break;
+      case '24':
+        await batchOperations(kittiesApi, rli);
+        break;
+      case '25':
+        await viewActivity(kittiesApi, rli);
+        break;
+      case '26':
+        await giftOperations(kittiesApi, providers, rli);
+        break;
+      case '27':
+        await rentalOperations(kittiesApi, providers, rli);
+        break;
+      case '28':
+        await adminOperations(kittiesApi, rli);
+        break;
+      case '29':
+        await accessoryOperations(kittiesApi, providers, rli);
+        break;
+      case '30':
+        await negotiationOperations(kittiesApi, rli);
+        break;
+      case '31':
         logger.info('Exiting...');
         return;
       default:
@@ -427,41 +744,45 @@ const mapContainerPort = (env: StartedDockerComposeEnvironment, url: string, con
   return mappedUrl.toString().replace(/\/+$/, '');
 };
 
-// NFT Operations
-const NFT_OPERATIONS_QUESTION = `
-NFT Operations:
-  1. Check balance of an address
-  2. Check owner of a token
-  3. Approve address for a token
-  4. Check approved address for a token
-  5. Set approval for all tokens
-  6. Check if address is approved for all
-  7. Back to main menu
+// Private kitties
+const PRIVATE_KITTIES_QUESTION = `
+Private kitties:
+  1. Create a new private kitty
+  2. Breed kitties into a private kitty
+  3. Make one of my kitties private
+  4. Transfer a private kitty
+  5. Show my private owner key
+  6. Prove I own a matching private kitty
+  7. Verify an ownership proof
+  8. Back to main menu
 Which would you like to do? `;
 
-const nftOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const privateKitties = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   while (true) {
-    const choice = await rli.question(NFT_OPERATIONS_QUESTION);
+    const choice = await rli.question(PRIVATE_KITTIES_QUESTION);
     switch (choice) {
       case '1':
-        await checkBalance(kittiesApi, rli);
+        await createShieldedKitty(kittiesApi, rli);
         break;
       case '2':
-        await checkOwner(kittiesApi, rli);
+        await breedShieldedKitty(kittiesApi, rli);
         break;
       case '3':
-        await approveToken(kittiesApi, rli);
+        await shieldKitty(kittiesApi, rli);
         break;
       case '4':
-        await checkApproved(kittiesApi, rli);
+        await transferShieldedKitty(kittiesApi, rli);
         break;
       case '5':
-        await setApprovalForAll(kittiesApi, rli);
+        await showShieldedOwnerKey(kittiesApi);
         break;
       case '6':
-        await checkApprovedForAll(kittiesApi, rli);
+        await attestOwnership(kittiesApi, rli);
         break;
       case '7':
+        await verifyAttestation(kittiesApi, rli);
+        break;
+      case '8':
         logger.info('Returning to main menu...');
         return;
       default:
@@ -470,173 +791,1449 @@ const nftOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<vo
   }
 };
 
-const checkBalance = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const createShieldedKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
-    const addressStr = await rli.question('Enter the address to check balance for: ');
-    const address = safeParseAddressWithWallet(addressStr);
-
-    const balance = await kittiesApi.balanceOf({ bytes: address });
-    logger.info(`Address ${address} has ${formatCount(balance)} kitties`);
+    await ensureAllowlistEntry(kittiesApi, rli);
+    logger.info('Creating a new private kitty...');
+    await kittiesApi.createShieldedKitty();
+    logger.info('✅ Private kitty created successfully!');
   } catch (error) {
-    logger.error(`Failed to check balance: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`Failed to create private kitty: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-const checkOwner = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const breedShieldedKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
-    const tokenIdStr = await rli.question('Enter the token ID to check owner for: ');
-    const tokenId = safeParseBigInt(tokenIdStr);
+    const kittyId1Str = await rli.question('Enter the first kitty ID: ');
+    const kittyId1 = safeParseBigInt(kittyId1Str);
 
-    const owner = await kittiesApi.ownerOf(tokenId);
-    logger.info(`Token ${tokenId} is owned by: ${formatAddress(owner.bytes)}`);
+    const kittyId2Str = await rli.question('Enter the second kitty ID: ');
+    const kittyId2 = safeParseBigInt(kittyId2Str);
+
+    logger.info(`Breeding kitties #${kittyId1} and #${kittyId2} into a private kitty...`);
+    await kittiesApi.breedShieldedKitty({ kittyId1, kittyId2 });
+    logger.info('✅ Kitties bred successfully! The offspring is private.');
   } catch (error) {
-    logger.error(`Failed to check owner: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`Failed to breed kitties: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-const approveToken = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const shieldKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
-    const toAddressStr = await rli.question('Enter the address to approve: ');
-    const toAddress = safeParseAddressWithWallet(toAddressStr);
+    const kittyIdStr = await rli.question('Enter the kitty ID to make private: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
 
-    const tokenIdStr = await rli.question('Enter the token ID to approve: ');
-    const tokenId = safeParseBigInt(tokenIdStr);
+    const confirm = await rli.question(`Kitty #${kittyId} can't be made public again. Continue? (y/n): `);
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Cancelled.');
+      return;
+    }
 
-    logger.info(`Approving ${formatAddress(toAddress)} for token ${tokenId}...`);
-    await kittiesApi.approve({ to: { bytes: toAddress }, tokenId });
-    logger.info('✅ Token approved successfully!');
+    logger.info(`Making kitty #${kittyId} private...`);
+    await kittiesApi.shieldKitty({ kittyId });
+    logger.info('✅ Kitty is now private!');
   } catch (error) {
-    logger.error(`Failed to approve token: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`Failed to make kitty private: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-const checkApproved = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const transferShieldedKitty = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
-    const tokenIdStr = await rli.question('Enter the token ID to check approved address for: ');
-    const tokenId = safeParseBigInt(tokenIdStr);
+    const kittyIdStr = await rli.question('Enter the private kitty ID to transfer: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
 
-    const approved = await kittiesApi.getApproved(tokenId);
-    logger.info(`Token ${tokenId} is approved for: ${formatAddress(approved.bytes)}`);
+    const ownerKeyStr = await rli.question("Enter the recipient's private owner key (hex): ");
+    const toOwnerKey = parseAddress(ownerKeyStr.trim());
+    if (toOwnerKey.length !== 32) {
+      throw new Error('Owner key must be 32 bytes');
+    }
+
+    logger.info(`Transferring private kitty #${kittyId} to owner key ${formatAddress(toOwnerKey)}...`);
+    await kittiesApi.transferShieldedKitty({ kittyId, toOwnerKey });
+    logger.info('✅ Private kitty transferred successfully!');
   } catch (error) {
-    logger.error(`Failed to check approved address: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`Failed to transfer private kitty: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-const setApprovalForAll = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const showShieldedOwnerKey = async (kittiesApi: KittiesAPI): Promise<void> => {
   try {
-    const operatorAddressStr = await rli.question('Enter the operator address: ');
-    const operatorAddress = safeParseAddressWithWallet(operatorAddressStr);
-
-    const approvedStr = await rli.question('Approve? (y/n): ');
-    const approved = approvedStr.toLowerCase() === 'y' || approvedStr.toLowerCase() === 'yes';
-
-    logger.info(
-      `Setting approval for all tokens - operator: ${formatAddress(operatorAddress)}, approved: ${approved}...`,
-    );
-    await kittiesApi.setApprovalForAll({ operator: { bytes: operatorAddress }, approved });
-    logger.info('✅ Approval for all tokens set successfully!');
+    const ownerKey = await kittiesApi.getShieldedOwnerKey();
+    logger.info(`Your private owner key: ${formatAddress(ownerKey)}`);
+    logger.info('Share it with anyone who wants to send you a private kitty.');
   } catch (error) {
-    logger.error(`Failed to set approval for all: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`Failed to read owner key: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-const checkApprovedForAll = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
-  try {
-    const ownerAddressStr = await rli.question('Enter the owner address: ');
-    const ownerAddress = safeParseAddressWithWallet(ownerAddressStr);
-
-    const operatorAddressStr = await rli.question('Enter the operator address: ');
-    const operatorAddress = safeParseAddressWithWallet(operatorAddressStr);
-
-    const isApproved = await kittiesApi.isApprovedForAll({ bytes: ownerAddress }, { bytes: operatorAddress });
-    logger.info(
-      `Operator ${formatAddress(operatorAddress)} is ${isApproved ? 'approved' : 'not approved'} for all tokens of ${formatAddress(ownerAddress)}`,
-    );
-  } catch (error) {
-    logger.error(`Failed to check approval for all: ${error instanceof Error ? error.message : String(error)}`);
+const parseChallenge = (input: string): Uint8Array => {
+  const challenge = parseAddress(input.trim());
+  if (challenge.length !== 32) {
+    throw new Error('Challenge must be 32 bytes');
   }
+  return challenge;
 };
 
-const viewOffers = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
-  try {
-    const kittyIdStr = await rli.question('Enter the kitty ID to view offers for: ');
-    const kittyId = safeParseBigInt(kittyIdStr);
-
-    // First check if the kitty exists
-    try {
-      await kittiesApi.getKitty(kittyId);
-    } catch {
-      logger.error(`Kitty #${kittyId} does not exist or cannot be accessed`);
-      return;
-    }
+// Empty answers leave that part of the filter out
+const askAttestationFilter = async (rli: Interface): Promise<AttestationFilter> => {
+  const filter: AttestationFilter = {};
 
-    logger.info(`Fetching all offers for kitty #${kittyId}...`);
+  const maxGenerationStr = await rli.question('Maximum generation (empty for any): ');
+  if (maxGenerationStr.trim() !== '') {
+    filter.maxGeneration = safeParseBigInt(maxGenerationStr);
+  }
 
-    // @ts-ignore - Method exists but may not be in current type definitions
-    const offers: Offer[] = await kittiesApi.getOffersForKitty(kittyId);
+  const genderStr = (await rli.question('Gender, male or female (empty for any): ')).trim().toLowerCase();
+  if (genderStr === 'male' || genderStr === 'm') {
+    filter.gender = Gender.Male;
+  } else if (genderStr === 'female' || genderStr === 'f') {
+    filter.gender = Gender.Female;
+  } else if (genderStr !== '') {
+    throw new Error(`Unknown gender: ${genderStr}`);
+  }
 
-    if (!offers || offers.length === 0) {
-      logger.info(`No offers found for kitty #${kittyId}`);
-      return;
+  const slotStr = (await rli.question(`Trait slot, one of ${GENE_SLOTS.join(', ')} (empty for any): `)).trim();
+  if (slotStr !== '') {
+    const slot = GENE_SLOTS.find((name) => name.toLowerCase() === slotStr.toLowerCase());
+    if (!slot) {
+      throw new Error(`Unknown trait slot: ${slotStr}`);
+    }
+    const traitStr = (await rli.question(`Trait, one of ${TRAIT_NAMES[slot].join(', ')}: `)).trim().toLowerCase();
+    const trait = TRAIT_NAMES[slot].findIndex((name) => name.toLowerCase() === traitStr);
+    if (trait < 0) {
+      throw new Error(`Unknown ${slot} trait: ${traitStr}`);
     }
+    filter.trait = { slot, trait };
+  }
 
-    logger.info(`\n=== ${offers.length} Offer(s) Found for Kitty #${kittyId} ===`);
-    offers.forEach((offer: Offer, index: number) => {
-      logger.info(`\n--- Offer ${index + 1} ---`);
-      logger.info(`Kitty ID: ${offer.kittyId}`);
-      logger.info(`Buyer: ${formatAddress(offer.buyer.bytes)}`);
-      logger.info(`Price: ${formatPrice(offer.price)}`);
-    });
+  return filter;
+};
+
+const attestOwnership = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const challengeStr = await rli.question("Enter the verifier's challenge (hex): ");
+    const challenge = parseChallenge(challengeStr);
+    const filter = await askAttestationFilter(rli);
+
+    logger.info('Proving ownership of a matching private kitty...');
+    const attestation = await kittiesApi.attestOwnership({ filter, challenge });
+    logger.info('✅ Ownership attested! The kitty stays private.');
+    logger.info(`Attestation ID: ${formatAddress(attestation.id)}`);
+    logger.info(`Presenter secret: ${formatAddress(attestation.presenterSecret)}`);
+    logger.info('Share the attestation ID and presenter secret with the verifier only.');
   } catch (error) {
-    logger.error(`Failed to fetch offers: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error(`Failed to attest ownership: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
-const approveOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+const verifyAttestation = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
   try {
-    const kittyIdStr = await rli.question('Enter the kitty ID to approve offer for: ');
-    const kittyId = safeParseBigInt(kittyIdStr);
-
-    // First check if the kitty exists
-    try {
-      await kittiesApi.getKitty(kittyId);
-    } catch {
-      logger.error(`Kitty #${kittyId} does not exist or cannot be accessed`);
-      return;
-    }
-
-    logger.info(`Fetching offers for kitty #${kittyId}...`);
-
-    // @ts-ignore - Method exists but may not be in current type definitions
-    const offers: Offer[] = await kittiesApi.getOffersForKitty(kittyId);
-
-    if (!offers || offers.length === 0) {
-      logger.info(`No offers found for kitty #${kittyId}`);
-      return;
+    const attestationIdStr = await rli.question('Enter the attestation ID (hex): ');
+    const attestationId = parseAddress(attestationIdStr.trim());
+    const presenterSecretStr = await rli.question('Enter the presenter secret you were given (hex): ');
+    const presenterSecret = parseAddress(presenterSecretStr.trim());
+    const challengeStr = await rli.question('Enter the challenge you issued (hex): ');
+    const challenge = parseChallenge(challengeStr);
+    const filter = await askAttestationFilter(rli);
+
+    const valid = await kittiesApi.verifyAttestation({ attestationId, presenterSecret, challenge, filter });
+    if (valid) {
+      logger.info('✅ The attestation proves ownership of a matching kitty.');
+    } else {
+      logger.info('❌ The attestation does not prove ownership of a matching kitty.');
     }
+  } catch (error) {
+    logger.error(`Failed to verify attestation: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
 
-    // Display all offers
-    logger.info(`\n=== ${offers.length} Offer(s) Found for Kitty #${kittyId} ===`);
-    offers.forEach((offer: Offer, index: number) => {
-      logger.info(`\n--- Offer ${index + 1} ---`);
-      logger.info(`Buyer: ${formatAddress(offer.buyer.bytes)}`);
-      logger.info(`Price: ${formatPrice(offer.price)}`);
-    });
+// Auctions
+const AUCTIONS_QUESTION = `
+Auctions:
+  1. View running auctions
+  2. Start an English auction
+  3. Start a Dutch auction
+  4. Bid in an English auction
+  5. Buy from a Dutch auction
+  6. Settle an ended English auction
+  7. Cancel my auction
+  8. Sealed-bid auctions
+  9. Back to main menu
+Which would you like to do? `;
 
-    if (offers.length === 1) {
-      // If only one offer, ask for confirmation
-      const confirm = await rli.question(
-        `\nApprove the offer from ${formatAddress(offers[0].buyer.bytes)} for ${formatPrice(offers[0].price)}? (y/n): `,
-      );
-      if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+const auctionOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(AUCTIONS_QUESTION);
+    switch (choice) {
+      case '1':
+        await viewAuctions(kittiesApi);
+        break;
+      case '2':
+        await createEnglishAuction(kittiesApi, rli);
+        break;
+      case '3':
+        await createDutchAuction(kittiesApi, rli);
+        break;
+      case '4':
+        await bidOnAuction(kittiesApi, rli);
+        break;
+      case '5':
+        await buyDutchAuction(kittiesApi, rli);
+        break;
+      case '6':
+        await settleAuction(kittiesApi, rli);
+        break;
+      case '7':
+        await cancelAuction(kittiesApi, rli);
+        break;
+      case '8':
+        await sealedAuctionOperations(kittiesApi, rli);
+        break;
+      case '9':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const viewAuctions = async (kittiesApi: KittiesAPI): Promise<void> => {
+  try {
+    logger.info('Fetching running auctions...');
+    const auctions = await kittiesApi.getAuctions();
+
+    if (auctions.length === 0) {
+      logger.info('No kitties are on auction.');
+      return;
+    }
+
+    logger.info(`\n=== Auctions (${auctions.length}) ===`);
+    for (const auction of auctions) {
+      logger.info(`Kitty #${auction.kittyId} (${formatAuctionKind(auction)}):`);
+      logger.info(`  Seller: ${formatAddress(auction.seller.bytes)}`);
+      if (isDutchAuction(auction)) {
+        logger.info(`  Price now: ${formatPrice(auction.currentPrice)}`);
+        logger.info(`  Falls from ${formatPrice(auction.startPrice)} to ${formatPrice(auction.endPrice)}`);
+        logger.info(`  Reaches end price in: ${formatAuctionTimeLeft(auction.endTime)}`);
+      } else {
+        logger.info(`  Highest bid: ${auction.highestBid > 0n ? formatPrice(auction.highestBid) : 'None'}`);
+        if (auction.highestBid > 0n) {
+          logger.info(`  Highest bidder: ${formatAddress(auction.highestBidder.bytes)}`);
+        }
+        logger.info(`  Minimum next bid: ${formatPrice(auction.currentPrice)}`);
+        logger.info(`  Time left: ${formatAuctionTimeLeft(auction.endTime)}`);
+      }
+      logger.info('');
+    }
+  } catch (error) {
+    logger.error(`Failed to fetch auctions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const createEnglishAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to auction: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const reservePriceStr = await rli.question('Enter the reserve price: ');
+    const reservePrice = safeParseBigInt(reservePriceStr);
+
+    const minIncrementStr = await rli.question('Enter the minimum bid increment: ');
+    const minIncrement = safeParseBigInt(minIncrementStr);
+
+    const hoursStr = await rli.question('Enter how many hours bidding stays open: ');
+    const endTime = nowInSeconds() + safeParseBigInt(hoursStr) * 3600n;
+
+    logger.info(`Starting an English auction for kitty #${kittyId}...`);
+    await kittiesApi.createEnglishAuction({ kittyId, reservePrice, minIncrement, endTime });
+    logger.info('✅ English auction started! Anyone can settle it once bidding closes.');
+  } catch (error) {
+    logger.error(`Failed to start auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const createDutchAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to auction: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const startPriceStr = await rli.question('Enter the start price: ');
+    const startPrice = safeParseBigInt(startPriceStr);
+
+    const endPriceStr = await rli.question('Enter the end price: ');
+    const endPrice = safeParseBigInt(endPriceStr);
+
+    const hoursStr = await rli.question('Enter how many hours the price takes to fall: ');
+    const duration = safeParseBigInt(hoursStr) * 3600n;
+
+    logger.info(`Starting a Dutch auction for kitty #${kittyId}...`);
+    await kittiesApi.createDutchAuction({ kittyId, startPrice, endPrice, duration });
+    logger.info('✅ Dutch auction started!');
+  } catch (error) {
+    logger.error(`Failed to start auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const bidOnAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to bid on: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const auction = await kittiesApi.getAuction(kittyId);
+    if (!auction || isDutchAuction(auction)) {
+      logger.error(`Kitty #${kittyId} is not in an English auction`);
+      return;
+    }
+    logger.info(
+      `Minimum bid: ${formatPrice(auction.currentPrice)}, time left: ${formatAuctionTimeLeft(auction.endTime)}`,
+    );
+
+    const bidPriceStr = await rli.question('Enter your bid: ');
+    const bidPrice = safeParseBigInt(bidPriceStr);
+
+    logger.info(`Bidding ${bidPrice} on kitty #${kittyId}...`);
+    await kittiesApi.bidOnAuction({ kittyId, bidPrice });
+    logger.info('✅ Bid placed! Your tokens are returned if someone outbids you.');
+  } catch (error) {
+    logger.error(`Failed to place bid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const buyDutchAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to buy: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const auction = await kittiesApi.getAuction(kittyId);
+    if (!auction || !isDutchAuction(auction)) {
+      logger.error(`Kitty #${kittyId} is not in a Dutch auction`);
+      return;
+    }
+
+    const confirm = await rli.question(`The price is now ${formatPrice(auction.currentPrice)}. Buy? (y/n): `);
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Purchase cancelled.');
+      return;
+    }
+
+    logger.info(`Buying kitty #${kittyId}...`);
+    await kittiesApi.buyDutchAuction({ kittyId });
+    logger.info('✅ Kitty bought successfully!');
+  } catch (error) {
+    logger.error(`Failed to buy kitty: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const settleAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of the auction to settle: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Settling the auction of kitty #${kittyId}...`);
+    await kittiesApi.settleAuction({ kittyId });
+    logger.info('✅ Auction settled!');
+  } catch (error) {
+    logger.error(`Failed to settle auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const cancelAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of your auction: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Cancelling the auction of kitty #${kittyId}...`);
+    await kittiesApi.cancelAuction({ kittyId });
+    logger.info('✅ Auction cancelled, the kitty is back in your collection.');
+  } catch (error) {
+    logger.error(`Failed to cancel auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Sealed-bid auctions
+const SEALED_AUCTIONS_QUESTION = `
+Sealed-bid auctions:
+  1. View running sealed-bid auctions
+  2. Start a sealed-bid auction
+  3. Place a sealed bid
+  4. Reveal my sealed bid
+  5. Settle an ended sealed-bid auction
+  6. Cancel my sealed-bid auction
+  7. Withdraw my sealed bid deposit
+  8. View my sealed bids
+  9. Claim forfeited deposits from my auctions
+  10. Back to auctions
+Which would you like to do? `;
+
+const sealedAuctionOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(SEALED_AUCTIONS_QUESTION);
+    switch (choice) {
+      case '1':
+        await viewSealedAuctions(kittiesApi);
+        break;
+      case '2':
+        await createSealedAuction(kittiesApi, rli);
+        break;
+      case '3':
+        await commitSealedBid(kittiesApi, rli);
+        break;
+      case '4':
+        await revealSealedBid(kittiesApi, rli);
+        break;
+      case '5':
+        await settleSealedAuction(kittiesApi, rli);
+        break;
+      case '6':
+        await cancelSealedAuction(kittiesApi, rli);
+        break;
+      case '7':
+        await withdrawSealedBid(kittiesApi, rli);
+        break;
+      case '8':
+        await viewMySealedBids(kittiesApi);
+        break;
+      case '9':
+        await claimForfeitedSealedBids(kittiesApi, rli);
+        break;
+      case '10':
+        logger.info('Returning to auctions...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const viewSealedAuctions = async (kittiesApi: KittiesAPI): Promise<void> => {
+  try {
+    logger.info('Fetching running sealed-bid auctions...');
+    const auctions = await kittiesApi.getSealedAuctions();
+
+    if (auctions.length === 0) {
+      logger.info('No kitties are in a sealed-bid auction.');
+      return;
+    }
+
+    logger.info(`\n=== Sealed-Bid Auctions (${auctions.length}) ===`);
+    for (const auction of auctions) {
+      logger.info(`Kitty #${auction.kittyId} (${auction.phase}):`);
+      logger.info(`  Seller: ${formatAddress(auction.seller.bytes)}`);
+      logger.info(`  Reserve price: ${formatPrice(auction.reservePrice)}, deposit: ${formatPrice(auction.deposit)}`);
+      logger.info(`  Sealed bids: ${auction.bidCount}`);
+      logger.info(`  Leading bid: ${auction.leadingBid > 0n ? formatPrice(auction.leadingBid) : 'None revealed'}`);
+      logger.info(`  Bidding closes in: ${formatAuctionTimeLeft(auction.bidEndTime)}`);
+      logger.info(`  Reveals close in: ${formatAuctionTimeLeft(auction.revealEndTime)}`);
+      logger.info('');
+    }
+  } catch (error) {
+    logger.error(`Failed to fetch sealed-bid auctions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const createSealedAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to auction: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const reservePriceStr = await rli.question('Enter the reserve price: ');
+    const reservePrice = safeParseBigInt(reservePriceStr);
+
+    const depositStr = await rli.question('Enter the deposit every bidder escrows (the highest bid accepted): ');
+    const deposit = safeParseBigInt(depositStr);
+
+    const bidHoursStr = await rli.question('Enter how many hours bidding stays open: ');
+    const bidEndTime = nowInSeconds() + safeParseBigInt(bidHoursStr) * 3600n;
+
+    const revealHoursStr = await rli.question('Enter how many hours bidders then have to reveal: ');
+    const revealEndTime = bidEndTime + safeParseBigInt(revealHoursStr) * 3600n;
+
+    logger.info(`Starting a sealed-bid auction for kitty #${kittyId}...`);
+    await kittiesApi.createSealedAuction({ kittyId, reservePrice, deposit, bidEndTime, revealEndTime });
+    logger.info('✅ Sealed-bid auction started! Anyone can settle it once reveals close.');
+  } catch (error) {
+    logger.error(`Failed to start auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const commitSealedBid = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to bid on: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const auction = await kittiesApi.getSealedAuction(kittyId);
+    if (!auction || auction.phase !== 'bidding') {
+      logger.error(`Kitty #${kittyId} is not taking sealed bids`);
+      return;
+    }
+    logger.info(
+      `Bids from ${formatPrice(auction.reservePrice)} up to ${formatPrice(auction.deposit)}, time left: ${formatAuctionTimeLeft(auction.bidEndTime)}`,
+    );
+
+    const priceStr = await rli.question('Enter your bid: ');
+    const price = safeParseBigInt(priceStr);
+
+    logger.info(`Placing a sealed bid on kitty #${kittyId}, escrowing ${formatPrice(auction.deposit)}...`);
+    await kittiesApi.commitSealedBid({ kittyId, price });
+    logger.info(
+      '✅ Sealed bid placed! Reveal it once bidding closes, or its deposit goes to the seller; only a leading bid is ever disclosed.',
+    );
+  } catch (error) {
+    logger.error(`Failed to place sealed bid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const revealSealedBid = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of your sealed bid: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Revealing your sealed bid on kitty #${kittyId}...`);
+    await kittiesApi.revealSealedBid({ kittyId });
+    const bids = await kittiesApi.getMySealedBids();
+    if (bids.some((bid) => bid.kittyId === kittyId && bid.status === 'leading')) {
+      logger.info('✅ Sealed bid revealed, you are the leading bidder!');
+    } else {
+      logger.info('✅ Sealed bid revealed without disclosing it, it is beaten. You can withdraw your deposit now.');
+    }
+  } catch (error) {
+    logger.error(`Failed to reveal sealed bid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const settleSealedAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of the auction to settle: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Settling the sealed-bid auction of kitty #${kittyId}...`);
+    await kittiesApi.settleSealedAuction({ kittyId });
+    logger.info('✅ Sealed-bid auction settled!');
+  } catch (error) {
+    logger.error(`Failed to settle auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const cancelSealedAuction = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of your auction: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Cancelling the sealed-bid auction of kitty #${kittyId}...`);
+    await kittiesApi.cancelSealedAuction({ kittyId });
+    logger.info('✅ Auction cancelled, the kitty is back in your collection.');
+  } catch (error) {
+    logger.error(`Failed to cancel auction: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const withdrawSealedBid = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of your sealed bid: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Withdrawing your sealed bid deposit for kitty #${kittyId}...`);
+    await kittiesApi.withdrawSealedBid({ kittyId });
+    logger.info('✅ Deposit withdrawn!');
+  } catch (error) {
+    logger.error(`Failed to withdraw deposit: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const viewMySealedBids = async (kittiesApi: KittiesAPI): Promise<void> => {
+  try {
+    const bids = await kittiesApi.getMySealedBids();
+
+    if (bids.length === 0) {
+      logger.info('You have no sealed bids.');
+      return;
+    }
+
+    logger.info(`\n=== My Sealed Bids (${bids.length}) ===`);
+    for (const bid of bids) {
+      logger.info(`Kitty #${bid.kittyId}: ${formatPrice(bid.price)} (${bid.status})`);
+    }
+  } catch (error) {
+    logger.error(`Failed to fetch sealed bids: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const claimForfeitedSealedBids = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    logger.info('Fetching forfeited deposits...');
+    const deposits = await kittiesApi.getForfeitedSealedBids();
+
+    if (deposits.length === 0) {
+      logger.info('No unrevealed sealed bids to claim in your auctions.');
+      return;
+    }
+
+    logger.info(`\n=== ${deposits.length} Forfeited Deposit(s) ===`);
+    deposits.forEach((deposit, index) => {
+      logger.info(`${index + 1}. Kitty #${deposit.kittyId}: ${formatPrice(deposit.amount)} tokens`);
+    });
+
+    const confirm = await rli.question('\nClaim all forfeited deposits? (y/n): ');
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('Claim cancelled');
+      return;
+    }
+
+    for (const deposit of deposits) {
+      logger.info(`Claiming ${formatPrice(deposit.amount)} tokens forfeited on kitty #${deposit.kittyId}...`);
+      await kittiesApi.claimSealedBidDeposit({ kittyId: deposit.kittyId, commitment: deposit.commitment });
+    }
+    logger.info('✅ Forfeited deposits claimed!');
+  } catch (error) {
+    logger.error(`Failed to claim deposits: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Batch Operations
+const BATCH_QUESTION = `
+Batch operations (${BATCH_SIZE} kitties per transaction):
+  1. Transfer several kitties
+  2. Set the price of several kitties
+  3. Take several kitties off sale
+  4. Back to main menu
+Which would you like to do? `;
+
+const batchOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(BATCH_QUESTION);
+    switch (choice) {
+      case '1':
+        await batchTransferKitties(kittiesApi, rli);
+        break;
+      case '2':
+        await batchSetPrice(kittiesApi, rli);
+        break;
+      case '3':
+        await batchCancelListings(kittiesApi, rli);
+        break;
+      case '4':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const transactionCount = (kittyIds: bigint[]): number => Math.ceil(kittyIds.length / BATCH_SIZE);
+
+const batchTransferKitties = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIds = parseKittyIdList(await rli.question('Enter the kitty IDs to transfer (e.g. 1, 2, 5): '));
+    const toAddress = safeParseAddressWithWallet(await rli.question('Enter the recipient address: '));
+    const confirm = await rli.question(
+      `Transfer ${kittyIds.length} kitties to ${formatAddress(toAddress)} in ${transactionCount(kittyIds)} transaction(s)? (y/n): `,
+    );
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Cancelled.');
+      return;
+    }
+
+    await kittiesApi.batchTransferKitty({ to: { bytes: toAddress }, kittyIds });
+    logger.info(`✅ Transferred ${kittyIds.length} kitties!`);
+  } catch (error) {
+    logger.error(`Failed to transfer kitties: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const batchSetPrice = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIds = parseKittyIdList(await rli.question('Enter the kitty IDs to price (e.g. 1, 2, 5): '));
+    const price = safeParseBigInt(await rli.question('Enter the price for each kitty (0 to remove from sale): '));
+
+    logger.info(`Setting the price of ${kittyIds.length} kitties to ${formatPrice(price)}...`);
+    await kittiesApi.batchSetPrice({ kittyIds, price });
+    logger.info('✅ Prices set successfully!');
+  } catch (error) {
+    logger.error(`Failed to set prices: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const batchCancelListings = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIds = parseKittyIdList(await rli.question('Enter the kitty IDs to take off sale (e.g. 1, 2, 5): '));
+
+    logger.info(`Taking ${kittyIds.length} kitties off sale...`);
+    await kittiesApi.batchCancelListing({ kittyIds });
+    logger.info('✅ Listings cancelled! Open offers on them are still in place.');
+  } catch (error) {
+    logger.error(`Failed to cancel listings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Gifts
+const GIFTS_QUESTION = `
+Gifts:
+  1. Gift a kitty with a claim code
+  2. Claim a gift
+  3. View my unclaimed gifts
+  4. Take back an unclaimed gift
+  5. Back to main menu
+Which would you like to do? `;
+
+const giftOperations = async (kittiesApi: KittiesAPI, providers: KittiesProviders, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(GIFTS_QUESTION);
+    switch (choice) {
+      case '1':
+        await createGift(kittiesApi, rli);
+        break;
+      case '2':
+        await claimGift(kittiesApi, rli);
+        break;
+      case '3':
+        await viewMyGifts(kittiesApi, providers);
+        break;
+      case '4':
+        await reclaimGift(kittiesApi, rli);
+        break;
+      case '5':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const createGift = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to gift: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const confirm = await rli.question(
+      `Anyone with the claim code can take kitty #${kittyId} until you take it back. Continue? (y/n): `,
+    );
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Cancelled.');
+      return;
+    }
+
+    logger.info(`Gifting kitty #${kittyId}...`);
+    const claimCode = await kittiesApi.createGift({ kittyId });
+    logger.info('✅ Gift created! Send this claim code to the recipient, it is not stored anywhere else:');
+    logger.info(claimCode);
+  } catch (error) {
+    logger.error(`Failed to create gift: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const claimGift = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const claimCode = await rli.question('Enter the claim code: ');
+
+    logger.info('Claiming the gift...');
+    const kittyId = await kittiesApi.claimGift(claimCode);
+    logger.info(`✅ Kitty #${kittyId} is now yours!`);
+  } catch (error) {
+    logger.error(`Failed to claim gift: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const viewMyGifts = async (kittiesApi: KittiesAPI, providers: KittiesProviders): Promise<void> => {
+  try {
+    const walletAddress = { bytes: convertWalletPublicKeyToBytes(providers.walletProvider.coinPublicKey) };
+    const gifts = await kittiesApi.getGifts(walletAddress);
+
+    if (gifts.length === 0) {
+      logger.info('You have no unclaimed gifts.');
+      return;
+    }
+
+    logger.info(`\n=== ${gifts.length} Unclaimed Gift(s) ===`);
+    gifts.forEach((gift, index) => {
+      logger.info(`${index + 1}. Kitty #${gift.kittyId}`);
+    });
+  } catch (error) {
+    logger.error(`Failed to fetch gifts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const reclaimGift = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID of your gift: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Taking back the gift of kitty #${kittyId}...`);
+    await kittiesApi.reclaimGift({ kittyId });
+    logger.info('✅ Gift taken back, its claim code no longer works.');
+  } catch (error) {
+    logger.error(`Failed to take back gift: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Rentals
+const RENTALS_QUESTION = `
+Rentals:
+  1. Offer a kitty for rent
+  2. Accept a rental
+  3. View my rentals
+  4. End a rental or withdraw an offer
+  5. Back to main menu
+Which would you like to do? `;
+
+const rentalOperations = async (kittiesApi: KittiesAPI, providers: KittiesProviders, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(RENTALS_QUESTION);
+    switch (choice) {
+      case '1':
+        await offerRental(kittiesApi, rli);
+        break;
+      case '2':
+        await acceptRental(kittiesApi, rli);
+        break;
+      case '3':
+        await viewMyRentals(kittiesApi, providers);
+        break;
+      case '4':
+        await endRental(kittiesApi, rli);
+        break;
+      case '5':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const offerRental = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to rent out: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const borrower = safeParseAddressWithWallet(await rli.question('Enter the borrower address: '));
+
+    const kindChoice = await rli.question('Rent it for 1. breeding only or 2. custody? ');
+    if (kindChoice !== '1' && kindChoice !== '2') {
+      logger.error(`Invalid choice: ${kindChoice}`);
+      return;
+    }
+    const kind = kindChoice === '1' ? 'breeding' : 'custody';
+
+    const hoursStr = await rli.question('Enter how many hours the rental lasts: ');
+    const endTime = nowInSeconds() + safeParseBigInt(hoursStr) * 3600n;
+
+    const feeStr = await rli.question('Enter the rental fee (0 for free): ');
+    const fee = safeParseBigInt(feeStr);
+
+    logger.info(`Offering kitty #${kittyId} for ${kind} to ${formatAddress(borrower)}...`);
+    await kittiesApi.offerRental({ kittyId, borrower: { bytes: borrower }, kind, endTime, fee });
+    logger.info('✅ Rental offered! It starts once the borrower accepts it.');
+  } catch (error) {
+    logger.error(`Failed to offer rental: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const acceptRental = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID offered to you: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const rental = await kittiesApi.getRental(kittyId);
+    if (!rental || rental.status !== 'offered') {
+      logger.error(`❌ Kitty #${kittyId} has no open rental offer.`);
+      return;
+    }
+
+    const confirm = await rli.question(
+      `Rent kitty #${kittyId} for ${rental.kind} until ${new Date(Number(rental.endTime) * 1000).toLocaleString()} for ${formatPrice(rental.fee)}? (y/n): `,
+    );
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Cancelled.');
+      return;
+    }
+
+    logger.info(`Renting kitty #${kittyId}...`);
+    await kittiesApi.acceptRental({ kittyId });
+    logger.info('✅ Kitty rented!');
+  } catch (error) {
+    logger.error(`Failed to accept rental: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const formatRental = (rental: RentalData, counterparty: Uint8Array): string =>
+  `Kitty #${rental.kittyId} (${rental.kind}, ${rental.status}) with ${formatAddress(counterparty)}, ` +
+  `fee ${formatPrice(rental.fee)}, time left: ${formatAuctionTimeLeft(rental.endTime)}`;
+
+const viewMyRentals = async (kittiesApi: KittiesAPI, providers: KittiesProviders): Promise<void> => {
+  try {
+    const walletAddress = { bytes: convertWalletPublicKeyToBytes(providers.walletProvider.coinPublicKey) };
+    const { lent, borrowed } = await kittiesApi.getRentals(walletAddress);
+
+    if (lent.length === 0 && borrowed.length === 0) {
+      logger.info('You have no rentals.');
+      return;
+    }
+
+    logger.info(`\n=== ${lent.length} Kitty(s) Lent ===`);
+    lent.forEach((rental, index) => {
+      logger.info(`${index + 1}. ${formatRental(rental, rental.borrower.bytes)}`);
+    });
+    logger.info(`\n=== ${borrowed.length} Kitty(s) Borrowed ===`);
+    borrowed.forEach((rental, index) => {
+      logger.info(`${index + 1}. ${formatRental(rental, rental.lender.bytes)}`);
+    });
+  } catch (error) {
+    logger.error(`Failed to fetch rentals: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const endRental = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the rented kitty ID: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Ending the rental of kitty #${kittyId}...`);
+    await kittiesApi.endRental({ kittyId });
+    logger.info('✅ Rental ended, the kitty is back with its lender.');
+  } catch (error) {
+    logger.error(`Failed to end rental: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Accessories
+const ACCESSORIES_QUESTION = `
+Accessories:
+  1. View my accessories
+  2. Put an accessory on a kitty
+  3. Take an accessory off a kitty
+  4. Transfer an accessory
+  5. Mint an accessory (admin)
+  6. Back to main menu
+Which would you like to do? `;
+
+const accessoryOperations = async (
+  kittiesApi: KittiesAPI,
+  providers: KittiesProviders,
+  rli: Interface,
+): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(ACCESSORIES_QUESTION);
+    switch (choice) {
+      case '1':
+        await viewMyAccessories(kittiesApi, providers);
+        break;
+      case '2':
+        await equipAccessory(kittiesApi, rli);
+        break;
+      case '3':
+        await unequipAccessory(kittiesApi, rli);
+        break;
+      case '4':
+        await transferAccessory(kittiesApi, rli);
+        break;
+      case '5':
+        await runAdminAction(kittiesApi, 'mint accessories', () => mintAccessory(kittiesApi, rli));
+        break;
+      case '6':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const formatAccessory = (accessory: AccessoryData): string => `#${accessory.id} ${accessory.name} (${accessory.slot})`;
+
+const formatAccessories = (accessories: AccessoryData[]): string => accessories.map(formatAccessory).join(', ');
+
+const askAccessorySlot = async (rli: Interface): Promise<AccessorySlotName> => {
+  const slot = (await rli.question(`Enter the slot (${ACCESSORY_SLOTS.join(', ')}): `)).trim().toLowerCase();
+  const found = ACCESSORY_SLOTS.find((name) => name === slot);
+  if (!found) {
+    throw new Error(`Unknown slot: ${slot}`);
+  }
+  return found;
+};
+
+const viewMyAccessories = async (kittiesApi: KittiesAPI, providers: KittiesProviders): Promise<void> => {
+  try {
+    const walletAddress = { bytes: convertWalletPublicKeyToBytes(providers.walletProvider.coinPublicKey) };
+    const accessories = await kittiesApi.getUserAccessories(walletAddress);
+    const worn = (await kittiesApi.getMyKitties(walletAddress)).flatMap((kitty) => kitty.accessories);
+
+    if (accessories.length === 0 && worn.length === 0) {
+      logger.info("You don't have any accessories yet.");
+      return;
+    }
+
+    logger.info(`
+=== ${accessories.length} Accessory(ies) in Your Wallet ===`);
+    accessories.forEach((accessory, index) => logger.info(`${index + 1}. ${formatAccessory(accessory)}`));
+    logger.info(`
+=== ${worn.length} Accessory(ies) Worn by Your Kitties ===`);
+    worn.forEach((accessory, index) =>
+      logger.info(`${index + 1}. ${formatAccessory(accessory)} on kitty #${accessory.kittyId}`),
+    );
+  } catch (error) {
+    logger.error(`Failed to fetch accessories: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const equipAccessory = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const accessoryId = safeParseBigInt(await rli.question('Enter the accessory ID: '));
+    const kittyId = safeParseBigInt(await rli.question('Enter the kitty ID to put it on: '));
+
+    logger.info(`Putting accessory #${accessoryId} on kitty #${kittyId}...`);
+    await kittiesApi.equipAccessory({ kittyId, accessoryId });
+    logger.info('✅ Accessory equipped! Anything the kitty wore in that slot is back in your wallet.');
+  } catch (error) {
+    logger.error(`Failed to equip accessory: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const unequipAccessory = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyId = safeParseBigInt(await rli.question('Enter the kitty ID: '));
+    const slot = await askAccessorySlot(rli);
+
+    logger.info(`Taking the ${slot} off kitty #${kittyId}...`);
+    await kittiesApi.unequipAccessory({ kittyId, slot });
+    logger.info('✅ Accessory unequipped and back in your wallet.');
+  } catch (error) {
+    logger.error(`Failed to unequip accessory: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const transferAccessory = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const accessoryId = safeParseBigInt(await rli.question('Enter the accessory ID to transfer: '));
+    const to = safeParseAddressWithWallet(await rli.question('Enter the recipient address: '));
+
+    logger.info(`Transferring accessory #${accessoryId} to ${formatAddress(to)}...`);
+    await kittiesApi.transferAccessory({ accessoryId, to: { bytes: to } });
+    logger.info('✅ Accessory transferred!');
+  } catch (error) {
+    logger.error(`Failed to transfer accessory: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const mintAccessory = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  const slot = await askAccessorySlot(rli);
+  const styles = ACCESSORY_STYLES[ACCESSORY_SLOTS.indexOf(slot) as AccessorySlot];
+  styles.forEach((name, index) => logger.info(`  ${index}. ${name}`));
+  const style = Number(safeParseBigInt(await rli.question('Enter the style number (0-255): ')));
+  if (style < 0 || style > 255) {
+    throw new Error('Style must be between 0 and 255');
+  }
+  const to = safeParseAddressWithWallet(await rli.question('Enter the recipient address: '));
+
+  logger.info(`Minting a ${slot} for ${formatAddress(to)}...`);
+  await kittiesApi.mintAccessory({ to: { bytes: to }, slot, style });
+  logger.info('✅ Accessory minted!');
+};
+
+// Admin
+const ADMIN_QUESTION = `
+Admin:
+  1. View admin settings
+  2. Pause the contract
+  3. Unpause the contract
+  4. Set mint policy
+  5. Publish an allowlist from a CSV file
+  6. Open minting to everyone
+  7. Transfer admin role
+  8. Export contract state
+  9. Import contract state
+  10. Back to main menu
+Which would you like to do? `;
+
+const adminOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(ADMIN_QUESTION);
+    switch (choice) {
+      case '1':
+        await viewAdminSettings(kittiesApi);
+        break;
+      case '2':
+        await runAdminAction(kittiesApi, 'pause the contract', async () => {
+          await kittiesApi.pause();
+          logger.info('✅ Contract paused. Offers, auctions and refunds can still be withdrawn.');
+        });
+        break;
+      case '3':
+        await runAdminAction(kittiesApi, 'unpause the contract', async () => {
+          await kittiesApi.unpause();
+          logger.info('✅ Contract unpaused!');
+        });
+        break;
+      case '4':
+        await runAdminAction(kittiesApi, 'set the mint policy', () => setMintPolicy(kittiesApi, rli));
+        break;
+      case '5':
+        await runAdminAction(kittiesApi, 'publish the allowlist', () => publishAllowlist(kittiesApi, rli));
+        break;
+      case '6':
+        await runAdminAction(kittiesApi, 'clear the allowlist', async () => {
+          await kittiesApi.clearAllowlist();
+          logger.info('✅ Allowlist cleared, anyone can mint again.');
+        });
+        break;
+      case '7':
+        await runAdminAction(kittiesApi, 'transfer the admin role', () => transferAdmin(kittiesApi, rli));
+        break;
+      case '8':
+        await exportState(kittiesApi, rli);
+        break;
+      case '9':
+        await runAdminAction(kittiesApi, 'import the contract state', () => importState(kittiesApi, rli));
+        break;
+      case '10':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+// Checks the admin role before prompting, so other accounts don't fill in forms the contract will reject
+const runAdminAction = async (kittiesApi: KittiesAPI, action: string, run: () => Promise<void>): Promise<void> => {
+  try {
+    if (!(await kittiesApi.isAdmin())) {
+      logger.error(`❌ Only the admin can ${action}`);
+      return;
+    }
+    await run();
+  } catch (error) {
+    logger.error(`Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const viewAdminSettings = async (kittiesApi: KittiesAPI): Promise<void> => {
+  try {
+    const { admin, paused, mintPolicy, gen0Count, allowlistRoot } = await kittiesApi.getAdminInfo();
+    const limit = (value: bigint) => (value === 0n ? 'Unlimited' : formatCount(value));
+
+    logger.info(`\n=== Admin Settings ===`);
+    logger.info(`Admin: ${formatAddress(admin.bytes)}${(await kittiesApi.isAdmin()) ? ' (you)' : ''}`);
+    logger.info(`Status: ${paused ? 'Paused' : 'Active'}`);
+    logger.info(`Generation 0 minted: ${formatCount(gen0Count)} of ${limit(mintPolicy.maxGen0Supply)}`);
+    logger.info(`Mints per account: ${limit(mintPolicy.walletLimit)}`);
+    logger.info(`Mint fee: ${mintPolicy.mintFee === 0n ? 'Free' : formatPrice(mintPolicy.mintFee)}`);
+    logger.info(`Allowlist: ${isAllowlistActive(allowlistRoot) ? 'Required' : 'Off'}`);
+  } catch (error) {
+    logger.error(`Failed to fetch admin settings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const setMintPolicy = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  const maxGen0Supply = safeParseBigInt(await rli.question('Maximum generation 0 supply (0 for unlimited): '));
+  const walletLimit = safeParseBigInt(await rli.question('Generation 0 mints per account (0 for unlimited): '));
+  const mintFee = safeParseBigInt(await rli.question('Mint fee (0 for free): '));
+
+  logger.info('Updating the mint policy...');
+  await kittiesApi.setMintPolicy({ maxGen0Supply, walletLimit, mintFee });
+  logger.info('✅ Mint policy updated!');
+};
+
+const publishAllowlist = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  logger.info('Each line of the CSV is kind,value,limit: key,<public key hex>,2 or secret,<secret hex>,1');
+  const csvPath = (await rli.question('Enter the allowlist CSV file: ')).trim();
+  const entries = parseAllowlistCsv(await readFile(csvPath, 'utf-8'));
+  const allowlist = createAllowlist(entries);
+
+  const defaultPath = csvPath.replace(/\.csv$/i, '') + '.json';
+  const filePath = (await rli.question(`Enter the file to publish (default ${defaultPath}): `)).trim() || defaultPath;
+  await writeFile(filePath, serializeAllowlist(allowlist));
+  logger.info(`Wrote ${entries.length} entries to ${filePath}. Publish it so minters can find their entry.`);
+
+  await kittiesApi.setAllowlist(allowlist);
+  logger.info('✅ Allowlist published! Only listed keys and codes can mint generation 0 kitties.');
+  const secrets = entries.filter((entry) => entry.kind === 'secret');
+  if (secrets.length > 0) {
+    logger.info('Hand out these codes:');
+    secrets.forEach((entry) =>
+      logger.info(`  ${encodeAllowlistCode(entry.value)} (${formatCount(entry.limit)} mints)`),
+    );
+  }
+};
+
+const transferAdmin = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  const newAdmin = safeParseAddressWithWallet(await rli.question('Enter the new admin address: '));
+  const confirm = await rli.question(`Hand the admin role to ${formatAddress(newAdmin)}? You will lose it. (y/n): `);
+  if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+    logger.info('❌ Cancelled.');
+    return;
+  }
+
+  logger.info(`Transferring the admin role to ${formatAddress(newAdmin)}...`);
+  await kittiesApi.transferAdmin({ newAdmin: { bytes: newAdmin } });
+  logger.info('✅ Admin role transferred!');
+};
+
+const exportState = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const defaultPath = `kitties-snapshot-${kittiesApi.deployedContractAddress}.json`;
+    const filePath = (await rli.question(`Enter the file to write (default ${defaultPath}): `)).trim() || defaultPath;
+
+    const snapshot = await kittiesApi.exportState();
+    await writeFile(filePath, serializeSnapshot(snapshot));
+    logger.info(
+      `✅ Exported ${snapshot.kitties.length} kitties and ${snapshot.buyOffers.length} offers to ${filePath}`,
+    );
+  } catch (error) {
+    logger.error(`Failed to export the contract state: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const importState = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  const filePath = (await rli.question('Enter the snapshot file to import: ')).trim();
+  const snapshot = parseSnapshot(await readFile(filePath, 'utf-8'));
+
+  logger.info(`\n=== Snapshot of ${formatContractAddress(snapshot.contractAddress)} ===`);
+  logger.info(`Exported: ${snapshot.exportedAt}`);
+  logger.info(`Kitties: ${snapshot.kitties.length} (${snapshot.counters.burnedCount} burned)`);
+  logger.info(
+    `Mint limits: ${snapshot.mintLimits.gen0MintedBy.length} accounts, ${snapshot.mintLimits.gen0Nullifiers.length} shielded mints, ${snapshot.mintLimits.allowlistMinted.length} allowlist entries`,
+  );
+  logger.info(`Open offers: ${snapshot.buyOffers.length} (not migrated, buyers cancel them on the old contract)`);
+  logger.info(
+    `NFT approvals: ${snapshot.nftApprovals.tokens.length + snapshot.nftApprovals.operators.length} (not migrated)`,
+  );
+  const confirm = await rli.question(
+    `Recreate these kitties on ${formatContractAddress(kittiesApi.deployedContractAddress)}? The import can only be done once. (y/n): `,
+  );
+  if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+    logger.info('❌ Cancelled.');
+    return;
+  }
+
+  await kittiesApi.importState(snapshot, (imported, total) => logger.info(`Imported ${imported} of ${total} kitties`));
+  logger.info("✅ Import finished! New kitties continue from the old contract's last ID.");
+};
+
+// NFT Operations
+const NFT_OPERATIONS_QUESTION = `
+NFT Operations:
+  1. Check balance of an address
+  2. Check owner of a token
+  3. Approve address for a token
+  4. Check approved address for a token
+  5. Set approval for all tokens
+  6. Check if address is approved for all
+  7. Back to main menu
+Which would you like to do? `;
+
+const nftOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(NFT_OPERATIONS_QUESTION);
+    switch (choice) {
+      case '1':
+        await checkBalance(kittiesApi, rli);
+        break;
+      case '2':
+        await checkOwner(kittiesApi, rli);
+        break;
+      case '3':
+        await approveToken(kittiesApi, rli);
+        break;
+      case '4':
+        await checkApproved(kittiesApi, rli);
+        break;
+      case '5':
+        await setApprovalForAll(kittiesApi, rli);
+        break;
+      case '6':
+        await checkApprovedForAll(kittiesApi, rli);
+        break;
+      case '7':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const checkBalance = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const addressStr = await rli.question('Enter the address to check balance for: ');
+    const address = safeParseAddressWithWallet(addressStr);
+
+    const balance = await kittiesApi.balanceOf({ bytes: address });
+    logger.info(`Address ${address} has ${formatCount(balance)} kitties`);
+  } catch (error) {
+    logger.error(`Failed to check balance: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const checkOwner = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const tokenIdStr = await rli.question('Enter the token ID to check owner for: ');
+    const tokenId = safeParseBigInt(tokenIdStr);
+
+    const owner = await kittiesApi.ownerOf(tokenId);
+    logger.info(`Token ${tokenId} is owned by: ${formatAddress(owner.bytes)}`);
+  } catch (error) {
+    logger.error(`Failed to check owner: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const approveToken = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const toAddressStr = await rli.question('Enter the address to approve: ');
+    const toAddress = safeParseAddressWithWallet(toAddressStr);
+
+    const tokenIdStr = await rli.question('Enter the token ID to approve: ');
+    const tokenId = safeParseBigInt(tokenIdStr);
+
+    logger.info(`Approving ${formatAddress(toAddress)} for token ${tokenId}...`);
+    await kittiesApi.approve({ to: { bytes: toAddress }, tokenId });
+    logger.info('✅ Token approved successfully!');
+  } catch (error) {
+    logger.error(`Failed to approve token: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const checkApproved = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const tokenIdStr = await rli.question('Enter the token ID to check approved address for: ');
+    const tokenId = safeParseBigInt(tokenIdStr);
+
+    const approved = await kittiesApi.getApproved(tokenId);
+    logger.info(`Token ${tokenId} is approved for: ${formatAddress(approved.bytes)}`);
+  } catch (error) {
+    logger.error(`Failed to check approved address: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const setApprovalForAll = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const operatorAddressStr = await rli.question('Enter the operator address: ');
+    const operatorAddress = safeParseAddressWithWallet(operatorAddressStr);
+
+    const approvedStr = await rli.question('Approve? (y/n): ');
+    const approved = approvedStr.toLowerCase() === 'y' || approvedStr.toLowerCase() === 'yes';
+
+    logger.info(
+      `Setting approval for all tokens - operator: ${formatAddress(operatorAddress)}, approved: ${approved}...`,
+    );
+    await kittiesApi.setApprovalForAll({ operator: { bytes: operatorAddress }, approved });
+    logger.info('✅ Approval for all tokens set successfully!');
+  } catch (error) {
+    logger.error(`Failed to set approval for all: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const checkApprovedForAll = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const ownerAddressStr = await rli.question('Enter the owner address: ');
+    const ownerAddress = safeParseAddressWithWallet(ownerAddressStr);
+
+    const operatorAddressStr = await rli.question('Enter the operator address: ');
+    const operatorAddress = safeParseAddressWithWallet(operatorAddressStr);
+
+    const isApproved = await kittiesApi.isApprovedForAll({ bytes: ownerAddress }, { bytes: operatorAddress });
+    logger.info(
+      `Operator ${formatAddress(operatorAddress)} is ${isApproved ? 'approved' : 'not approved'} for all tokens of ${formatAddress(ownerAddress)}`,
+    );
+  } catch (error) {
+    logger.error(`Failed to check approval for all: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const viewOffers = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to view offers for: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    // First check if the kitty exists
+    try {
+      await kittiesApi.getKitty(kittyId);
+    } catch {
+      logger.error(`Kitty #${kittyId} does not exist or cannot be accessed`);
+      return;
+    }
+
+    logger.info(`Fetching all offers for kitty #${kittyId}...`);
+
+    const offers: OfferData[] = await kittiesApi.getOffersForKitty(kittyId);
+
+    if (!offers || offers.length === 0) {
+      logger.info(`No offers found for kitty #${kittyId}`);
+      return;
+    }
+
+    logger.info(`\n=== ${offers.length} Offer(s) Found for Kitty #${kittyId} ===`);
+    offers.forEach((offer: OfferData, index: number) => {
+      logger.info(`\n--- Offer ${index + 1} ---`);
+      logger.info(`Kitty ID: ${offer.kittyId}`);
+      logger.info(`Buyer: ${formatAddress(offer.buyer.bytes)}`);
+      logger.info(`Price: ${formatPrice(offer.price)}`);
+      logger.info(`Status: ${formatOfferStatus(offer)}`);
+      logger.info(`Escrowed: ${formatPrice(offer.escrowed)}`);
+      logger.info(`Expires: ${formatOfferExpiry(offer.expiresAt)}`);
+      if (offer.stepCount > BigInt(offer.thread.length)) {
+        logger.info(`  (${offer.stepCount - BigInt(offer.thread.length)} earlier step(s) not kept)`);
+      }
+      offer.thread.forEach((event) => logger.info(`  ${formatActivityEvent(event)}`));
+    });
+  } catch (error) {
+    logger.error(`Failed to fetch offers: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const approveOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to approve offer for: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    // First check if the kitty exists
+    try {
+      await kittiesApi.getKitty(kittyId);
+    } catch {
+      logger.error(`Kitty #${kittyId} does not exist or cannot be accessed`);
+      return;
+    }
+
+    logger.info(`Fetching offers for kitty #${kittyId}...`);
+
+    const offers: OfferData[] = (await kittiesApi.getOffersForKitty(kittyId)).filter(isOpenOffer);
+
+    if (!offers || offers.length === 0) {
+      logger.info(`No open offers found for kitty #${kittyId}`);
+      return;
+    }
+
+    // Display all open offers; a countered offer is approved at its bid
+    logger.info(`\n=== ${offers.length} Offer(s) Found for Kitty #${kittyId} ===`);
+    offers.forEach((offer: OfferData, index: number) => {
+      logger.info(`\n--- Offer ${index + 1} ---`);
+      logger.info(`Buyer: ${formatAddress(offer.buyer.bytes)}`);
+      logger.info(`Price: ${formatPrice(offer.price)}`);
+      logger.info(`Status: ${formatOfferStatus(offer)}`);
+      logger.info(`Escrowed: ${formatPrice(offer.escrowed)}`);
+      logger.info(`Expires: ${formatOfferExpiry(offer.expiresAt)}`);
+    });
+
+    if (offers.length === 1) {
+      if (isOfferExpired(offers[0].expiresAt)) {
+        logger.error('The only offer for this kitty has expired and cannot be approved');
+        return;
+      }
+
+      // If only one offer, ask for confirmation
+      const confirm = await rli.question(
+        `\nApprove the offer from ${formatAddress(offers[0].buyer.bytes)} and receive ${formatPrice(offers[0].escrowed)} escrowed tokens? (y/n): `,
+      );
+      if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
         logger.info('Offer approval cancelled');
         return;
       }
 
       logger.info(`Approving offer for kitty #${kittyId} from ${formatAddress(offers[0].buyer.bytes)}...`);
-      // @ts-ignore - Method exists but may not be in current type definitions
       await kittiesApi.approveOffer({ kittyId, buyer: offers[0].buyer });
-      logger.info('✅ Offer approved successfully!');
+      logger.info(`✅ Offer approved successfully! ${formatPrice(offers[0].escrowed)} tokens released to you.`);
     } else {
       // Multiple offers, let user choose
       const choiceStr = await rli.question(`\nWhich offer would you like to approve? (1-${offers.length}): `);
@@ -648,18 +2245,191 @@ const approveOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<voi
       }
 
       const selectedOffer = offers[choice - 1];
+      if (isOfferExpired(selectedOffer.expiresAt)) {
+        logger.error('This offer has expired and cannot be approved');
+        return;
+      }
+
       logger.info(
         `Approving offer ${choice} for kitty #${kittyId} from ${formatAddress(selectedOffer.buyer.bytes)}...`,
       );
-      // @ts-ignore - Method exists but may not be in current type definitions
       await kittiesApi.approveOffer({ kittyId, buyer: selectedOffer.buyer });
-      logger.info('✅ Offer approved successfully!');
+      logger.info(`✅ Offer approved successfully! ${formatPrice(selectedOffer.escrowed)} tokens released to you.`);
     }
   } catch (error) {
     logger.error(`Failed to approve offer: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
+const cancelOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to cancel your offer for: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    logger.info(`Cancelling your offer for kitty #${kittyId}...`);
+    await kittiesApi.cancelOffer({ kittyId });
+    logger.info('✅ Offer cancelled and escrow returned!');
+  } catch (error) {
+    logger.error(`Failed to cancel offer: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const rejectOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to reject an offer for: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const selectedOffer = await chooseOpenOffer(kittiesApi, rli, kittyId, 'reject');
+    if (!selectedOffer) {
+      return;
+    }
+
+    logger.info(`Rejecting offer from ${formatAddress(selectedOffer.buyer.bytes)} for kitty #${kittyId}...`);
+    await kittiesApi.rejectOffer({ kittyId, buyer: selectedOffer.buyer });
+    logger.info('✅ Offer rejected! The buyer can now withdraw their escrow.');
+  } catch (error) {
+    logger.error(`Failed to reject offer: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// List the open offers on a kitty and let the owner pick one, or return null if there is none to pick
+const chooseOpenOffer = async (
+  kittiesApi: KittiesAPI,
+  rli: Interface,
+  kittyId: bigint,
+  action: string,
+): Promise<OfferData | null> => {
+  const offers: OfferData[] = (await kittiesApi.getOffersForKitty(kittyId)).filter(isOpenOffer);
+  if (offers.length === 0) {
+    logger.info(`No open offers found for kitty #${kittyId}`);
+    return null;
+  }
+
+  logger.info(`\n=== ${offers.length} Offer(s) Found for Kitty #${kittyId} ===`);
+  offers.forEach((offer: OfferData, index: number) => {
+    logger.info(
+      `${index + 1}. ${formatAddress(offer.buyer.bytes)} - ${formatPrice(offer.price)}, ${formatOfferStatus(offer)} (expires: ${formatOfferExpiry(offer.expiresAt)})`,
+    );
+  });
+
+  const choiceStr = await rli.question(`\nWhich offer would you like to ${action}? (1-${offers.length}): `);
+  const choice = parseInt(choiceStr, 10);
+  if (isNaN(choice) || choice < 1 || choice > offers.length) {
+    logger.error(`Invalid choice. Please enter a number between 1 and ${offers.length}`);
+    return null;
+  }
+  return offers[choice - 1];
+};
+
+const formatOfferStatus = (offer: OfferData): string =>
+  offer.status === 'countered' || (offer.status === 'accepted' && offer.counterPrice > 0n)
+    ? `${offer.status} at ${formatPrice(offer.counterPrice)}`
+    : offer.status;
+
+// Counter-offers
+const NEGOTIATION_QUESTION = `
+Negotiate offers:
+  1. Counter an offer on my kitty
+  2. Accept a counter offer
+  3. Back to main menu
+Which would you like to do? `;
+
+const negotiationOperations = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  while (true) {
+    const choice = await rli.question(NEGOTIATION_QUESTION);
+    switch (choice) {
+      case '1':
+        await counterOffer(kittiesApi, rli);
+        break;
+      case '2':
+        await acceptCounterOffer(kittiesApi, rli);
+        break;
+      case '3':
+        logger.info('Returning to main menu...');
+        return;
+      default:
+        logger.error(`Invalid choice: ${choice}`);
+    }
+  }
+};
+
+const counterOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID to counter an offer for: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const selectedOffer = await chooseOpenOffer(kittiesApi, rli, kittyId, 'counter');
+    if (!selectedOffer) {
+      return;
+    }
+
+    const counterPriceStr = await rli.question(`Enter your price (above ${formatPrice(selectedOffer.price)}): `);
+    const counterPrice = safeParseBigInt(counterPriceStr);
+
+    logger.info(
+      `Countering the offer from ${formatAddress(selectedOffer.buyer.bytes)} at ${formatPrice(counterPrice)}...`,
+    );
+    await kittiesApi.counterOffer({ kittyId, buyer: selectedOffer.buyer, counterPrice });
+    logger.info('✅ Offer countered! The buyer can accept your price, and you can still approve or reject the bid.');
+  } catch (error) {
+    logger.error(`Failed to counter offer: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const acceptCounterOffer = async (kittiesApi: KittiesAPI, rli: Interface): Promise<void> => {
+  try {
+    const kittyIdStr = await rli.question('Enter the kitty ID whose owner countered your offer: ');
+    const kittyId = safeParseBigInt(kittyIdStr);
+
+    const confirm = await rli.question(
+      `Buy kitty #${kittyId} at the counter price, paying the difference to your escrowed bid? (y/n): `,
+    );
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('❌ Cancelled.');
+      return;
+    }
+
+    logger.info(`Accepting the counter offer for kitty #${kittyId}...`);
+    await kittiesApi.acceptCounterOffer({ kittyId });
+    logger.info('✅ Kitty bought at the counter price!');
+  } catch (error) {
+    logger.error(`Failed to accept counter offer: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const withdrawRefunds = async (kittiesApi: KittiesAPI, providers: KittiesProviders, rli: Interface): Promise<void> => {
+  try {
+    const walletAddress = { bytes: convertWalletPublicKeyToBytes(providers.walletProvider.coinPublicKey) };
+
+    logger.info('Fetching your pending refunds...');
+    const refunds = await kittiesApi.getPendingRefunds(walletAddress);
+
+    if (refunds.length === 0) {
+      logger.info('You have no escrowed funds to withdraw.');
+      return;
+    }
+
+    logger.info(`\n=== ${refunds.length} Pending Refund(s) ===`);
+    refunds.forEach((refund, index) => {
+      logger.info(`${index + 1}. Kitty #${refund.kittyId}: ${formatPrice(refund.amount)} tokens`);
+    });
+
+    const confirm = await rli.question('\nWithdraw all pending refunds? (y/n): ');
+    if (confirm.toLowerCase() !== 'y' && confirm.toLowerCase() !== 'yes') {
+      logger.info('Refund withdrawal cancelled');
+      return;
+    }
+
+    for (const refund of refunds) {
+      logger.info(`Withdrawing ${formatPrice(refund.amount)} tokens escrowed for kitty #${refund.kittyId}...`);
+      await kittiesApi.withdrawRefund({ kittyId: refund.kittyId });
+    }
+    logger.info('✅ Refunds withdrawn successfully!');
+  } catch (error) {
+    logger.error(`Failed to withdraw refunds: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
 export const run = async (config: Config, _logger: Logger, dockerEnv?: DockerComposeEnvironment): Promise<void> => {
   logger = _logger;
   setLogger(_logger);
@@ -0,0 +1,95 @@
+/**
+ * @file gifts.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type {
+  AccessorySlot,
+  KittyAccessories
+} from "./managed/kitties/contract/index.cjs";
+
+/**
+ * Accessory slots in contract order, with the name used for each in apps.
+ */
+export const ACCESSORY_SLOTS = ["hat", "collar", "background"] as const;
+
+/**
+ * Names of the accessory styles of each slot, indexed by style.
+ * The contract accepts any style; apps draw styles without a name like the first one.
+ */
+export const ACCESSORY_STYLES: Record<AccessorySlot, readonly string[]> = {
+  [ContractModule.AccessorySlot.Hat]: [
+    "Top hat",
+    "Party hat",
+    "Crown",
+    "Beanie"
+  ],
+  [ContractModule.AccessorySlot.Collar]: [
+    "Red collar",
+    "Bell collar",
+    "Bow tie",
+    "Bandana"
+  ],
+  [ContractModule.AccessorySlot.Background]: [
+    "Sunset",
+    "Night sky",
+    "Meadow",
+    "Ocean"
+  ]
+};
+
+/**
+ * Name of an accessory style, e.g. "Crown", or "Hat #7" for a style without a name.
+ */
+export function getAccessoryName(slot: AccessorySlot, style: number): string {
+  const name = ACCESSORY_STYLES[slot][style];
+  if (name) {
+    return name;
+  }
+  const slotName = ACCESSORY_SLOTS[slot];
+  return `${slotName.charAt(0).toUpperCase()}${slotName.slice(1)} #${style}`;
+}
+
+/**
+ * Accessory slot from its name ("hat", "collar" or "background", any case), or undefined.
+ */
+export function parseAccessorySlot(name: string): AccessorySlot | undefined {
+  const index = ACCESSORY_SLOTS.findIndex(
+    (slot) => slot === name.trim().toLowerCase()
+  );
+  return index === -1 ? undefined : (index as AccessorySlot);
+}
+
+/**
+ * IDs of the accessories a kitty wears, by slot. Empty slots are left out.
+ */
+export function getWornAccessoryIds(
+  worn: KittyAccessories
+): Partial<Record<(typeof ACCESSORY_SLOTS)[number], bigint>> {
+  return Object.fromEntries(
+    ACCESSORY_SLOTS.map((slot) => [slot, worn[slot]] as const).filter(
+      ([, accessoryId]) => accessoryId !== 0n
+    )
+  );
+}
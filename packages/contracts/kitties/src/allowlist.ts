@@ -0,0 +1,212 @@
+/**
+ * @file allowlist.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type { AllowlistTicket } from "./managed/kitties/contract/index.cjs";
+import type { KittiesPrivateState } from "./witnesses.js";
+import {
+  CompactTypeBytes,
+  CompactTypeMerkleTreeDigest,
+  CompactTypeMerkleTreePath,
+  StateBoundedMerkleTree,
+  type MerkleTreeDigest
+} from "@midnight-ntwrk/compact-runtime";
+
+/**
+ * Depth of the allowlist tree, matching the path in AllowlistTicket. It holds up to 65536 entries.
+ */
+export const ALLOWLIST_DEPTH = 16;
+
+/**
+ * Who can mint with an allowlist entry: the account with a public key, or whoever knows a secret
+ * handed out off chain.
+ */
+export interface AllowlistHolder {
+  readonly kind: "key" | "secret";
+  readonly value: Uint8Array; // Public key or allowlist secret
+}
+
+/**
+ * One allowlist entry and how many generation 0 kitties it can mint.
+ */
+export interface AllowlistEntry extends AllowlistHolder {
+  readonly limit: bigint;
+}
+
+/**
+ * Leaf of an entry in the allowlist tree, with the limit it was hashed with.
+ */
+export interface AllowlistLeaf {
+  readonly hash: Uint8Array;
+  readonly limit: bigint;
+}
+
+/**
+ * A published allowlist: the root the admin sets with setAllowlistRoot and the leaves, in tree order,
+ * that minters build their paths from. Leaves are hashes, so publishing them doesn't reveal the secrets.
+ */
+export interface Allowlist {
+  readonly root: MerkleTreeDigest;
+  readonly leaves: readonly AllowlistLeaf[];
+}
+
+const LEAF_TYPE = new CompactTypeBytes(32);
+
+const toAlignedLeaf = (leaf: Uint8Array) => ({
+  value: LEAF_TYPE.toValue(leaf),
+  alignment: LEAF_TYPE.alignment()
+});
+
+/**
+ * Holder of a secret allowlist entry, matching allowlistSecretHolder in the contract.
+ */
+export function getAllowlistSecretHolder(secret: Uint8Array): Uint8Array {
+  return ContractModule.pureCircuits.allowlistSecretHolder(secret);
+}
+
+/**
+ * Leaf of an allowlist entry, matching allowlistLeaf in the contract.
+ */
+export function getAllowlistLeaf(entry: AllowlistEntry): Uint8Array {
+  return ContractModule.pureCircuits.allowlistLeaf(
+    getHolderHash(entry),
+    entry.limit
+  );
+}
+
+const getHolderHash = (holder: AllowlistHolder): Uint8Array =>
+  holder.kind === "secret"
+    ? getAllowlistSecretHolder(holder.value)
+    : holder.value;
+
+/**
+ * Build the tree over the leaves, in order, the same way the contract hashes MerkleTree paths.
+ */
+function buildAllowlistTree(
+  leaves: readonly AllowlistLeaf[]
+): StateBoundedMerkleTree {
+  if (leaves.length > 2 ** ALLOWLIST_DEPTH) {
+    throw new Error(
+      `Allowlist has ${leaves.length} entries, at most ${2 ** ALLOWLIST_DEPTH} fit`
+    );
+  }
+  return leaves
+    .reduce(
+      (tree, leaf, index) =>
+        tree.update(BigInt(index), toAlignedLeaf(leaf.hash)),
+      new StateBoundedMerkleTree(ALLOWLIST_DEPTH)
+    )
+    .rehash();
+}
+
+/**
+ * Build an allowlist from its entries, one leaf each in order. List each key or secret once:
+ * getAllowlistTicket only finds a holder's first entry.
+ */
+export function createAllowlist(entries: readonly AllowlistEntry[]): Allowlist {
+  if (entries.length === 0) {
+    throw new Error("Allowlist has no entries");
+  }
+  if (entries.some((entry) => entry.limit <= 0n || entry.limit >= 2n ** 32n)) {
+    throw new Error("Allowlist limits must be between 1 and 2^32 - 1");
+  }
+  const leaves = entries.map((entry) => ({
+    hash: getAllowlistLeaf(entry),
+    limit: entry.limit
+  }));
+  return { root: getAllowlistRoot(leaves), leaves };
+}
+
+/**
+ * Root of the tree over the leaves, which is what the admin publishes.
+ */
+export function getAllowlistRoot(
+  leaves: readonly AllowlistLeaf[]
+): MerkleTreeDigest {
+  const root = buildAllowlistTree(leaves).root();
+  if (root === undefined) {
+    throw new Error("Allowlist has no entries");
+  }
+  return new CompactTypeMerkleTreeDigest().fromValue(root.value);
+}
+
+/**
+ * The ticket a holder mints with: their first entry on the allowlist and the path to its leaf.
+ * @throws Error if the holder has no entry on the allowlist
+ */
+export function getAllowlistTicket(
+  allowlist: Allowlist,
+  holder: AllowlistHolder
+): AllowlistTicket {
+  const holderHash = getHolderHash(holder);
+  const index = allowlist.leaves.findIndex((leaf) =>
+    ContractModule.pureCircuits
+      .allowlistLeaf(holderHash, leaf.limit)
+      .every((byte, i) => byte === leaf.hash[i])
+  );
+  if (index < 0) {
+    throw new Error("Not on the allowlist");
+  }
+  const leaf = allowlist.leaves[index];
+  const path = buildAllowlistTree(allowlist.leaves).pathForLeaf(
+    BigInt(index),
+    toAlignedLeaf(leaf.hash)
+  );
+  return {
+    useSecret: holder.kind === "secret",
+    secret: holder.kind === "secret" ? holder.value : new Uint8Array(32),
+    limit: leaf.limit,
+    path: new CompactTypeMerkleTreePath(ALLOWLIST_DEPTH, LEAF_TYPE).fromValue(
+      path.value
+    )
+  };
+}
+
+/**
+ * Whether two allowlist roots are the same, e.g. a ticket's list and the one set on chain.
+ */
+export function isSameAllowlistRoot(
+  a: MerkleTreeDigest,
+  b: MerkleTreeDigest
+): boolean {
+  return a.field === b.field;
+}
+
+/**
+ * Whether an allowlist is set, i.e. minting needs a ticket. An unset root is the default digest.
+ */
+export function isAllowlistActive(root: MerkleTreeDigest): boolean {
+  return root.field !== 0n;
+}
+
+/**
+ * Keep the ticket the allowlistTicket witness hands to createKitty, replacing any earlier one.
+ */
+export function setAllowlistTicket(
+  privateState: KittiesPrivateState,
+  allowlistTicket: AllowlistTicket
+): KittiesPrivateState {
+  return { ...privateState, allowlistTicket };
+}
@@ -0,0 +1,190 @@
+/**
+ * @file attestations.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type {
+  AttestationPredicate,
+  Gender,
+  Kitty,
+  Ledger,
+  ShieldedKittyOpening
+} from "./managed/kitties/contract/index.cjs";
+import {
+  GENE_SLOTS,
+  TRAIT_NAMES,
+  decodeGenes,
+  type GeneSlot
+} from "./genome.js";
+
+/**
+ * Conditions to attest to. Leave one out to not check it.
+ */
+export interface AttestationFilter {
+  maxGeneration?: bigint; // 0n for generation 0 only
+  gender?: Gender;
+  trait?: { slot: GeneSlot; trait: number }; // Index of the trait in TRAIT_NAMES[slot]
+}
+
+/**
+ * Predicate for attestOwnership from a filter, with the unused checks switched off.
+ */
+export function createAttestationPredicate(
+  filter: AttestationFilter
+): AttestationPredicate {
+  return {
+    checkGeneration: filter.maxGeneration !== undefined,
+    maxGeneration: filter.maxGeneration ?? 0n,
+    checkGender: filter.gender !== undefined,
+    gender: filter.gender ?? ContractModule.Gender.Male,
+    checkTrait: filter.trait !== undefined,
+    traitSlot: BigInt(filter.trait ? GENE_SLOTS.indexOf(filter.trait.slot) : 0),
+    trait: BigInt(filter.trait?.trait ?? 0)
+  };
+}
+
+/**
+ * Whether a kitty meets a predicate, matching the checks in attestOwnership.
+ */
+export function matchesPredicate(
+  kitty: Pick<Kitty, "generation" | "gender" | "dna">,
+  predicate: AttestationPredicate
+): boolean {
+  if (predicate.checkGeneration && kitty.generation > predicate.maxGeneration) {
+    return false;
+  }
+  if (predicate.checkGender && kitty.gender !== predicate.gender) {
+    return false;
+  }
+  if (predicate.checkTrait) {
+    const slot = GENE_SLOTS[Number(predicate.traitSlot)];
+    if (slot === undefined) {
+      return false;
+    }
+    const allele = decodeGenes(kitty.dna)[Number(predicate.traitSlot)].dominant;
+    return allele % BigInt(TRAIT_NAMES[slot].length) === predicate.trait;
+  }
+  return true;
+}
+
+/**
+ * Leaf of a shielded kitty in the shieldedKitties tree, matching shieldedKittyLeaf in the contract.
+ */
+export function getShieldedKittyLeaf(
+  kittyId: bigint,
+  commitment: Uint8Array,
+  kitty: Pick<Kitty, "generation" | "gender" | "dna">
+): Uint8Array {
+  return ContractModule.pureCircuits.shieldedKittyLeaf(
+    kittyId,
+    commitment,
+    kitty.generation,
+    kitty.gender,
+    kitty.dna
+  );
+}
+
+/**
+ * What the shieldedKittyOpening witness hands to attestOwnership, read from the ledger.
+ */
+export function getShieldedKittyOpening(
+  ledger: Ledger,
+  kittyId: bigint
+): ShieldedKittyOpening {
+  if (!ledger.shieldedOwners.member(kittyId)) {
+    throw new Error(`Kitty ${kittyId} is not shielded`);
+  }
+  const kitty = ledger.kitties.lookup(kittyId);
+  const owner = ledger.shieldedOwners.lookup(kittyId);
+  const leaf = getShieldedKittyLeaf(kittyId, owner.commitment, kitty);
+  return {
+    generation: kitty.generation,
+    gender: kitty.gender,
+    dna: kitty.dna,
+    round: owner.round,
+    path: ledger.shieldedKitties.pathForLeaf(kittyId, leaf)
+  };
+}
+
+/**
+ * ID of an owner's attestation for a kitty and challenge, matching attestationId in the contract.
+ */
+export function getAttestationId(
+  ownerSecret: Uint8Array,
+  kittyId: bigint,
+  challenge: Uint8Array
+): Uint8Array {
+  return ContractModule.pureCircuits.attestationId(
+    ownerSecret,
+    kittyId,
+    challenge
+  );
+}
+
+/**
+ * Presenter key attestOwnership stores for a presenter secret, matching presenterKey in the contract.
+ */
+export function getPresenterKey(presenterSecret: Uint8Array): Uint8Array {
+  return ContractModule.pureCircuits.presenterKey(presenterSecret);
+}
+
+/**
+ * Whether an attestation stored on the ledger answers a challenge with a predicate at least as strict
+ * as the required one, and was made for whoever handed over the presenter secret. This is all a
+ * verifier needs: the contract only stores attestations it proved.
+ */
+export function verifyAttestation(
+  ledger: Ledger,
+  attestationId: Uint8Array,
+  challenge: Uint8Array,
+  presenterSecret: Uint8Array,
+  required: AttestationPredicate
+): boolean {
+  if (!ledger.attestations.member(attestationId)) {
+    return false;
+  }
+  const {
+    challenge: attested,
+    presenter,
+    predicate
+  } = ledger.attestations.lookup(attestationId);
+  if (!attested.every((byte, index) => byte === challenge[index])) {
+    return false;
+  }
+  const presenterKey = getPresenterKey(presenterSecret);
+  if (!presenter.every((byte, index) => byte === presenterKey[index])) {
+    return false;
+  }
+  return (
+    (!required.checkGeneration ||
+      (predicate.checkGeneration &&
+        predicate.maxGeneration <= required.maxGeneration)) &&
+    (!required.checkGender ||
+      (predicate.checkGender && predicate.gender === required.gender)) &&
+    (!required.checkTrait ||
+      (predicate.checkTrait &&
+        predicate.traitSlot === required.traitSlot &&
+        predicate.trait === required.trait))
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * @file auctions.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type { Auction } from "./managed/kitties/contract/index.cjs";
+
+/**
+ * Whether an auction is a Dutch auction, whose price falls over time.
+ */
+export function isDutchAuction(auction: Auction): boolean {
+  return auction.kind === ContractModule.AuctionKind.Dutch;
+}
+
+/**
+ * Lowest bid an English auction accepts next, matching minimumBid in the contract.
+ */
+export function getMinimumBid(auction: Auction): bigint {
+  return auction.highestBid === 0n
+    ? auction.startPrice
+    : auction.highestBid + auction.minIncrement;
+}
+
+/**
+ * Price of a Dutch auction at a block time (seconds). It is rounded up, so paying it
+ * always passes the contract's check, and stays at endPrice once endTime has passed.
+ */
+export function getDutchAuctionPrice(auction: Auction, time: bigint): bigint {
+  if (time <= auction.startTime) {
+    return auction.startPrice;
+  }
+  const duration = auction.endTime - auction.startTime;
+  const elapsed = time < auction.endTime ? time - auction.startTime : duration;
+  return (
+    auction.startPrice -
+    ((auction.startPrice - auction.endPrice) * elapsed) / duration
+  );
+}
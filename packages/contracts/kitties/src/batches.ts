@@ -0,0 +1,56 @@
+/**
+ * @file batches.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+/**
+ * Number of kitty IDs the batch circuits take. Unused slots are 0, which is never a kitty ID.
+ */
+export const BATCH_SIZE = 10;
+
+/**
+ * Pad up to BATCH_SIZE kitty IDs with zeros into the vector the batch circuits expect.
+ */
+export function toBatch(kittyIds: bigint[]): bigint[] {
+  if (kittyIds.length > BATCH_SIZE) {
+    throw new Error(`A batch holds at most ${BATCH_SIZE} kitties`);
+  }
+  if (kittyIds.some((kittyId) => kittyId <= 0n)) {
+    throw new Error("Kitty IDs in a batch must be positive");
+  }
+  return [
+    ...kittyIds,
+    ...new Array<bigint>(BATCH_SIZE - kittyIds.length).fill(0n)
+  ];
+}
+
+/**
+ * Split any number of kitty IDs into padded batches of BATCH_SIZE, in order.
+ */
+export function splitIntoBatches(kittyIds: bigint[]): bigint[][] {
+  const batches: bigint[][] = [];
+  for (let i = 0; i < kittyIds.length; i += BATCH_SIZE) {
+    batches.push(toBatch(kittyIds.slice(i, i + BATCH_SIZE)));
+  }
+  return batches;
+}
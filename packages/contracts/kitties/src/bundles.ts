@@ -0,0 +1,52 @@
+/**
+ * @file bundles.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import type { Bundle } from "./managed/kitties/contract/index.cjs";
+import { toBatch } from "./batches.js";
+
+/**
+ * Fewest kitties a bundle can hold. At most it holds BATCH_SIZE.
+ */
+export const MIN_BUNDLE_SIZE = 2;
+
+/**
+ * Pad the kitty IDs of a new bundle with zeros into the vector createBundle expects.
+ */
+export function toBundle(kittyIds: bigint[]): bigint[] {
+  if (kittyIds.length < MIN_BUNDLE_SIZE) {
+    throw new Error(`A bundle needs at least ${MIN_BUNDLE_SIZE} kitties`);
+  }
+  if (new Set(kittyIds).size !== kittyIds.length) {
+    throw new Error("A kitty can only be in a bundle once");
+  }
+  return toBatch(kittyIds);
+}
+
+/**
+ * Kitty IDs in a bundle, leaving out the empty slots.
+ */
+export function getBundleKittyIds(bundle: Bundle): bigint[] {
+  return bundle.kittyIds.filter((kittyId) => kittyId !== 0n);
+}
@@ -0,0 +1,201 @@
+/**
+ * @file genome.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import type { Gene } from "./managed/kitties/contract/index.cjs";
+
+/**
+ * Gene slots in DNA order. Each slot packs a dominant and a recessive allele
+ * of one byte each, with the first slot in the most significant bytes.
+ */
+export const GENE_SLOTS = [
+  "body",
+  "pattern",
+  "eyeColor",
+  "eyeShape",
+  "baseColor",
+  "highlightColor",
+  "accentColor",
+  "mouth"
+] as const;
+
+export type GeneSlot = (typeof GENE_SLOTS)[number];
+
+/**
+ * Trait names for each gene slot. An allele selects its trait modulo the list length.
+ */
+export const TRAIT_NAMES: Record<GeneSlot, readonly string[]> = {
+  body: [
+    "Persian",
+    "Ragdoll",
+    "Siamese",
+    "Sphynx",
+    "Bengal",
+    "Himalayan",
+    "Maine Coon",
+    "Munchkin"
+  ],
+  pattern: [
+    "Solid",
+    "Tiger",
+    "Spotted",
+    "Calico",
+    "Tabby",
+    "Marbled",
+    "Tortoiseshell",
+    "Bicolor"
+  ],
+  eyeColor: [
+    "Gold",
+    "Sapphire",
+    "Emerald",
+    "Copper",
+    "Topaz",
+    "Mint",
+    "Strawberry",
+    "Cyan"
+  ],
+  eyeShape: [
+    "Round",
+    "Sleepy",
+    "Wide",
+    "Wink",
+    "Almond",
+    "Narrow",
+    "Sly",
+    "Droopy"
+  ],
+  baseColor: [
+    "Shadow Grey",
+    "Salmon",
+    "Orange",
+    "Cotton Candy",
+    "Mauve",
+    "Aquamarine",
+    "Cream",
+    "Black"
+  ],
+  highlightColor: [
+    "Cobalt",
+    "Lilac",
+    "Swamp Green",
+    "Kohl",
+    "Royal Purple",
+    "Chestnut",
+    "Bark Brown",
+    "Coffee"
+  ],
+  accentColor: [
+    "Belle Blue",
+    "Sandalwood",
+    "Peach",
+    "Icy",
+    "Granite",
+    "Kitten Cream",
+    "Emerald",
+    "Daffodil"
+  ],
+  mouth: [
+    "Smile",
+    "Whiskers",
+    "Pout",
+    "Grin",
+    "Beard",
+    "Tongue",
+    "Fangs",
+    "Grim"
+  ]
+};
+
+const GENE_BITS = 16n;
+const ALLELE_MASK = 0xffn;
+const GENOME_LIMIT = 1n << (GENE_BITS * BigInt(GENE_SLOTS.length));
+
+export interface Trait {
+  name: string; // Trait that shows, from the dominant allele
+  recessive: string; // Hidden trait that can still be inherited
+}
+
+export type KittyTraits = Record<GeneSlot, Trait>;
+
+/**
+ * Split kitty DNA into its gene slots, in GENE_SLOTS order.
+ * Throws if the DNA does not fit the genome layout.
+ */
+export function decodeGenes(dna: bigint): Gene[] {
+  if (dna < 0n || dna >= GENOME_LIMIT) {
+    throw new Error("DNA does not encode a kitty genome");
+  }
+  return GENE_SLOTS.map((_, index) => {
+    const shift = GENE_BITS * BigInt(GENE_SLOTS.length - 1 - index);
+    return {
+      dominant: (dna >> (shift + 8n)) & ALLELE_MASK,
+      recessive: (dna >> shift) & ALLELE_MASK
+    };
+  });
+}
+
+/**
+ * Pack gene slots into kitty DNA, matching packGenome in the contract.
+ */
+export function encodeGenes(genes: Gene[]): bigint {
+  return genes.reduce(
+    (dna, gene) => (dna << GENE_BITS) | (gene.dominant << 8n) | gene.recessive,
+    0n
+  );
+}
+
+/**
+ * Decode kitty DNA into named traits for each gene slot.
+ */
+export function decodeTraits(dna: bigint): KittyTraits {
+  const genes = decodeGenes(dna);
+  const traitName = (slot: GeneSlot, allele: bigint): string =>
+    TRAIT_NAMES[slot][Number(allele) % TRAIT_NAMES[slot].length];
+
+  return Object.fromEntries(
+    GENE_SLOTS.map((slot, index) => [
+      slot,
+      {
+        name: traitName(slot, genes[index].dominant),
+        recessive: traitName(slot, genes[index].recessive)
+      }
+    ])
+  ) as KittyTraits;
+}
+
+/**
+ * DNA with each allele that shows reduced to the index of its trait in TRAIT_NAMES
+ * and the recessive alleles cleared, so kitties that show the same traits share
+ * the same value. Kitties are drawn from it, so the picture only changes when
+ * one of the trait names decodeTraits gives does.
+ */
+export function expressedDNA(dna: bigint): bigint {
+  return encodeGenes(
+    decodeGenes(dna).map((gene, index) => ({
+      dominant: gene.dominant % BigInt(TRAIT_NAMES[GENE_SLOTS[index]].length),
+      recessive: 0n
+    }))
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * @file gifts.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type { Gift } from "./managed/kitties/contract/index.cjs";
+
+/**
+ * Lock of a gift with a secret, matching giftLock in the contract.
+ */
+export function getGiftLock(kittyId: bigint, secret: Uint8Array): Uint8Array {
+  return ContractModule.pureCircuits.giftLock(kittyId, secret);
+}
+
+/**
+ * Whether a secret opens the gift of a kitty, i.e. claimGift would accept it.
+ */
+export function opensGift(
+  kittyId: bigint,
+  secret: Uint8Array,
+  gift: Gift
+): boolean {
+  const lock = getGiftLock(kittyId, secret);
+  return lock.every((byte, index) => byte === gift.lock[index]);
+}
@@ -28,15 +28,90 @@ import type {
   Kitty,
   Ledger,
   Gender,
-  Offer
+  Gene,
+  GeneSeed,
+  RandomSplit,
+  RandomCommit,
+  PoolSnapshot,
+  ShieldedOwner,
+  Offer,
+  OfferStep,
+  OfferStatus,
+  Bundle,
+  BundleOffer,
+  Auction,
+  AuctionKind,
+  MintPolicy,
+  KittyMetadata,
+  Activity,
+  ActivityKind,
+  SealedAuction,
+  SealedBidOpening,
+  SealedBidState,
+  Gift,
+  Rental,
+  RentalKind,
+  AttestationPredicate,
+  Attestation,
+  ShieldedKittyOpening,
+  AllowlistTicket,
+  Accessory,
+  AccessorySlot,
+  KittyAccessories
 } from "./managed/kitties/contract/index.cjs";
 
 export const pureCircuits = ContractModule.pureCircuits;
 export * as Kitties from "./managed/kitties/contract/index.cjs";
 
 export * from "./witnesses.js";
-export type { KittiesPrivateState } from "./witnesses.js";
+export type { KittiesPrivateState, SealedBid } from "./witnesses.js";
 export { witnesses } from "./witnesses.js";
 export { createKittiesPrivateState } from "./witnesses.js";
+export * from "./genome.js";
+export * from "./shielded.js";
+export * from "./auctions.js";
+export * from "./sealed.js";
+export * from "./gifts.js";
+export * from "./attestations.js";
+export * from "./allowlist.js";
+export * from "./accessories.js";
+export * from "./royalties.js";
+export * from "./batches.js";
+export * from "./randomness.js";
+export * from "./bundles.js";
 // Re-export the types explicitly
-export type { Ledger, Kitty, Gender, Offer };
+export type {
+  Ledger,
+  Kitty,
+  Gender,
+  Gene,
+  GeneSeed,
+  RandomSplit,
+  RandomCommit,
+  PoolSnapshot,
+  ShieldedOwner,
+  Offer,
+  OfferStep,
+  OfferStatus,
+  Bundle,
+  BundleOffer,
+  Auction,
+  AuctionKind,
+  MintPolicy,
+  KittyMetadata,
+  Activity,
+  ActivityKind,
+  SealedAuction,
+  SealedBidOpening,
+  SealedBidState,
+  Gift,
+  Rental,
+  RentalKind,
+  AttestationPredicate,
+  Attestation,
+  ShieldedKittyOpening,
+  AllowlistTicket,
+  Accessory,
+  AccessorySlot,
+  KittyAccessories
+};
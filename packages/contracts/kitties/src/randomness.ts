@@ -0,0 +1,58 @@
+/**
+ * @file randomness.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type { Ledger } from "./managed/kitties/contract/index.cjs";
+
+/**
+ * Seconds from a commitment's commit time to its sealAfter, as set by commitRandomness.
+ */
+export const RANDOM_SEAL_DELAY = 600n;
+
+/**
+ * Time of the first pool snapshot taken at or after a time, or 0 if there is none yet.
+ * This is what the poolSnapshotTime witness hands to revealGeneSeeds. Snapshot times only grow, so
+ * a commitment can be revealed from its sealAfter on: if there is no snapshot yet, the reveal takes it.
+ */
+export function getPoolSnapshotTime(ledger: Ledger, after: bigint): bigint {
+  let first = 0n;
+  for (const [time] of ledger.poolSnapshots) {
+    if (time >= after && (first === 0n || time < first)) {
+      first = time;
+    }
+  }
+  return first;
+}
+
+/**
+ * Key a randomness commitment to a secret seed is stored under in randomCommits.
+ * With the secretSeed of a private state this finds its pending commitment.
+ */
+export function getRandomCommitKey(
+  ownerSecret: Uint8Array,
+  secretSeed: Uint8Array
+): Uint8Array {
+  return ContractModule.pureCircuits.randomCommitKey(ownerSecret, secretSeed);
+}
@@ -0,0 +1,43 @@
+/**
+ * @file royalties.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+/**
+ * Royalty rates are in basis points: 10000 is the full sale price.
+ */
+export const ROYALTY_BASIS_POINTS = 10_000n;
+
+/**
+ * Creator's share of a sale price at a royalty rate, rounded down like royaltyShare in the contract.
+ */
+export function getRoyaltyShare(price: bigint, rate: bigint): bigint {
+  return (price * rate) / ROYALTY_BASIS_POINTS;
+}
+
+/**
+ * Format a royalty rate in basis points as a percentage, e.g. 250n as '2.5%'.
+ */
+export function formatRoyaltyRate(rate: bigint): string {
+  return `${Number(rate) / 100}%`;
+}
@@ -0,0 +1,88 @@
+/**
+ * @file sealed.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type { KittiesPrivateState, SealedBid } from "./witnesses.js";
+import { getShieldedOwnerKey } from "./shielded.js";
+
+/**
+ * Commitment of a sealed bid placed with an owner secret, matching callerSealedBid in the contract.
+ */
+export function getSealedBidCommitment(
+  ownerSecret: Uint8Array,
+  bid: SealedBid
+): Uint8Array {
+  return ContractModule.pureCircuits.sealedBidCommitment(
+    getShieldedOwnerKey(ownerSecret),
+    bid.kittyId,
+    bid.bidEndTime,
+    bid.price,
+    bid.salt
+  );
+}
+
+/**
+ * The user's sealed bid on a kitty, if they have one.
+ */
+export function getSealedBid(
+  privateState: KittiesPrivateState,
+  kittyId: bigint
+): SealedBid | undefined {
+  return privateState.sealedBids?.find((bid) => bid.kittyId === kittyId);
+}
+
+/**
+ * Private state with a new sealed bid. A user holds one sealed bid per kitty,
+ * so an earlier one must be withdrawn first.
+ */
+export function addSealedBid(
+  privateState: KittiesPrivateState,
+  bid: SealedBid
+): KittiesPrivateState {
+  if (getSealedBid(privateState, bid.kittyId)) {
+    throw new Error(
+      `Existing sealed bid on kitty ${bid.kittyId}, withdraw it first`
+    );
+  }
+  return {
+    ...privateState,
+    sealedBids: [...(privateState.sealedBids ?? []), bid]
+  };
+}
+
+/**
+ * Private state without the sealed bid on a kitty.
+ */
+export function removeSealedBid(
+  privateState: KittiesPrivateState,
+  kittyId: bigint
+): KittiesPrivateState {
+  return {
+    ...privateState,
+    sealedBids: (privateState.sealedBids ?? []).filter(
+      (bid) => bid.kittyId !== kittyId
+    )
+  };
+}
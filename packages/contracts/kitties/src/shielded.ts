@@ -0,0 +1,91 @@
+/**
+ * @file shielded.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ *
+ * Copyright (C) 2025 Ricardo Rius
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ *
+ * DISCLAIMER: This software is provided "as is" without any warranty.
+ * Use at your own risk. The author assumes no responsibility for any
+ * damages or losses arising from the use of this software.
+ */
+
+import ContractModule from "./managed/kitties/contract/index.cjs";
+import type {
+  Ledger,
+  ShieldedOwner
+} from "./managed/kitties/contract/index.cjs";
+
+/**
+ * Public key that holds every shielded kitty, matching shieldedVault in the contract.
+ */
+export const SHIELDED_VAULT_KEY: Uint8Array = (() => {
+  const bytes = new Uint8Array(32);
+  bytes.set(new TextEncoder().encode("kitties:shielded"));
+  return bytes;
+})();
+
+/**
+ * Whether a kitty owner is the shielded vault, i.e. the real owner is hidden.
+ */
+export function isShieldedVault(owner: { bytes: Uint8Array }): boolean {
+  return (
+    owner.bytes.length === SHIELDED_VAULT_KEY.length &&
+    owner.bytes.every((byte, index) => byte === SHIELDED_VAULT_KEY[index])
+  );
+}
+
+/**
+ * Owner key for an owner secret. This is what senders of shielded kitties need.
+ */
+export function getShieldedOwnerKey(ownerSecret: Uint8Array): Uint8Array {
+  return ContractModule.pureCircuits.shieldedOwnerKey(ownerSecret);
+}
+
+/**
+ * Whether an owner key opens the owner commitment of a shielded kitty.
+ */
+export function ownsShieldedKitty(
+  ownerKey: Uint8Array,
+  kittyId: bigint,
+  owner: ShieldedOwner
+): boolean {
+  const commitment = ContractModule.pureCircuits.shieldedOwnerCommitment(
+    ownerKey,
+    kittyId,
+    owner.round
+  );
+  return commitment.every((byte, index) => byte === owner.commitment[index]);
+}
+
+/**
+ * Lowest mint index whose generation 0 nullifier an owner secret hasn't left
+ * on the ledger yet, i.e. the index of its next shielded mint.
+ */
+export function getGen0MintIndex(
+  ledger: Ledger,
+  ownerSecret: Uint8Array
+): bigint {
+  let index = 0n;
+  while (
+    ledger.gen0Nullifiers.member(
+      ContractModule.pureCircuits.gen0MintNullifier(ownerSecret, index)
+    )
+  ) {
+    index++;
+  }
+  return index;
+}
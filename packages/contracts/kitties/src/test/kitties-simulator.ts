@@ -28,125 +28,1330 @@ import {
   QueryContext,
   sampleContractAddress,
   constructorContext,
-  type CoinPublicKey
+  type CoinPublicKey,
+  type MerkleTreeDigest
 } from "@midnight-ntwrk/compact-runtime";
 import {
   Contract,
+  type Accessory,
+  type AccessorySlot,
+  type ActivityKind,
+  type AllowlistTicket,
+  type Attestation,
+  type AttestationPredicate,
+  type Bundle,
+  type BundleOffer,
+  type Gift,
+  type Kitty,
+  type KittyAccessories,
+  type KittyMetadata,
   type Ledger,
+  type RandomCommit,
+  type Rental,
+  type RentalKind,
+  type SealedAuction,
+  type ShieldedOwner,
   ledger
 } from "../managed/kitties/contract/index.cjs";
-import { type KittiesPrivateState, witnesses } from "../witnesses.js";
+import {
+  type KittiesPrivateState,
+  createKittiesPrivateState,
+  witnesses
+} from "../witnesses.js";
+import { getShieldedOwnerKey, ownsShieldedKitty } from "../shielded.js";
+import { toBatch } from "../batches.js";
+import { toBundle } from "../bundles.js";
+import { addSealedBid, removeSealedBid } from "../sealed.js";
+import { getGiftLock } from "../gifts.js";
+import { setAllowlistTicket } from "../allowlist.js";
+import { getPresenterKey } from "../attestations.js";
+import { RANDOM_SEAL_DELAY, getRandomCommitKey } from "../randomness.js";
 import { toHex, fromHex, isHex } from "@midnight-ntwrk/midnight-js-utils";
 import { TextEncoder } from "util";
 
-export class KittiesSimulator {
-  readonly contract: Contract<KittiesPrivateState>;
-  private baseContext: CircuitContext<KittiesPrivateState>;
+// Block time (seconds) a new simulator starts at
+const START_TIME = 1_000n;
+
+export class KittiesSimulator {
+  readonly contract: Contract<KittiesPrivateState>;
+  private baseContext: CircuitContext<KittiesPrivateState>;
+  // Private state of each user that has been switched away from
+  private privateStates = new Map<CoinPublicKey, KittiesPrivateState>();
+
+  /**
+   * @param royaltyRate - Share of each sale paid to the kitty's creator, in basis points
+   */
+  constructor(royaltyRate: bigint = 0n) {
+    this.contract = new Contract<KittiesPrivateState>(witnesses);
+    const {
+      currentPrivateState,
+      currentContractState,
+      currentZswapLocalState
+    } = this.contract.initialState(
+      constructorContext(
+        this.createPrivateState(),
+        this.createPublicKey("Alice")
+      ),
+      royaltyRate
+    );
+    this.baseContext = {
+      currentPrivateState,
+      currentZswapLocalState,
+      originalState: currentContractState,
+      transactionContext: new QueryContext(
+        currentContractState.data,
+        sampleContractAddress()
+      )
+    };
+    // Start late enough that a commitment can be made ten minutes before the first reveal
+    this.setBlockTime(START_TIME);
+  }
+
+  // === Contract State Access ===
+
+  public getLedger(): Ledger {
+    return ledger(this.baseContext.originalState.data);
+  }
+
+  public getPrivateState(): KittiesPrivateState {
+    return this.baseContext.currentPrivateState;
+  }
+
+  /**
+   * Replace the current user's private state
+   */
+  public setPrivateState(privateState: KittiesPrivateState): void {
+    this.baseContext.currentPrivateState = privateState;
+  }
+
+  // === Commit-Reveal Randomness ===
+
+  /**
+   * Commit to a fresh secret seed for the current user's next new kitty
+   */
+  public commitRandomness(commitTime: bigint = this.getBlockTime()): void {
+    const result = this.contract.impureCircuits.commitRandomness(
+      this.baseContext,
+      commitTime
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Get a user's unrevealed randomness commitment, the one their current secret seed commits to
+   */
+  public getRandomCommit(user: CoinPublicKey): RandomCommit {
+    return this.getLedger().randomCommits.lookup(this.getRandomCommitKey(user));
+  }
+
+  /**
+   * Check whether a user has an unrevealed randomness commitment
+   */
+  public hasRandomCommit(user: CoinPublicKey): boolean {
+    return this.getLedger().randomCommits.member(this.getRandomCommitKey(user));
+  }
+
+  /**
+   * Key of the commitment to a user's current secret seed
+   */
+  public getRandomCommitKey(user: CoinPublicKey): Uint8Array {
+    const privateState =
+      user === this.getCurrentUser()
+        ? this.getPrivateState()
+        : this.privateStates.get(user);
+    if (!privateState) {
+      throw new Error("No private state for user");
+    }
+    return getRandomCommitKey(
+      privateState.ownerSecret,
+      privateState.secretSeed
+    );
+  }
+
+  /**
+   * Commit to randomness as if ten minutes ago, so the commitment is sealed by now, unless the
+   * current user has a commitment that hasn't expired
+   */
+  private ensureRandomCommit(): void {
+    const user = this.getCurrentUser();
+    const now = this.getBlockTime();
+    if (
+      !this.hasRandomCommit(user) ||
+      this.getRandomCommit(user).deadline <= now
+    ) {
+      this.setBlockTime(now - RANDOM_SEAL_DELAY);
+      try {
+        this.commitRandomness();
+      } finally {
+        this.setBlockTime(now);
+      }
+    }
+  }
+
+  // === Administration ===
+
+  /**
+   * Stop state-changing operations (admin only)
+   */
+  public pause(): void {
+    const result = this.contract.impureCircuits.pause(this.baseContext);
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Resume operations after a pause (admin only)
+   */
+  public unpause(): void {
+    const result = this.contract.impureCircuits.unpause(this.baseContext);
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Replace the generation 0 mint policy (admin only)
+   */
+  public setMintPolicy(
+    maxGen0Supply: bigint,
+    walletLimit: bigint,
+    mintFee: bigint
+  ): void {
+    const result = this.contract.impureCircuits.setMintPolicy(
+      this.baseContext,
+      maxGen0Supply,
+      walletLimit,
+      mintFee
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Hand the admin role to another address (admin only)
+   */
+  public transferAdmin(newAdmin: CoinPublicKey): void {
+    const result = this.contract.impureCircuits.transferAdmin(
+      this.baseContext,
+      this.publicKeyToBytes(newAdmin)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Get the current admin
+   */
+  public getAdmin(): CoinPublicKey {
+    return this.bytesToPublicKey(this.getLedger().admin);
+  }
+
+  /**
+   * Check whether the contract is paused
+   */
+  public isPaused(): boolean {
+    return this.getLedger().paused;
+  }
+
+  /**
+   * Get the generation 0 mint policy (0 disables a limit or the fee)
+   */
+  public getMintPolicy(): {
+    maxGen0Supply: bigint;
+    walletLimit: bigint;
+    mintFee: bigint;
+  } {
+    return this.getLedger().mintPolicy;
+  }
+
+  // === Allowlist ===
+
+  /**
+   * Publish the root of an allowlist tree, or the default digest to open minting (admin only)
+   */
+  public setAllowlistRoot(root: MerkleTreeDigest): void {
+    const result = this.contract.impureCircuits.setAllowlistRoot(
+      this.baseContext,
+      root
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Get the published allowlist root (field 0 while minting is open)
+   */
+  public getAllowlistRoot(): MerkleTreeDigest {
+    return this.getLedger().allowlistRoot;
+  }
+
+  /**
+   * Keep an allowlist ticket in the current user's private state for their next mints
+   */
+  public useAllowlistTicket(ticket: AllowlistTicket): void {
+    this.setPrivateState(setAllowlistTicket(this.getPrivateState(), ticket));
+  }
+
+  /**
+   * Get the number of kitties minted with the allowlist entry behind a leaf
+   */
+  public getAllowlistMinted(leaf: Uint8Array): bigint {
+    const minted = this.getLedger().allowlistMinted;
+    return minted.member(leaf) ? minted.lookup(leaf) : 0n;
+  }
+
+  // === Migration ===
+
+  /**
+   * Open the import on a fresh deployment (admin only)
+   */
+  public openImport(): void {
+    const result = this.contract.impureCircuits.openImport(this.baseContext);
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Recreate a kitty from another deployment under the same ID (admin only, while paused).
+   * Pass the kitty's metadata and, for a shielded kitty, its owner commitment as stored there.
+   */
+  public importKitty(
+    kittyId: bigint,
+    kitty: Kitty,
+    metadata: KittyMetadata = {
+      name: new Uint8Array(32),
+      uri: new Uint8Array(128)
+    },
+    shieldedOwner: ShieldedOwner = {
+      commitment: new Uint8Array(32),
+      round: 0n
+    }
+  ): void {
+    const result = this.contract.impureCircuits.importKitty(
+      this.baseContext,
+      kittyId,
+      kitty,
+      metadata,
+      shieldedOwner
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Restore an account's count of generation 0 kitties minted publicly in another deployment (admin only, while paused)
+   */
+  public importGen0Minted(account: CoinPublicKey, minted: bigint): void {
+    const result = this.contract.impureCircuits.importGen0Minted(
+      this.baseContext,
+      this.publicKeyToBytes(account),
+      minted
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Restore the nullifier of a shielded generation 0 mint in another deployment (admin only, while paused)
+   */
+  public importGen0Nullifier(nullifier: Uint8Array): void {
+    const result = this.contract.impureCircuits.importGen0Nullifier(
+      this.baseContext,
+      nullifier
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Restore the number of kitties minted with an allowlist entry in another deployment (admin only, while paused)
+   */
+  public importAllowlistMinted(leaf: Uint8Array, minted: bigint): void {
+    const result = this.contract.impureCircuits.importAllowlistMinted(
+      this.baseContext,
+      leaf,
+      minted
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Close the import, counting the old deployment's kitty and generation 0 totals (admin only)
+   */
+  public finishImport(totalCount: bigint, gen0Total: bigint): void {
+    const result = this.contract.impureCircuits.finishImport(
+      this.baseContext,
+      totalCount,
+      gen0Total
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Check whether kitties can still be imported
+   */
+  public isImportOpen(): boolean {
+    return this.getLedger().importOpen;
+  }
+
+  // === Activity Log ===
+
+  /**
+   * Get the entries still held in the activity log, oldest first, with accounts as public keys
+   */
+  public getActivity(): Array<{
+    seq: bigint;
+    kind: ActivityKind;
+    kittyId: bigint;
+    from: CoinPublicKey;
+    to: CoinPublicKey;
+    amount: bigint;
+  }> {
+    return Array.from(this.getLedger().activityLog)
+      .map(([seq, activity]) => ({
+        seq,
+        kind: activity.kind,
+        kittyId: activity.kittyId,
+        from: this.bytesToPublicKey(activity.from),
+        to: this.bytesToPublicKey(activity.to),
+        amount: activity.amount
+      }))
+      .sort((a, b) => (a.seq < b.seq ? -1 : 1));
+  }
+
+  // === Kitty Creation and Management ===
+
+  /**
+   * Create a new kitty (mints NFT automatically), paying the current mint fee.
+   * Runs both phases: commits to randomness if needed, then reveals it.
+   */
+  public createKitty(
+    birthTime: bigint = this.getBlockTime(),
+    payment: bigint = this.getMintPolicy().mintFee
+  ): void {
+    this.ensureRandomCommit();
+    this.revealKitty(birthTime, payment);
+  }
+
+  /**
+   * Reveal the pending randomness commitment to mint a new kitty
+   */
+  public revealKitty(
+    birthTime: bigint = this.getBlockTime(),
+    payment: bigint = this.getMintPolicy().mintFee
+  ): void {
+    const result = this.contract.impureCircuits.createKitty(
+      this.baseContext,
+      birthTime,
+      this.createCoin(payment)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Create a new shielded kitty owned through the current user's owner secret.
+   * Runs both phases: commits to randomness if needed, then reveals it.
+   */
+  public createShieldedKitty(
+    birthTime: bigint = this.getBlockTime(),
+    payment: bigint = this.getMintPolicy().mintFee
+  ): void {
+    this.ensureRandomCommit();
+    const result = this.contract.impureCircuits.createShieldedKitty(
+      this.baseContext,
+      birthTime,
+      this.createCoin(payment)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Transfer a kitty to another address
+   */
+  public transferKitty(to: CoinPublicKey, kittyId: bigint): void {
+    const result = this.contract.impureCircuits.transferKitty(
+      this.baseContext,
+      this.publicKeyToBytes(to),
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Name a kitty and set its metadata URI (owner only)
+   */
+  public setKittyMetadata(
+    kittyId: bigint,
+    name: string,
+    uri: string = ""
+  ): void {
+    const result = this.contract.impureCircuits.setKittyMetadata(
+      this.baseContext,
+      kittyId,
+      this.textToBytes(name, 32),
+      this.textToBytes(uri, 128)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Burn a kitty (owner or approved operator)
+   */
+  public burnKitty(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.burnKitty(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Set the price for a kitty
+   */
+  public setPrice(kittyId: bigint, price: bigint): void {
+    const result = this.contract.impureCircuits.setPrice(
+      this.baseContext,
+      kittyId,
+      price
+    );
+    this.baseContext = result.context;
+  }
+
+  // === Batch Operations ===
+
+  /**
+   * Transfer up to 10 kitties to the same address in one circuit call
+   */
+  public batchTransferKitty(to: CoinPublicKey, kittyIds: bigint[]): void {
+    const result = this.contract.impureCircuits.batchTransferKitty(
+      this.baseContext,
+      this.publicKeyToBytes(to),
+      toBatch(kittyIds)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Set the same price on up to 10 kitties in one circuit call
+   */
+  public batchSetPrice(kittyIds: bigint[], price: bigint): void {
+    const result = this.contract.impureCircuits.batchSetPrice(
+      this.baseContext,
+      toBatch(kittyIds),
+      price
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Take up to 10 kitties off sale in one circuit call
+   */
+  public batchCancelListing(kittyIds: bigint[]): void {
+    const result = this.contract.impureCircuits.batchCancelListing(
+      this.baseContext,
+      toBatch(kittyIds)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Buy a kitty that is for sale, escrowing a native token coin for the bid.
+   * The escrowed amount defaults to the bid price and the offer never expires by default.
+   */
+  public createBuyOffer(
+    kittyId: bigint,
+    bidPrice: bigint,
+    escrowAmount: bigint = bidPrice,
+    expiresAt: bigint = 0n
+  ): void {
+    const result = this.contract.impureCircuits.createBuyOffer(
+      this.baseContext,
+      kittyId,
+      bidPrice,
+      expiresAt,
+      this.createCoin(escrowAmount)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Cancel the current user's offer for a kitty
+   */
+  public cancelOffer(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.cancelOffer(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Reject a buyer's offer for a kitty (owner only)
+   */
+  public rejectOffer(kittyId: bigint, buyer: CoinPublicKey): void {
+    const result = this.contract.impureCircuits.rejectOffer(
+      this.baseContext,
+      kittyId,
+      this.publicKeyToBytes(buyer)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Approve an offer for a kitty (owner approves buyer's offer)
+   */
+  public approveOffer(kittyId: bigint, buyer: CoinPublicKey): void {
+    const result = this.contract.impureCircuits.approveOffer(
+      this.baseContext,
+      kittyId,
+      this.publicKeyToBytes(buyer)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Answer a buyer's open offer with a higher price (owner only)
+   */
+  public counterOffer(
+    kittyId: bigint,
+    buyer: CoinPublicKey,
+    counterPrice: bigint
+  ): void {
+    const result = this.contract.impureCircuits.counterOffer(
+      this.baseContext,
+      kittyId,
+      this.publicKeyToBytes(buyer),
+      counterPrice
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Buy a kitty at the price its owner countered the current user's offer with.
+   * The payment defaults to the difference between the counter price and the escrowed bid.
+   */
+  public acceptCounterOffer(kittyId: bigint, payment?: bigint): void {
+    const offer = this.getOffer(kittyId, this.getCurrentUser());
+    const result = this.contract.impureCircuits.acceptCounterOffer(
+      this.baseContext,
+      kittyId,
+      this.createCoin(payment ?? offer.counterPrice - offer.price)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Withdraw escrowed funds for an offer that is no longer active
+   */
+  public withdrawRefund(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.withdrawRefund(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  // === Bundles ===
+
+  /**
+   * List 2 to 10 of the current user's kitties for sale as one bundle
+   */
+  public createBundle(kittyIds: bigint[], price: bigint): void {
+    const result = this.contract.impureCircuits.createBundle(
+      this.baseContext,
+      toBundle(kittyIds),
+      price
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Take a bundle off sale (seller only)
+   */
+  public cancelBundle(bundleId: bigint): void {
+    const result = this.contract.impureCircuits.cancelBundle(
+      this.baseContext,
+      bundleId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Make an offer on a bundle, escrowing a native token coin for the bid.
+   * The escrowed amount defaults to the bid price and the offer never expires by default.
+   */
+  public createBundleOffer(
+    bundleId: bigint,
+    bidPrice: bigint,
+    escrowAmount: bigint = bidPrice,
+    expiresAt: bigint = 0n
+  ): void {
+    const result = this.contract.impureCircuits.createBundleOffer(
+      this.baseContext,
+      bundleId,
+      bidPrice,
+      expiresAt,
+      this.createCoin(escrowAmount)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Approve an offer on a bundle (seller approves buyer's offer)
+   */
+  public approveBundleOffer(bundleId: bigint, buyer: CoinPublicKey): void {
+    const result = this.contract.impureCircuits.approveBundleOffer(
+      this.baseContext,
+      bundleId,
+      this.publicKeyToBytes(buyer)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Cancel the current user's offer on a bundle
+   */
+  public cancelBundleOffer(bundleId: bigint): void {
+    const result = this.contract.impureCircuits.cancelBundleOffer(
+      this.baseContext,
+      bundleId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Reject a buyer's offer on a bundle (seller only)
+   */
+  public rejectBundleOffer(bundleId: bigint, buyer: CoinPublicKey): void {
+    const result = this.contract.impureCircuits.rejectBundleOffer(
+      this.baseContext,
+      bundleId,
+      this.publicKeyToBytes(buyer)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Withdraw escrowed funds for a bundle offer that is no longer active
+   */
+  public withdrawBundleRefund(bundleId: bigint): void {
+    const result = this.contract.impureCircuits.withdrawBundleRefund(
+      this.baseContext,
+      bundleId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Get a bundle (default values if it doesn't exist or was dropped)
+   */
+  public getBundle(bundleId: bigint): Bundle {
+    const result = this.contract.circuits.getBundle(this.baseContext, bundleId);
+    return result.result;
+  }
+
+  /**
+   * Get a buyer's offer on a bundle
+   */
+  public getBundleOffer(bundleId: bigint, buyer: CoinPublicKey): BundleOffer {
+    const result = this.contract.circuits.getBundleOffer(
+      this.baseContext,
+      bundleId,
+      this.publicKeyToBytes(buyer)
+    );
+    return result.result;
+  }
+
+  /**
+   * Get the amount escrowed by a buyer for a bundle
+   */
+  public getBundleEscrow(bundleId: bigint, buyer: CoinPublicKey): bigint {
+    const result = this.contract.circuits.getBundleEscrow(
+      this.baseContext,
+      bundleId,
+      this.publicKeyToBytes(buyer)
+    );
+    return result.result;
+  }
+
+  /**
+   * Get the bundle a kitty is listed in, 0 if none
+   */
+  public getKittyBundle(kittyId: bigint): bigint {
+    const kittyBundles = this.getLedger().kittyBundles;
+    return kittyBundles.member(kittyId) ? kittyBundles.lookup(kittyId) : 0n;
+  }
+
+  /**
+   * List a kitty in an English auction with a reserve price and minimum increment
+   */
+  public createEnglishAuction(
+    kittyId: bigint,
+    reservePrice: bigint,
+    minIncrement: bigint,
+    endTime: bigint
+  ): void {
+    const result = this.contract.impureCircuits.createEnglishAuction(
+      this.baseContext,
+      kittyId,
+      reservePrice,
+      minIncrement,
+      endTime
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * List a kitty in a Dutch auction. The start time defaults to the current block time.
+   */
+  public createDutchAuction(
+    kittyId: bigint,
+    startPrice: bigint,
+    endPrice: bigint,
+    duration: bigint,
+    startTime: bigint = this.getBlockTime()
+  ): void {
+    const result = this.contract.impureCircuits.createDutchAuction(
+      this.baseContext,
+      kittyId,
+      startPrice,
+      endPrice,
+      duration,
+      startTime
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Bid in an English auction, escrowing a native token coin.
+   * The escrowed amount defaults to the bid price.
+   */
+  public bidOnAuction(
+    kittyId: bigint,
+    bidPrice: bigint,
+    escrowAmount: bigint = bidPrice
+  ): void {
+    const result = this.contract.impureCircuits.bidOnAuction(
+      this.baseContext,
+      kittyId,
+      bidPrice,
+      this.createCoin(escrowAmount)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Settle an English auction that has ended
+   */
+  public settleAuction(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.settleAuction(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Buy a kitty from a Dutch auction with a native token coin.
+   * The buy time defaults to the current block time.
+   */
+  public buyDutchAuction(
+    kittyId: bigint,
+    payment: bigint,
+    buyTime: bigint = this.getBlockTime()
+  ): void {
+    const result = this.contract.impureCircuits.buyDutchAuction(
+      this.baseContext,
+      kittyId,
+      buyTime,
+      this.createCoin(payment)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Cancel one of the current user's auctions
+   */
+  public cancelAuction(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.cancelAuction(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  // === Sealed-Bid Auctions ===
+
+  /**
+   * List a kitty in a sealed-bid auction. Every bid escrows the deposit, which caps the bids.
+   */
+  public createSealedAuction(
+    kittyId: bigint,
+    reservePrice: bigint,
+    deposit: bigint,
+    bidEndTime: bigint,
+    revealEndTime: bigint
+  ): void {
+    const result = this.contract.impureCircuits.createSealedAuction(
+      this.baseContext,
+      kittyId,
+      reservePrice,
+      deposit,
+      bidEndTime,
+      revealEndTime
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Place a sealed bid, keeping its opening in the current user's private state.
+   * The escrowed amount defaults to the auction's deposit. If the bid is rejected,
+   * the private state is left as it was.
+   */
+  public commitSealedBid(
+    kittyId: bigint,
+    price: bigint,
+    escrowAmount: bigint = this.getSealedAuction(kittyId).deposit
+  ): void {
+    const privateState = this.getPrivateState();
+    this.setPrivateState(
+      addSealedBid(privateState, {
+        kittyId,
+        bidEndTime: this.getSealedAuction(kittyId).bidEndTime,
+        price,
+        salt: this.createSecretSeed()
+      })
+    );
+    try {
+      const result = this.contract.impureCircuits.commitSealedBid(
+        this.baseContext,
+        kittyId,
+        this.createCoin(escrowAmount)
+      );
+      this.baseContext = result.context;
+    } catch (error) {
+      this.setPrivateState(privateState);
+      throw error;
+    }
+  }
+
+  /**
+   * Reveal the current user's sealed bid on a kitty
+   */
+  public revealSealedBid(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.revealSealedBid(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Settle a sealed-bid auction whose reveal period has ended
+   */
+  public settleSealedAuction(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.settleSealedAuction(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Cancel one of the current user's sealed-bid auctions
+   */
+  public cancelSealedAuction(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.cancelSealedAuction(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Withdraw the deposit of the current user's sealed bid and forget the bid
+   */
+  public withdrawSealedBid(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.withdrawSealedBid(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+    this.setPrivateState(removeSealedBid(this.getPrivateState(), kittyId));
+  }
+
+  /**
+   * Claim the deposit of a sealed bid never revealed in one of the current user's sealed-bid auctions
+   */
+  public claimSealedBidDeposit(kittyId: bigint, commitment: Uint8Array): void {
+    const result = this.contract.impureCircuits.claimSealedBidDeposit(
+      this.baseContext,
+      kittyId,
+      commitment
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Get a kitty's sealed-bid auction (all zeros if it isn't on one)
+   */
+  public getSealedAuction(kittyId: bigint): SealedAuction {
+    const result = this.contract.circuits.getSealedAuction(
+      this.baseContext,
+      kittyId
+    );
+    return result.result;
+  }
+
+  /**
+   * Get the number of sealed bids on a kitty whose deposits are still escrowed
+   */
+  public getSealedBidDeposits(kittyId: bigint): bigint {
+    const escrow = this.getLedger().sealedBidEscrow;
+    return escrow.member(kittyId) ? escrow.lookup(kittyId).size() : 0n;
+  }
+
+  // === Gifts ===
+
+  /**
+   * Lock one of the current user's kitties in a gift, returning the secret that claims it
+   */
+  public createGift(
+    kittyId: bigint,
+    secret: Uint8Array = this.createSecretSeed()
+  ): Uint8Array {
+    const result = this.contract.impureCircuits.createGift(
+      this.baseContext,
+      kittyId,
+      getGiftLock(kittyId, secret)
+    );
+    this.baseContext = result.context;
+    return secret;
+  }
+
+  /**
+   * Claim a gifted kitty to the current user with its secret
+   */
+  public claimGift(kittyId: bigint, secret: Uint8Array): void {
+    const result = this.contract.impureCircuits.claimGift(
+      this.baseContext,
+      kittyId,
+      secret
+    );
+    this.baseContext = result.context;
+  }
 
-  constructor() {
-    this.contract = new Contract<KittiesPrivateState>(witnesses);
-    const {
-      currentPrivateState,
-      currentContractState,
-      currentZswapLocalState
-    } = this.contract.initialState(
-      constructorContext({}, this.createPublicKey("Alice"))
+  /**
+   * Take back one of the current user's unclaimed gifts
+   */
+  public reclaimGift(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.reclaimGift(
+      this.baseContext,
+      kittyId
     );
-    this.baseContext = {
-      currentPrivateState,
-      currentZswapLocalState,
-      originalState: currentContractState,
-      transactionContext: new QueryContext(
-        currentContractState.data,
-        sampleContractAddress()
-      )
-    };
+    this.baseContext = result.context;
   }
 
-  // === Contract State Access ===
+  /**
+   * Get a kitty's gift (all zeros if it isn't gifted)
+   */
+  public getGift(kittyId: bigint): Gift {
+    const result = this.contract.circuits.getGift(this.baseContext, kittyId);
+    return result.result;
+  }
 
-  public getLedger(): Ledger {
-    return ledger(this.baseContext.originalState.data);
+  // === Rentals ===
+
+  /**
+   * Offer one of the current user's kitties to a borrower until endTime, for a fee
+   */
+  public offerRental(
+    kittyId: bigint,
+    borrower: CoinPublicKey,
+    kind: RentalKind,
+    endTime: bigint,
+    fee: bigint = 0n
+  ): void {
+    const result = this.contract.impureCircuits.offerRental(
+      this.baseContext,
+      kittyId,
+      this.publicKeyToBytes(borrower),
+      kind,
+      endTime,
+      fee
+    );
+    this.baseContext = result.context;
   }
 
-  public getPrivateState(): KittiesPrivateState {
-    return this.baseContext.currentPrivateState;
+  /**
+   * Accept a rental offered to the current user, paying its fee
+   */
+  public acceptRental(
+    kittyId: bigint,
+    payment: bigint = this.getRental(kittyId).fee
+  ): void {
+    const result = this.contract.impureCircuits.acceptRental(
+      this.baseContext,
+      kittyId,
+      this.createCoin(payment)
+    );
+    this.baseContext = result.context;
   }
 
-  // === Kitty Creation and Management ===
+  /**
+   * End a rental, or withdraw a rental offer, returning the kitty to its lender
+   */
+  public endRental(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.endRental(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
 
   /**
-   * Create a new kitty (mints NFT automatically)
+   * Get a kitty's rental (all zeros if it has none)
    */
-  public createKitty(): void {
-    const result = this.contract.impureCircuits.createKitty(this.baseContext);
+  public getRental(kittyId: bigint): Rental {
+    const result = this.contract.circuits.getRental(this.baseContext, kittyId);
+    return result.result;
+  }
+
+  /**
+   * Breed two kitties to create a new offspring.
+   * Runs both phases: commits to randomness if needed, then reveals it.
+   * The breed time defaults to the current block time.
+   */
+  public breedKitty(
+    kittyId1: bigint,
+    kittyId2: bigint,
+    breedTime: bigint = this.getBlockTime()
+  ): void {
+    this.ensureRandomCommit();
+    this.revealBreeding(kittyId1, kittyId2, breedTime);
+  }
+
+  /**
+   * Reveal the pending randomness commitment to breed two kitties
+   */
+  public revealBreeding(
+    kittyId1: bigint,
+    kittyId2: bigint,
+    breedTime: bigint = this.getBlockTime()
+  ): void {
+    const result = this.contract.impureCircuits.breedKitty(
+      this.baseContext,
+      kittyId1,
+      kittyId2,
+      breedTime
+    );
     this.baseContext = result.context;
   }
 
   /**
-   * Transfer a kitty to another address
+   * Breed two kitties into a shielded offspring owned by the current user.
+   * Runs both phases: commits to randomness if needed, then reveals it.
    */
-  public transferKitty(to: CoinPublicKey, kittyId: bigint): void {
-    const result = this.contract.impureCircuits.transferKitty(
+  public breedShieldedKitty(
+    kittyId1: bigint,
+    kittyId2: bigint,
+    breedTime: bigint = this.getBlockTime()
+  ): void {
+    this.ensureRandomCommit();
+    const result = this.contract.impureCircuits.breedShieldedKitty(
+      this.baseContext,
+      kittyId1,
+      kittyId2,
+      breedTime
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Allow another address to use a kitty as a parent when breeding
+   */
+  public approveSiring(kittyId: bigint, to: CoinPublicKey): void {
+    const result = this.contract.impureCircuits.approveSiring(
+      this.baseContext,
+      kittyId,
+      this.publicKeyToBytes(to)
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Revoke the siring approval of a kitty
+   */
+  public revokeSiring(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.revokeSiring(
       this.baseContext,
-      this.publicKeyToBytes(to),
       kittyId
     );
     this.baseContext = result.context;
   }
 
+  // === Shielded Ownership ===
+
   /**
-   * Set the price for a kitty
+   * Move one of the current user's public kitties into shielded ownership
    */
-  public setPrice(kittyId: bigint, price: bigint): void {
-    const result = this.contract.impureCircuits.setPrice(
+  public shieldKitty(kittyId: bigint): void {
+    const result = this.contract.impureCircuits.shieldKitty(
+      this.baseContext,
+      kittyId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Transfer a shielded kitty to the holder of an owner key
+   */
+  public transferShieldedKitty(kittyId: bigint, toOwnerKey: Uint8Array): void {
+    const result = this.contract.impureCircuits.transferShieldedKitty(
       this.baseContext,
       kittyId,
-      price
+      toOwnerKey
     );
     this.baseContext = result.context;
   }
 
   /**
-   * Buy a kitty that is for sale
+   * Get the current user's owner key for receiving shielded kitties
    */
-  public createBuyOffer(kittyId: bigint, bidPrice: bigint): void {
-    const result = this.contract.impureCircuits.createBuyOffer(
+  public getShieldedOwnerKey(): Uint8Array {
+    return getShieldedOwnerKey(this.getPrivateState().ownerSecret);
+  }
+
+  /**
+   * Check whether the current user owns a shielded kitty, using only their private state
+   */
+  public ownsShieldedKitty(kittyId: bigint): boolean {
+    const shieldedOwners = this.getLedger().shieldedOwners;
+    return (
+      shieldedOwners.member(kittyId) &&
+      ownsShieldedKitty(
+        this.getShieldedOwnerKey(),
+        kittyId,
+        shieldedOwners.lookup(kittyId)
+      )
+    );
+  }
+
+  // === Attestations ===
+
+  /**
+   * Attest that the current user owns a shielded kitty matching a predicate, for whoever presents
+   * the presenter secret, returning the attestation ID
+   */
+  public attestOwnership(
+    kittyId: bigint,
+    predicate: AttestationPredicate,
+    challenge: Uint8Array,
+    presenterSecret: Uint8Array = new Uint8Array(32)
+  ): Uint8Array {
+    const result = this.contract.impureCircuits.attestOwnership(
       this.baseContext,
       kittyId,
-      bidPrice
+      predicate,
+      challenge,
+      getPresenterKey(presenterSecret)
     );
     this.baseContext = result.context;
+    return result.result;
   }
 
   /**
-   * Approve an offer for a kitty (owner approves buyer's offer)
+   * Get the attestation stored under an ID (all zeros if there is none)
    */
-  public approveOffer(kittyId: bigint, buyer: CoinPublicKey): void {
-    const result = this.contract.impureCircuits.approveOffer(
+  public getAttestation(id: Uint8Array): Attestation {
+    const result = this.contract.circuits.getAttestation(this.baseContext, id);
+    return result.result;
+  }
+
+  // === Accessories ===
+
+  /**
+   * Mint an accessory to an account (admin only)
+   */
+  public mintAccessory(
+    to: CoinPublicKey,
+    slot: AccessorySlot,
+    style: bigint
+  ): void {
+    const result = this.contract.impureCircuits.mintAccessory(
+      this.baseContext,
+      this.publicKeyToBytes(to),
+      slot,
+      style
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Transfer one of the current user's accessories to another account
+   */
+  public transferAccessory(to: CoinPublicKey, accessoryId: bigint): void {
+    const result = this.contract.impureCircuits.transferAccessory(
+      this.baseContext,
+      this.publicKeyToBytes(to),
+      accessoryId
+    );
+    this.baseContext = result.context;
+  }
+
+  /**
+   * Put one of the current user's accessories on one of their kitties
+   */
+  public equipAccessory(kittyId: bigint, accessoryId: bigint): void {
+    const result = this.contract.impureCircuits.equipAccessory(
       this.baseContext,
       kittyId,
-      this.publicKeyToBytes(buyer)
+      accessoryId
     );
     this.baseContext = result.context;
   }
 
   /**
-   * Breed two kitties to create a new offspring
+   * Take the accessory in a slot off one of the current user's kitties
    */
-  public breedKitty(kittyId1: bigint, kittyId2: bigint): void {
-    const result = this.contract.impureCircuits.breedKitty(
+  public unequipAccessory(kittyId: bigint, slot: AccessorySlot): void {
+    const result = this.contract.impureCircuits.unequipAccessory(
       this.baseContext,
-      kittyId1,
-      kittyId2
+      kittyId,
+      slot
     );
     this.baseContext = result.context;
   }
 
   /**
-   * Switch to a different user context for testing
+   * Get an accessory by its ID
+   */
+  public getAccessory(accessoryId: bigint): Accessory {
+    const result = this.contract.circuits.getAccessory(
+      this.baseContext,
+      accessoryId
+    );
+    return result.result;
+  }
+
+  /**
+   * Get the accessories a kitty wears (all zeros if it wears none)
+   */
+  public getKittyAccessories(kittyId: bigint): KittyAccessories {
+    const result = this.contract.circuits.getKittyAccessories(
+      this.baseContext,
+      kittyId
+    );
+    return result.result;
+  }
+
+  /**
+   * Get the number of accessories minted
+   */
+  public getAccessoryCount(): bigint {
+    return this.getLedger().accessoryCount;
+  }
+
+  /**
+   * Switch to a different user context for testing.
+   * Each user keeps their own private state when switching back.
    */
   public switchUser(user: CoinPublicKey): void {
+    this.privateStates.set(
+      this.getCurrentUser(),
+      this.baseContext.currentPrivateState
+    );
+
     // Create a new simulator instance with the specified user
     const tempSimulator = new KittiesSimulator();
     tempSimulator.createPublicKey = (name: string) => {
@@ -155,8 +1360,13 @@ export class KittiesSimulator {
     };
 
     // Reinitialize with the new user
+    const privateState =
+      this.privateStates.get(user) ?? this.createPrivateState();
     const { currentPrivateState, currentZswapLocalState } =
-      tempSimulator.contract.initialState(constructorContext({}, user));
+      tempSimulator.contract.initialState(
+        constructorContext(privateState, user),
+        0n
+      );
 
     this.baseContext = {
       currentPrivateState,
@@ -166,6 +1376,32 @@ export class KittiesSimulator {
     };
   }
 
+  /**
+   * Set the block time (seconds since epoch) seen by subsequent circuit calls
+   */
+  public setBlockTime(secondsSinceEpoch: bigint): void {
+    this.baseContext.transactionContext.block = {
+      ...this.baseContext.transactionContext.block,
+      secondsSinceEpoch
+    };
+  }
+
+  /**
+   * Get the public key of the user making circuit calls
+   */
+  public getCurrentUser(): CoinPublicKey {
+    return this.bytesToPublicKey(
+      this.baseContext.currentZswapLocalState.coinPublicKey
+    );
+  }
+
+  /**
+   * Get the block time (seconds since epoch) seen by circuit calls
+   */
+  public getBlockTime(): bigint {
+    return this.baseContext.transactionContext.block.secondsSinceEpoch;
+  }
+
   // === Query Methods ===
 
   /**
@@ -176,6 +1412,20 @@ export class KittiesSimulator {
     return result.result;
   }
 
+  /**
+   * Get a kitty's name and metadata URI, decoded ("" if unset)
+   */
+  public getKittyMetadata(kittyId: bigint): { name: string; uri: string } {
+    const result = this.contract.circuits.getKittyMetadata(
+      this.baseContext,
+      kittyId
+    );
+    return {
+      name: this.bytesToText(result.result.name),
+      uri: this.bytesToText(result.result.uri)
+    };
+  }
+
   /**
    * Get total number of kitties created
    */
@@ -184,6 +1434,14 @@ export class KittiesSimulator {
     return result.result;
   }
 
+  /**
+   * Get the number of kitties that have not been burned
+   */
+  public getLiveSupply(): bigint {
+    const result = this.contract.circuits.getLiveSupply(this.baseContext);
+    return result.result;
+  }
+
   /**
    * Get an offer for a kitty from a specific buyer
    */
@@ -196,6 +1454,67 @@ export class KittiesSimulator {
     return result.result;
   }
 
+  /**
+   * Get the amount escrowed by a buyer for a kitty
+   */
+  public getEscrow(kittyId: bigint, buyer: CoinPublicKey): bigint {
+    const result = this.contract.circuits.getEscrow(
+      this.baseContext,
+      kittyId,
+      this.publicKeyToBytes(buyer)
+    );
+    return result.result;
+  }
+
+  /**
+   * Get the auction of a kitty (default values if it isn't on auction)
+   */
+  public getAuction(kittyId: bigint): any {
+    const result = this.contract.circuits.getAuction(this.baseContext, kittyId);
+    return result.result;
+  }
+
+  /**
+   * Get the amount escrowed by the highest bid in a kitty's auction
+   */
+  public getAuctionEscrow(kittyId: bigint): bigint {
+    const escrow = this.getLedger().auctionEscrow;
+    return escrow.member(kittyId) ? escrow.lookup(kittyId).value : 0n;
+  }
+
+  /**
+   * Get the royalty rate set at deployment, in basis points
+   */
+  public getRoyaltyRate(): bigint {
+    return this.getLedger().royaltyRate;
+  }
+
+  /**
+   * Total native tokens the contract has sent to a user in the current user's
+   * transactions since the last switchUser
+   */
+  public getPaidOut(user: CoinPublicKey): bigint {
+    const recipient = toHex(this.publicKeyToBytes(user).bytes);
+    return this.baseContext.currentZswapLocalState.outputs
+      .filter(
+        (output) =>
+          output.recipient.is_left &&
+          toHex(output.recipient.left.bytes) === recipient
+      )
+      .reduce((total, output) => total + output.coinInfo.value, 0n);
+  }
+
+  /**
+   * Get the address allowed to breed with a kitty
+   */
+  public getSiringApproval(kittyId: bigint): CoinPublicKey {
+    const result = this.contract.circuits.getSiringApproval(
+      this.baseContext,
+      kittyId
+    );
+    return this.bytesToPublicKey(result.result);
+  }
+
   // === NFT Module Functions (inherited from NFT) ===
 
   /**
@@ -287,6 +1606,38 @@ export class KittiesSimulator {
     return hexChars.join("") as CoinPublicKey;
   }
 
+  /**
+   * Create a private state with fresh secrets for a new user
+   */
+  public createPrivateState(): KittiesPrivateState {
+    return createKittiesPrivateState(
+      this.createSecretSeed(),
+      this.createSecretSeed()
+    );
+  }
+
+  /**
+   * Create a random secret seed for a user's private state
+   */
+  public createSecretSeed(): Uint8Array {
+    const seed = new Uint8Array(32);
+    crypto.getRandomValues(seed);
+    return seed;
+  }
+
+  /**
+   * Create a native token coin with a fresh nonce
+   */
+  public createCoin(value: bigint): {
+    nonce: Uint8Array;
+    color: Uint8Array;
+    value: bigint;
+  } {
+    const nonce = new Uint8Array(32);
+    crypto.getRandomValues(nonce);
+    return { nonce, color: new Uint8Array(32), value };
+  }
+
   /**
    * Convert string to 32-byte format
    */
@@ -297,6 +1648,23 @@ export class KittiesSimulator {
     return { bytes };
   }
 
+  /**
+   * Encode text as zero-padded UTF-8 of a fixed length
+   */
+  public textToBytes(text: string, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    bytes.set(new TextEncoder().encode(text).slice(0, length));
+    return bytes;
+  }
+
+  /**
+   * Decode zero-padded UTF-8
+   */
+  public bytesToText(bytes: Uint8Array): string {
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? bytes : bytes.slice(0, end));
+  }
+
   /**
    * Convert CoinPublicKey to bytes
    */
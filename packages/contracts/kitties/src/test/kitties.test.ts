@@ -23,8 +23,41 @@
  * damages or losses arising from the use of this software.
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { KittiesSimulator } from "./kitties-simulator.js";
+import { witnesses } from "../witnesses.js";
+import { SHIELDED_VAULT_KEY } from "../shielded.js";
+import { getDutchAuctionPrice } from "../auctions.js";
+import { getRoyaltyShare } from "../royalties.js";
+import { getPoolSnapshotTime, getRandomCommitKey } from "../randomness.js";
+import { BATCH_SIZE, splitIntoBatches } from "../batches.js";
+import {
+  createAttestationPredicate,
+  verifyAttestation
+} from "../attestations.js";
+import {
+  type AllowlistEntry,
+  createAllowlist,
+  getAllowlistLeaf,
+  getAllowlistTicket
+} from "../allowlist.js";
+import {
+  GENE_SLOTS,
+  TRAIT_NAMES,
+  decodeGenes,
+  decodeTraits,
+  encodeGenes,
+  expressedDNA
+} from "../genome.js";
+import {
+  AccessorySlot,
+  ActivityKind,
+  Gender,
+  OfferStatus,
+  RentalKind,
+  type Gene,
+  type GeneSeed
+} from "../managed/kitties/contract/index.cjs";
 import {
   NetworkId,
   setNetworkId
@@ -175,14 +208,24 @@ describe("Kitties Contract Tests", () => {
     expect(kitty.forSale).toBe(false);
     expect(kitty.price).toBe(0n);
 
-    // Check that the offer was removed after approval
-    // (getOffer should return default/empty offer after approval)
-    const offerAfterApproval = simulator.getOffer(1n, bob);
+    // Check that the offer was kept as accepted after approval
+    const { steps, stepCount, ...offerAfterApproval } = simulator.getOffer(
+      1n,
+      bob
+    );
     expect(offerAfterApproval).toEqual({
-      kittyId: 0n,
-      buyer: { bytes: new Uint8Array(32) },
-      price: 0n
+      kittyId: 1n,
+      buyer: simulator.publicKeyToBytes(bob),
+      price: bidPrice,
+      expiresAt: 0n,
+      status: OfferStatus.Accepted,
+      counterPrice: 0n
     });
+    expect(stepCount).toBe(2n);
+    expect(steps.slice(-2).map((step) => step.activity.kind)).toEqual([
+      ActivityKind.Offer,
+      ActivityKind.Sale
+    ]);
   });
 
   it("should handle multiple offers for the same kitty", () => {
@@ -225,21 +268,33 @@ describe("Kitties Contract Tests", () => {
     expect(simulator.balanceOf(bob)).toBe(0n);
     expect(simulator.balanceOf(charlie)).toBe(1n);
 
-    // Check that all offers were cleared after approval (including Bob's rejected offer)
-    const bobOfferAfterApproval = simulator.getOffer(1n, bob);
+    // Check that the other offers were cleared after approval, and Charlie's kept as accepted
+    const { stepCount: bobStepCount, ...bobOfferAfterApproval } =
+      simulator.getOffer(1n, bob);
     const charlieOfferAfterApproval = simulator.getOffer(1n, charlie);
 
     expect(bobOfferAfterApproval).toEqual({
       kittyId: 0n,
       buyer: { bytes: new Uint8Array(32) },
-      price: 0n
+      price: 0n,
+      expiresAt: 0n,
+      status: OfferStatus.Pending,
+      counterPrice: 0n,
+      steps: Array(8).fill({
+        seq: 0n,
+        activity: {
+          kind: ActivityKind.Mint,
+          kittyId: 0n,
+          from: { bytes: new Uint8Array(32) },
+          to: { bytes: new Uint8Array(32) },
+          amount: 0n
+        }
+      })
     });
+    expect(bobStepCount).toBe(0n);
 
-    expect(charlieOfferAfterApproval).toEqual({
-      kittyId: 0n,
-      buyer: { bytes: new Uint8Array(32) },
-      price: 0n
-    });
+    expect(charlieOfferAfterApproval.status).toBe(OfferStatus.Accepted);
+    expect(charlieOfferAfterApproval.price).toBe(150n);
   });
 
   it("should handle offer rejection scenarios", () => {
@@ -315,6 +370,180 @@ describe("Kitties Contract Tests", () => {
     }).toThrow("Kitty is not for sale");
   });
 
+  it("should escrow bids and release them on approval", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    // Alice lists a kitty
+    simulator.createKitty();
+    simulator.setPrice(1n, 100n);
+
+    // Bob and Charlie both bid, locking their tokens
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 120n);
+    simulator.switchUser(charlie);
+    simulator.createBuyOffer(1n, 150n);
+
+    expect(simulator.getEscrow(1n, bob)).toBe(120n);
+    expect(simulator.getEscrow(1n, charlie)).toBe(150n);
+
+    // Alice sells to Charlie; Charlie's escrow is paid out
+    simulator.switchUser(alice);
+    simulator.approveOffer(1n, charlie);
+
+    expect(simulator.ownerOf(1n)).toBe(charlie);
+    expect(simulator.getEscrow(1n, charlie)).toBe(0n);
+
+    // Bob lost but his escrow is still held for him
+    expect(simulator.getEscrow(1n, bob)).toBe(120n);
+
+    // Bob withdraws his refund
+    simulator.switchUser(bob);
+    simulator.withdrawRefund(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+  });
+
+  it("should keep escrow refundable when a transfer wipes offers", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty();
+    simulator.setPrice(1n, 100n);
+
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+
+    // Bob cannot withdraw while his offer is active
+    expect(() => {
+      simulator.withdrawRefund(1n);
+    }).toThrow("Offer is still active");
+
+    // Alice gives the kitty away, wiping all offers
+    simulator.switchUser(alice);
+    simulator.transferKitty(charlie, 1n);
+    expect(simulator.getOffer(1n, bob).price).toBe(0n);
+
+    // Bob reclaims his tokens
+    simulator.switchUser(bob);
+    simulator.withdrawRefund(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+
+    // Nothing left to withdraw
+    expect(() => {
+      simulator.withdrawRefund(1n);
+    }).toThrow("No escrowed funds for this kitty");
+  });
+
+  it("should require escrow matching the bid price", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty();
+    simulator.setPrice(1n, 100n);
+
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.createBuyOffer(1n, 120n, 50n);
+    }).toThrow("Escrowed amount must match bid price");
+
+    // A second bid while the first escrow is held is rejected
+    simulator.createBuyOffer(1n, 120n);
+    expect(() => {
+      simulator.createBuyOffer(1n, 130n);
+    }).toThrow("Existing escrow for this kitty, withdraw it first");
+  });
+
+  it("should let a buyer cancel their own offer", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty();
+    simulator.setPrice(1n, 100n);
+
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 110n);
+    simulator.cancelOffer(1n);
+
+    // Offer and escrow are both gone
+    expect(simulator.getOffer(1n, bob).price).toBe(0n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+
+    expect(() => {
+      simulator.cancelOffer(1n);
+    }).toThrow("No offer to cancel");
+  });
+
+  it("should let the owner reject a specific offer", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty();
+    simulator.setPrice(1n, 100n);
+
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 110n);
+    simulator.switchUser(charlie);
+    simulator.createBuyOffer(1n, 120n);
+
+    // Only the owner can reject
+    expect(() => {
+      simulator.rejectOffer(1n, bob);
+    }).toThrow("Only owner can reject offers.");
+
+    simulator.switchUser(alice);
+    simulator.rejectOffer(1n, bob);
+
+    // Bob's offer is closed as rejected, Charlie's remains open
+    expect(simulator.getOffer(1n, bob).status).toBe(OfferStatus.Rejected);
+    expect(simulator.getOffer(1n, charlie).price).toBe(120n);
+    expect(() => {
+      simulator.approveOffer(1n, bob);
+    }).toThrow("Invalid offer.");
+
+    // Bob can reclaim his escrow, which closes his offer for good
+    simulator.switchUser(bob);
+    simulator.withdrawRefund(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+    expect(simulator.getOffer(1n, bob).price).toBe(0n);
+  });
+
+  it("should refuse to approve an expired offer", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty();
+    simulator.setPrice(1n, 100n);
+
+    // Offers cannot be created already expired
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.createBuyOffer(1n, 100n, 100n, 500n);
+    }).toThrow("Offer expiry must be in the future");
+
+    simulator.createBuyOffer(1n, 100n, 100n, 2_000n);
+    expect(simulator.getOffer(1n, bob).expiresAt).toBe(2_000n);
+
+    // Time passes beyond the expiry
+    simulator.setBlockTime(3_000n);
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.approveOffer(1n, bob);
+    }).toThrow("Offer has expired.");
+
+    // The buyer can still cancel to recover the escrow
+    simulator.switchUser(bob);
+    simulator.cancelOffer(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+  });
+
   it("should breed two kitties", () => {
     const simulator = new KittiesSimulator();
     const alice = simulator.createPublicKey("Alice");
@@ -373,6 +602,266 @@ describe("Kitties Contract Tests", () => {
     expect(simulator.balanceOf(alice)).toBe(5n);
   });
 
+  it("should put parents on a growing breeding cooldown", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    expect(simulator.getKitty(1n).cooldownIndex).toBe(0n);
+    expect(simulator.getKitty(1n).cooldownEnd).toBe(0n);
+
+    simulator.breedKitty(1n, 2n); // Kitty ID 3
+
+    // Both parents wait 1 minute after the breed time window and the next cooldown is longer
+    expect(simulator.getKitty(1n).cooldownEnd).toBe(1_660n);
+    expect(simulator.getKitty(2n).cooldownEnd).toBe(1_660n);
+    expect(simulator.getKitty(1n).cooldownIndex).toBe(1n);
+
+    // Breeding again right away is rejected
+    expect(() => {
+      simulator.breedKitty(1n, 2n);
+    }).toThrow("Parent kitty 1 is still on breeding cooldown");
+
+    // Once the cooldown is over the parents can breed again
+    simulator.setBlockTime(1_660n);
+    simulator.breedKitty(1n, 2n); // Kitty ID 4
+    expect(simulator.getKitty(1n).cooldownEnd).toBe(2_380n); // 2 minutes
+    expect(simulator.getKitty(1n).cooldownIndex).toBe(2n);
+  });
+
+  it("should not shorten the cooldown with a backdated breed time", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(10_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+
+    // The oldest breed time the block time allows
+    simulator.breedKitty(1n, 2n, 9_401n); // Kitty ID 3
+    expect(simulator.getKitty(1n).cooldownEnd).toBe(10_061n);
+
+    // The parents still wait the full minute before breeding again
+    expect(() => {
+      simulator.breedKitty(1n, 2n, 9_401n);
+    }).toThrow("Parent kitty 1 is still on breeding cooldown");
+    simulator.setBlockTime(10_060n);
+    expect(() => {
+      simulator.breedKitty(1n, 2n, 9_461n);
+    }).toThrow("Parent kitty 1 is still on breeding cooldown");
+
+    simulator.setBlockTime(10_061n);
+    simulator.breedKitty(1n, 2n, 9_462n); // Kitty ID 4
+    expect(simulator.getKitty(4n).generation).toBe(1n);
+  });
+
+  it("should reject parents that are still cooling down", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createKitty(); // Kitty ID 3
+    simulator.breedKitty(1n, 2n); // Kitty ID 4
+
+    // A fresh kitty cannot be paired with a parent that is cooling down
+    expect(() => {
+      simulator.breedKitty(3n, 2n);
+    }).toThrow("Parent kitty 2 is still on breeding cooldown");
+
+    // Newborns start with a cooldown based on their generation
+    expect(simulator.getKitty(4n).generation).toBe(1n);
+    expect(simulator.getKitty(4n).cooldownIndex).toBe(0n);
+    simulator.breedKitty(3n, 4n); // Kitty ID 5 (generation 2)
+    expect(simulator.getKitty(5n).cooldownIndex).toBe(1n);
+  });
+
+  it("should reject breed times outside the block time window", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+
+    // A breed time ahead of the block is refused
+    expect(() => {
+      simulator.breedKitty(1n, 2n, 1_100n);
+    }).toThrow("Breed time is in the future");
+
+    // Claiming an old time would shorten the cooldown
+    expect(() => {
+      simulator.breedKitty(1n, 2n, 100n);
+    }).toThrow("Breed time is too old");
+  });
+
+  it("should only breed a male with a female", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.createKitty(); // Kitty ID 1 (Female)
+    simulator.createKitty(); // Kitty ID 2 (Male)
+    simulator.createKitty(); // Kitty ID 3 (Female)
+
+    expect(() => {
+      simulator.breedKitty(1n, 3n);
+    }).toThrow("Parents must be of opposite genders");
+
+    simulator.breedKitty(1n, 2n);
+    expect(simulator.getAllKittiesCount()).toBe(4n);
+  });
+
+  it("should record the parents and birth time of each kitty", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1 (Female)
+    simulator.createKitty(); // Kitty ID 2 (Male)
+
+    // Generation 0 kitties have no parents
+    expect(simulator.getKitty(1n).matronId).toBe(0n);
+    expect(simulator.getKitty(1n).sireId).toBe(0n);
+    expect(simulator.getKitty(1n).birthTime).toBe(1_000n);
+
+    // The female is the matron whichever order the parents are given in
+    simulator.setBlockTime(2_000n);
+    simulator.breedKitty(2n, 1n); // Kitty ID 3
+    const offspring = simulator.getKitty(3n);
+    expect(offspring.matronId).toBe(1n);
+    expect(offspring.sireId).toBe(2n);
+    expect(offspring.birthTime).toBe(2_000n);
+
+    // Lineage survives later updates to the kitty
+    simulator.setPrice(3n, 100n);
+    expect(simulator.getKitty(3n).matronId).toBe(1n);
+    expect(simulator.getKitty(3n).sireId).toBe(2n);
+
+    // A birth time ahead of the block is refused
+    expect(() => {
+      simulator.createKitty(2_100n);
+    }).toThrow("Birth time is in the future");
+  });
+
+  it("should not breed a kitty with its parent", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1 (Female)
+    simulator.createKitty(); // Kitty ID 2 (Male)
+    simulator.breedKitty(1n, 2n); // Kitty ID 3 (Female)
+
+    // Wait out the parents' cooldown so only the lineage stands in the way
+    simulator.setBlockTime(10_000n);
+
+    expect(() => {
+      simulator.breedKitty(3n, 2n);
+    }).toThrow("Cannot breed a kitty with its parent");
+    expect(() => {
+      simulator.breedKitty(2n, 3n);
+    }).toThrow("Cannot breed a kitty with its parent");
+  });
+
+  it("should not breed siblings or half-siblings", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1 (Female)
+    simulator.createKitty(); // Kitty ID 2 (Male)
+    simulator.createKitty(); // Kitty ID 3 (Female)
+    simulator.createKitty(); // Kitty ID 4 (Male)
+    simulator.breedKitty(1n, 2n); // Kitty ID 5 (Female)
+    simulator.setBlockTime(2_000n);
+    simulator.breedKitty(1n, 2n); // Kitty ID 6 (Male)
+    simulator.setBlockTime(3_000n);
+    simulator.breedKitty(3n, 2n); // Kitty ID 7 (Female)
+    simulator.breedKitty(1n, 4n); // Kitty ID 8 (Male)
+
+    // Full siblings share both parents
+    expect(() => {
+      simulator.breedKitty(5n, 6n);
+    }).toThrow("Cannot breed siblings");
+
+    // Half-siblings through the sire or through the matron
+    expect(() => {
+      simulator.breedKitty(7n, 6n);
+    }).toThrow("Cannot breed siblings");
+    expect(() => {
+      simulator.breedKitty(5n, 8n);
+    }).toThrow("Cannot breed siblings");
+
+    // Kitties with no parent in common can still breed
+    simulator.breedKitty(7n, 8n); // Kitty ID 9
+    expect(simulator.getKitty(9n).matronId).toBe(7n);
+    expect(simulator.getKitty(9n).sireId).toBe(8n);
+  });
+
+  it("should require siring approval to breed with another owner's kitty", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const noApproval = "0".repeat(64);
+
+    simulator.createKitty(); // Kitty ID 1 (Female), owned by Alice
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 2 (Male), owned by Bob
+
+    // Owning one parent is not enough
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.breedKitty(1n, 2n);
+    }).toThrow("No siring approval for parent kitty 2");
+
+    // Only the owner can grant siring approval
+    expect(() => {
+      simulator.approveSiring(2n, alice);
+    }).toThrow("Only owner can approve siring.");
+
+    simulator.switchUser(bob);
+    simulator.approveSiring(2n, alice);
+    expect(simulator.getSiringApproval(2n)).toBe(alice);
+
+    // Alice can now breed and keeps the offspring
+    simulator.switchUser(alice);
+    simulator.breedKitty(1n, 2n);
+    expect(simulator.ownerOf(3n)).toBe(alice);
+    expect(simulator.ownerOf(2n)).toBe(bob);
+
+    // The approval is used up by breeding
+    expect(simulator.getSiringApproval(2n)).toBe(noApproval);
+  });
+
+  it("should revoke siring approval explicitly and on transfer", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+    const noApproval = "0".repeat(64);
+
+    simulator.createKitty(); // Kitty ID 1 (Female), owned by Alice
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 2 (Male), owned by Bob
+
+    // Bob revokes the approval before Alice uses it
+    simulator.approveSiring(2n, alice);
+    simulator.revokeSiring(2n);
+    expect(simulator.getSiringApproval(2n)).toBe(noApproval);
+
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.breedKitty(1n, 2n);
+    }).toThrow("No siring approval for parent kitty 2");
+
+    // Transferring the kitty clears its approval
+    simulator.switchUser(bob);
+    simulator.approveSiring(2n, alice);
+    simulator.transferKitty(charlie, 2n);
+    expect(simulator.getSiringApproval(2n)).toBe(noApproval);
+
+    // Nothing left to revoke
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.revokeSiring(2n);
+    }).toThrow("No siring approval to revoke");
+  });
+
   it("should handle NFT approvals", () => {
     const simulator = new KittiesSimulator();
     const bob = simulator.createPublicKey("Bob");
@@ -462,4 +951,2607 @@ describe("Kitties Contract Tests", () => {
     expect(kitty1.dna).not.toBe(kitty3.dna);
     expect(kitty2.dna).not.toBe(kitty3.dna);
   });
+
+  it("should pack DNA into named gene slots", () => {
+    const simulator = new KittiesSimulator();
+    simulator.createKitty();
+
+    const dna = simulator.getKitty(1n).dna;
+    expect(dna < 1n << 128n).toBe(true);
+    expect(encodeGenes(decodeGenes(dna))).toBe(dna);
+
+    const traits = decodeTraits(dna);
+    for (const slot of GENE_SLOTS) {
+      expect(TRAIT_NAMES[slot]).toContain(traits[slot].name);
+      expect(TRAIT_NAMES[slot]).toContain(traits[slot].recessive);
+    }
+  });
+});
+
+describe("Commit-Reveal Randomness", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should only mint after revealing a sealed randomness commitment", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    simulator.setBlockTime(1_000n);
+
+    // Minting without a commitment fails
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("No randomness commitment, commit first");
+
+    // Committing alone does not mint anything
+    simulator.commitRandomness();
+    expect(simulator.hasRandomCommit(alice)).toBe(true);
+    expect(simulator.getRandomCommit(alice).sealAfter).toBe(1_600n);
+    expect(simulator.getAllKittiesCount()).toBe(0n);
+
+    // It can't be revealed until ten minutes after the commit time
+    simulator.setBlockTime(1_599n);
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("Randomness commitment is not sealed yet");
+
+    // Nobody else has to take part: the reveal takes the snapshot that seals it
+    simulator.setBlockTime(1_600n);
+    simulator.revealKitty();
+    expect(simulator.getAllKittiesCount()).toBe(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+    expect(simulator.hasRandomCommit(alice)).toBe(false);
+  });
+
+  it("should only breed after revealing a randomness commitment", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+
+    expect(() => {
+      simulator.revealBreeding(1n, 2n);
+    }).toThrow("No randomness commitment, commit first");
+
+    simulator.commitRandomness();
+    simulator.setBlockTime(1_600n);
+    simulator.revealBreeding(1n, 2n); // Kitty ID 3
+    expect(simulator.getKitty(3n).generation).toBe(1n);
+    expect(simulator.hasRandomCommit(alice)).toBe(false);
+  });
+
+  it("should reject a reveal with a different secret seed", () => {
+    const simulator = new KittiesSimulator();
+    simulator.setBlockTime(1_000n);
+    simulator.commitRandomness();
+    simulator.setBlockTime(1_600n);
+
+    // Swapping the secret seed after committing finds no commitment on reveal
+    simulator.setPrivateState({
+      ...simulator.getPrivateState(),
+      secretSeed: simulator.createSecretSeed()
+    });
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("No randomness commitment, commit first");
+  });
+
+  it("should commit to a fresh secret seed every time", () => {
+    const simulator = new KittiesSimulator();
+    const seeds = [simulator.getPrivateState().secretSeed];
+    simulator.setBlockTime(1_000n);
+
+    simulator.commitRandomness();
+    seeds.push(simulator.getPrivateState().secretSeed);
+    simulator.setBlockTime(1_600n);
+    simulator.revealKitty();
+    simulator.commitRandomness();
+    seeds.push(simulator.getPrivateState().secretSeed);
+
+    expect(
+      new Set(seeds.map((seed) => Buffer.from(seed).toString("hex"))).size
+    ).toBe(3);
+  });
+
+  it("should key commitments by owner secret and seed instead of account", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    simulator.setBlockTime(1_000n);
+
+    simulator.commitRandomness();
+    const { ownerSecret, secretSeed } = simulator.getPrivateState();
+    const firstKey = getRandomCommitKey(ownerSecret, secretSeed);
+    expect(simulator.getRandomCommitKey(alice)).toEqual(firstKey);
+    expect(simulator.getLedger().randomCommits.member(firstKey)).toBe(true);
+
+    // A second commitment gets an unrelated key, so the two can't be linked
+    simulator.commitRandomness();
+    const secondKey = simulator.getRandomCommitKey(alice);
+    expect(secondKey).not.toEqual(firstKey);
+    expect(simulator.getLedger().randomCommits.size()).toBe(2n);
+
+    // Neither key is the account's public key
+    const aliceBytes = Buffer.from(alice, "hex");
+    expect(Buffer.from(firstKey).equals(aliceBytes)).toBe(false);
+    expect(Buffer.from(secondKey).equals(aliceBytes)).toBe(false);
+
+    // A different owner secret can't reveal the commitment
+    simulator.setBlockTime(1_600n);
+    simulator.setPrivateState({
+      ...simulator.getPrivateState(),
+      ownerSecret: simulator.createSecretSeed()
+    });
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("No randomness commitment, commit first");
+  });
+
+  it("should seal a commitment with the first pool snapshot after it", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    simulator.setBlockTime(1_000n);
+    simulator.commitRandomness();
+    const { sealAfter } = simulator.getRandomCommit(alice);
+
+    // Bob's mint at 1_700 takes the first snapshot after Alice's sealAfter
+    simulator.switchUser(bob);
+    simulator.setBlockTime(1_700n);
+    simulator.createKitty(); // Kitty ID 1
+    const ledger = simulator.getLedger();
+    expect(getPoolSnapshotTime(ledger, sealAfter)).toBe(1_700n);
+    expect(ledger.poolSnapshots.lookup(1_700n).previous).toBeLessThan(
+      sealAfter
+    );
+
+    // Neither a later snapshot nor an earlier one can stand in for it
+    simulator.switchUser(alice);
+    simulator.setBlockTime(1_800n);
+    const snapshotTime = vi.spyOn(witnesses, "poolSnapshotTime");
+    snapshotTime.mockImplementation(({ privateState }) => [
+      privateState,
+      1_800n
+    ]);
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("Not the first pool snapshot after the commitment");
+    snapshotTime.mockImplementation(({ privateState }) => [
+      privateState,
+      1_000n
+    ]);
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("Randomness commitment is not sealed yet");
+
+    snapshotTime.mockRestore();
+    simulator.revealKitty(); // Kitty ID 2
+    expect(simulator.ownerOf(2n)).toBe(alice);
+  });
+
+  it("should not let pool changes after the seal alter the outcome", () => {
+    // Make every fresh secret seed predictable, so both runs below commit the same seeds
+    let seedCount = 0;
+    vi.spyOn(witnesses, "freshRandomSeed").mockImplementation(
+      ({ privateState }) => {
+        const secretSeed = new Uint8Array(32).fill(++seedCount);
+        return [{ ...privateState, secretSeed }, secretSeed];
+      }
+    );
+
+    const mintSealed = (movePool: boolean): bigint => {
+      seedCount = 0;
+      const simulator = new KittiesSimulator();
+      const alice = simulator.createPublicKey("Alice");
+      const bob = simulator.createPublicKey("Bob");
+      simulator.setBlockTime(1_000n);
+      simulator.commitRandomness();
+
+      // Bob's mint takes the snapshot that seals Alice's commitment
+      simulator.switchUser(bob);
+      simulator.setBlockTime(1_600n);
+      simulator.createKitty();
+
+      // Move the pool as much as a revealer could before revealing
+      if (movePool) {
+        simulator.setBlockTime(1_700n);
+        simulator.createKitty();
+      }
+
+      simulator.switchUser(alice);
+      simulator.setBlockTime(1_800n);
+      simulator.revealKitty();
+      return simulator.getKitty(simulator.getAllKittiesCount()).dna;
+    };
+
+    expect(mintSealed(true)).toBe(mintSealed(false));
+  });
+
+  it("should forfeit a commitment that isn't revealed in time", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    simulator.setBlockTime(1_000n);
+    simulator.commitRandomness();
+    expect(simulator.getRandomCommit(alice).deadline).toBe(87_400n);
+
+    // After a day the commitment can't be revealed, but it can be replaced
+    simulator.setBlockTime(87_400n);
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("Randomness commitment has expired, commit again");
+    simulator.commitRandomness();
+    expect(simulator.getRandomCommit(alice).deadline).toBe(173_800n);
+    expect(simulator.getRandomCommit(alice).sealAfter).toBe(88_000n);
+  });
+
+  it("should reject commit times outside the block time window", () => {
+    const simulator = new KittiesSimulator();
+    simulator.setBlockTime(1_000n);
+
+    expect(() => {
+      simulator.commitRandomness(1_001n);
+    }).toThrow("Commit time is in the future");
+    expect(() => {
+      simulator.commitRandomness(400n);
+    }).toThrow("Commit time is too old");
+  });
+
+  it("should keep each user's commitment separate", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    simulator.setBlockTime(1_000n);
+
+    simulator.commitRandomness();
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.revealKitty();
+    }).toThrow("No randomness commitment, commit first");
+    simulator.createKitty(); // Kitty ID 1, owned by Bob
+
+    // Alice can still reveal her own commitment
+    simulator.switchUser(alice);
+    simulator.setBlockTime(1_600n);
+    simulator.revealKitty(); // Kitty ID 2, owned by Alice
+    expect(simulator.ownerOf(1n)).toBe(bob);
+    expect(simulator.ownerOf(2n)).toBe(alice);
+  });
+
+  it("should mix every commitment and reveal into the randomness pool", () => {
+    const simulator = new KittiesSimulator();
+    const pools = [simulator.getLedger().randomnessPool];
+    simulator.setBlockTime(1_000n);
+
+    simulator.commitRandomness();
+    pools.push(simulator.getLedger().randomnessPool);
+    simulator.setBlockTime(1_600n);
+    simulator.revealKitty();
+    pools.push(simulator.getLedger().randomnessPool);
+
+    expect(
+      new Set(pools.map((pool) => Buffer.from(pool).toString("hex"))).size
+    ).toBe(3);
+  });
+});
+
+describe("Shielded Ownership", () => {
+  it("should mint a shielded kitty without disclosing its owner", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const vault = simulator.bytesToPublicKey({ bytes: SHIELDED_VAULT_KEY });
+
+    simulator.createShieldedKitty(); // Kitty ID 1
+
+    // The ledger only shows the shielded vault as owner
+    expect(simulator.ownerOf(1n)).toBe(vault);
+    expect(simulator.bytesToPublicKey(simulator.getKitty(1n).owner)).toBe(
+      vault
+    );
+    expect(simulator.balanceOf(alice)).toBe(0n);
+
+    // Nor does it record Alice as its creator
+    expect(simulator.getKitty(1n).creator).toEqual({
+      bytes: new Uint8Array(32)
+    });
+
+    // Alice finds it through her private state, Bob doesn't
+    expect(simulator.ownsShieldedKitty(1n)).toBe(true);
+    simulator.switchUser(bob);
+    expect(simulator.ownsShieldedKitty(1n)).toBe(false);
+  });
+
+  it("should transfer a shielded kitty to another owner key", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.switchUser(bob);
+    const bobOwnerKey = simulator.getShieldedOwnerKey();
+    simulator.switchUser(alice);
+
+    simulator.createShieldedKitty(); // Kitty ID 1
+    expect(() => {
+      simulator.transferKitty(bob, 1n);
+    }).toThrow("Kitty is shielded, use transferShieldedKitty");
+
+    simulator.transferShieldedKitty(1n, bobOwnerKey);
+    expect(simulator.ownsShieldedKitty(1n)).toBe(false);
+    expect(simulator.getLedger().shieldedOwners.lookup(1n).round).toBe(1n);
+
+    // Alice can no longer move it
+    expect(() => {
+      simulator.transferShieldedKitty(1n, bobOwnerKey);
+    }).toThrow("Not the owner of this kitty");
+
+    simulator.switchUser(bob);
+    expect(simulator.ownsShieldedKitty(1n)).toBe(true);
+    simulator.transferShieldedKitty(1n, simulator.getShieldedOwnerKey());
+    expect(simulator.ownsShieldedKitty(1n)).toBe(true);
+  });
+
+  it("should prove shielded ownership to set prices and breed", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createShieldedKitty(); // Kitty ID 1 (Female)
+    simulator.createShieldedKitty(); // Kitty ID 2 (Male)
+
+    simulator.setPrice(1n, 100n);
+    expect(simulator.getKitty(1n).forSale).toBe(true);
+
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.setPrice(1n, 1n);
+    }).toThrow("Not the owner of this kitty");
+    expect(() => {
+      simulator.createBuyOffer(1n, 100n);
+    }).toThrow("Shielded kitties can't take buy offers");
+    expect(() => {
+      simulator.breedKitty(1n, 2n);
+    }).toThrow("Must own at least one parent kitty");
+
+    simulator.switchUser(alice);
+    simulator.breedShieldedKitty(1n, 2n); // Kitty ID 3
+    expect(simulator.getKitty(3n).generation).toBe(1n);
+    expect(simulator.ownsShieldedKitty(3n)).toBe(true);
+    expect(simulator.getKitty(3n).creator).toEqual({
+      bytes: new Uint8Array(32)
+    });
+  });
+
+  it("should shield a public kitty", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const vault = simulator.bytesToPublicKey({ bytes: SHIELDED_VAULT_KEY });
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+
+    // Only the public owner can shield it
+    expect(() => {
+      simulator.shieldKitty(1n);
+    }).toThrow("Not the owner of this kitty");
+
+    simulator.switchUser(alice);
+    simulator.shieldKitty(1n);
+    expect(simulator.ownerOf(1n)).toBe(vault);
+    expect(simulator.balanceOf(alice)).toBe(0n);
+    expect(simulator.getKitty(1n).forSale).toBe(false);
+    expect(simulator.ownsShieldedKitty(1n)).toBe(true);
+
+    // Offers are wiped like on a transfer, the escrow stays refundable
+    expect(simulator.getOffer(1n, bob).price).toBe(0n);
+    expect(() => {
+      simulator.shieldKitty(1n);
+    }).toThrow("Kitty is already shielded");
+  });
+});
+
+describe("Ownership Attestations", () => {
+  it("should attest to a matching shielded kitty without disclosing it", () => {
+    const simulator = new KittiesSimulator();
+    simulator.createPublicKey("Alice");
+
+    simulator.createShieldedKitty(); // Kitty ID 1 (Female)
+    const challenge = simulator.createSecretSeed();
+    const predicate = createAttestationPredicate({
+      maxGeneration: 0n,
+      gender: Gender.Female
+    });
+    const presenterSecret = simulator.createSecretSeed();
+    const id = simulator.attestOwnership(
+      1n,
+      predicate,
+      challenge,
+      presenterSecret
+    );
+
+    // Verifiers need the ID and presenter secret they were handed, their challenge and their requirements
+    const ledger = simulator.getLedger();
+    expect(
+      verifyAttestation(ledger, id, challenge, presenterSecret, predicate)
+    ).toBe(true);
+    expect(
+      verifyAttestation(
+        ledger,
+        id,
+        challenge,
+        presenterSecret,
+        createAttestationPredicate({})
+      )
+    ).toBe(true);
+    expect(
+      verifyAttestation(
+        ledger,
+        id,
+        simulator.createSecretSeed(),
+        presenterSecret,
+        predicate
+      )
+    ).toBe(false);
+    expect(
+      verifyAttestation(
+        ledger,
+        id,
+        challenge,
+        presenterSecret,
+        createAttestationPredicate({ gender: Gender.Male })
+      )
+    ).toBe(false);
+
+    // Someone who copies the ID from the ledger can't present it as theirs
+    expect(
+      verifyAttestation(
+        ledger,
+        id,
+        challenge,
+        simulator.createSecretSeed(),
+        predicate
+      )
+    ).toBe(false);
+    expect(
+      verifyAttestation(
+        ledger,
+        id,
+        challenge,
+        ledger.attestations.lookup(id).presenter,
+        predicate
+      )
+    ).toBe(false);
+
+    // The log shows an attestation happened, not for which kitty
+    const last = simulator.getActivity().at(-1);
+    expect(last?.kind).toBe(ActivityKind.Attested);
+    expect(last?.kittyId).toBe(0n);
+
+    expect(() => {
+      simulator.attestOwnership(1n, predicate, challenge);
+    }).toThrow("Kitty already attested for this challenge");
+  });
+
+  it("should only let the current owner of a matching kitty attest", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.switchUser(bob);
+    const bobOwnerKey = simulator.getShieldedOwnerKey();
+    simulator.switchUser(alice);
+
+    simulator.createShieldedKitty(); // Kitty ID 1 (Female)
+    simulator.createKitty(); // Kitty ID 2
+    const challenge = simulator.createSecretSeed();
+
+    expect(() => {
+      simulator.attestOwnership(
+        1n,
+        createAttestationPredicate({ gender: Gender.Male }),
+        challenge
+      );
+    }).toThrow("Kitty doesn't match the predicate");
+    expect(() => {
+      simulator.attestOwnership(2n, createAttestationPredicate({}), challenge);
+    }).toThrow("Kitty 2 is not shielded");
+
+    // A trait matches when its name shows, whichever allele carries it
+    const body = Number(
+      decodeGenes(simulator.getKitty(1n).dna)[0].dominant % 8n
+    );
+    simulator.attestOwnership(
+      1n,
+      createAttestationPredicate({ trait: { slot: "body", trait: body } }),
+      challenge
+    );
+    expect(() => {
+      simulator.attestOwnership(
+        1n,
+        createAttestationPredicate({
+          trait: { slot: "body", trait: (body + 1) % 8 }
+        }),
+        simulator.createSecretSeed()
+      );
+    }).toThrow("Kitty doesn't match the predicate");
+
+    // Once the kitty is gone, only its new owner can attest to it
+    simulator.transferShieldedKitty(1n, bobOwnerKey);
+    expect(() => {
+      simulator.attestOwnership(
+        1n,
+        createAttestationPredicate({}),
+        simulator.createSecretSeed()
+      );
+    }).toThrow("Not the owner of this kitty");
+
+    simulator.switchUser(bob);
+    simulator.attestOwnership(1n, createAttestationPredicate({}), challenge);
+  });
+});
+
+describe("Auctions", () => {
+  it("should run an English auction that anyone can settle", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+    const dave = simulator.createPublicKey("Dave");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.createEnglishAuction(1n, 100n, 10n, 2_000n);
+
+    // The kitty is out of circulation while the auction runs
+    expect(simulator.getKitty(1n).forSale).toBe(false);
+    expect(simulator.balanceOf(alice)).toBe(0n);
+    expect(() => {
+      simulator.transferKitty(bob, 1n);
+    }).toThrow("Kitty does not exist");
+
+    // Bids must reach the reserve, then beat the highest bid by the increment
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.bidOnAuction(1n, 90n);
+    }).toThrow("Bid too low");
+    simulator.bidOnAuction(1n, 100n);
+    expect(simulator.getAuctionEscrow(1n)).toBe(100n);
+
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.bidOnAuction(1n, 105n);
+    }).toThrow("Bid too low");
+    simulator.bidOnAuction(1n, 110n);
+
+    // Bob's escrow was returned, Charlie's replaces it
+    const auction = simulator.getAuction(1n);
+    expect(auction.highestBidder).toEqual(simulator.publicKeyToBytes(charlie));
+    expect(auction.highestBid).toBe(110n);
+    expect(simulator.getAuctionEscrow(1n)).toBe(110n);
+
+    // Nobody can settle before the end time
+    simulator.switchUser(dave);
+    expect(() => {
+      simulator.settleAuction(1n);
+    }).toThrow("Auction has not ended yet");
+
+    // After it, bidding is closed and a bystander settles it
+    simulator.setBlockTime(2_000n);
+    expect(() => {
+      simulator.bidOnAuction(1n, 200n);
+    }).toThrow("Auction has ended");
+    simulator.settleAuction(1n);
+
+    expect(simulator.ownerOf(1n)).toBe(charlie);
+    expect(simulator.getKitty(1n).owner).toEqual(
+      simulator.publicKeyToBytes(charlie)
+    );
+    expect(simulator.getAuction(1n).highestBid).toBe(0n);
+    expect(simulator.getAuctionEscrow(1n)).toBe(0n);
+  });
+
+  it("should return an unsold kitty to the seller", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createEnglishAuction(1n, 100n, 10n, 2_000n);
+    simulator.createEnglishAuction(2n, 100n, 10n, 3_000n);
+    expect(() => {
+      simulator.createEnglishAuction(1n, 100n, 10n, 2_000n);
+    }).toThrow("Kitty is already on auction");
+
+    // Nobody bids on kitty 1; anyone can settle it back to Alice
+    simulator.setBlockTime(2_000n);
+    simulator.switchUser(bob);
+    simulator.settleAuction(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+
+    // Kitty 2 gets a bid, so Alice can't cancel it any more
+    simulator.bidOnAuction(2n, 100n);
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.cancelAuction(2n);
+    }).toThrow("Auction already has bids");
+  });
+
+  it("should let the seller cancel an auction without bids", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createDutchAuction(1n, 1_000n, 100n, 900n);
+
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.cancelAuction(1n);
+    }).toThrow("Only the seller can cancel an auction");
+
+    simulator.switchUser(alice);
+    simulator.cancelAuction(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+    expect(() => {
+      simulator.cancelAuction(1n);
+    }).toThrow("Kitty is not on auction");
+  });
+
+  it("should sell a Dutch auction at its falling price", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createDutchAuction(1n, 1_000n, 100n, 900n);
+
+    // Dutch auctions are bought, not bid on
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.bidOnAuction(1n, 1_000n);
+    }).toThrow("Dutch auctions don't take bids");
+
+    // Halfway through, the price has dropped to 550
+    simulator.setBlockTime(1_450n);
+    expect(getDutchAuctionPrice(simulator.getAuction(1n), 1_450n)).toBe(550n);
+    expect(() => {
+      simulator.buyDutchAuction(1n, 549n);
+    }).toThrow("Payment is below the current price");
+
+    // An old buy time only makes the price higher
+    expect(() => {
+      simulator.buyDutchAuction(1n, 550n, 1_400n);
+    }).toThrow("Payment is below the current price");
+
+    simulator.buyDutchAuction(1n, 550n);
+    expect(simulator.ownerOf(1n)).toBe(bob);
+    expect(simulator.getAuction(1n).startPrice).toBe(0n);
+  });
+
+  it("should hold a Dutch auction at its end price", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+
+    expect(() => {
+      simulator.createDutchAuction(1n, 100n, 1_000n, 900n);
+    }).toThrow("Start price must not be below the end price");
+    expect(() => {
+      simulator.createDutchAuction(1n, 1_000n, 100n, 900n, 2_000n);
+    }).toThrow("Start time is in the future");
+
+    simulator.createDutchAuction(1n, 1_000n, 100n, 900n);
+    expect(() => {
+      simulator.buyDutchAuction(1n, 1_000n);
+    }).toThrow("Cannot buy your own kitty");
+
+    simulator.setBlockTime(10_000n);
+    expect(getDutchAuctionPrice(simulator.getAuction(1n), 10_000n)).toBe(100n);
+    simulator.switchUser(bob);
+    simulator.buyDutchAuction(1n, 100n);
+    expect(simulator.ownerOf(1n)).toBe(bob);
+    expect(simulator.balanceOf(alice)).toBe(0n);
+  });
+});
+
+describe("Sealed-Bid Auctions", () => {
+  it("should sell to the highest revealed bid without disclosing the others", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+    const dave = simulator.createPublicKey("Dave");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createSealedAuction(1n, 100n, 1_000n, 2_000n, 3_000n);
+    expect(() => {
+      simulator.transferKitty(bob, 1n);
+    }).toThrow("Kitty does not exist");
+
+    simulator.switchUser(bob);
+    simulator.commitSealedBid(1n, 300n);
+    simulator.switchUser(charlie);
+    simulator.commitSealedBid(1n, 500n);
+    simulator.switchUser(dave);
+    simulator.commitSealedBid(1n, 200n);
+
+    // Every bid escrows the same deposit and the ledger only holds commitments
+    expect(simulator.getSealedAuction(1n).bidCount).toBe(3n);
+    expect(simulator.getSealedBidDeposits(1n)).toBe(3n);
+    const deposits = simulator.getLedger().sealedBidEscrow.lookup(1n);
+    for (const [, deposit] of deposits) {
+      expect(deposit.value).toBe(1_000n);
+    }
+    expect(() => {
+      simulator.revealSealedBid(1n);
+    }).toThrow("Bidding is still open");
+
+    // A bid that beats the leading one leads, a beaten one is only proven beaten
+    simulator.setBlockTime(2_000n);
+    simulator.switchUser(bob);
+    simulator.revealSealedBid(1n);
+    expect(simulator.getSealedAuction(1n).leadingBid).toBe(300n);
+    simulator.switchUser(dave);
+    expect(() => {
+      simulator.withdrawSealedBid(1n);
+    }).toThrow(
+      "Unrevealed sealed bids can only be withdrawn while bidding is open"
+    );
+    simulator.revealSealedBid(1n);
+    expect(simulator.getSealedAuction(1n).leadingBid).toBe(300n);
+    expect(simulator.getActivity().at(-1)?.kind).toBe(ActivityKind.BidBeaten);
+    expect(() => {
+      simulator.revealSealedBid(1n);
+    }).toThrow("Sealed bid already revealed");
+    simulator.switchUser(charlie);
+    simulator.revealSealedBid(1n);
+    expect(simulator.getSealedAuction(1n).leadingBid).toBe(500n);
+    expect(() => {
+      simulator.withdrawSealedBid(1n);
+    }).toThrow("The leading bid can't be withdrawn");
+
+    // Outbid and beaten bids get their deposit back
+    simulator.switchUser(bob);
+    simulator.withdrawSealedBid(1n);
+    expect(simulator.getPaidOut(bob)).toBe(1_000n);
+    simulator.switchUser(dave);
+    simulator.withdrawSealedBid(1n);
+    expect(simulator.getPaidOut(dave)).toBe(1_000n);
+
+    expect(() => {
+      simulator.settleSealedAuction(1n);
+    }).toThrow("Reveal period has not ended yet");
+    simulator.setBlockTime(3_000n);
+    simulator.switchUser(alice);
+    simulator.settleSealedAuction(1n);
+
+    // Charlie pays his bid out of the deposit and gets the rest back
+    expect(simulator.ownerOf(1n)).toBe(charlie);
+    expect(simulator.getPaidOut(alice)).toBe(500n);
+    expect(simulator.getPaidOut(charlie)).toBe(500n);
+    expect(simulator.getSealedBidDeposits(1n)).toBe(0n);
+
+    // The amount of Dave's beaten bid never reached the ledger
+    const amounts = simulator.getActivity().map((entry) => entry.amount);
+    expect(amounts).not.toContain(200n);
+  });
+
+  it("should check sealed bids against the reserve price and the deposit", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    expect(() => {
+      simulator.createSealedAuction(1n, 100n, 50n, 2_000n, 3_000n);
+    }).toThrow("Deposit must cover the reserve price");
+    expect(() => {
+      simulator.createSealedAuction(1n, 100n, 1_000n, 2_000n, 2_000n);
+    }).toThrow("Reveal end time must be after the bidding end time");
+    simulator.createSealedAuction(1n, 100n, 1_000n, 2_000n, 3_000n);
+    expect(() => {
+      simulator.commitSealedBid(1n, 200n);
+    }).toThrow("Cannot bid on your own auction");
+
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.commitSealedBid(1n, 50n);
+    }).toThrow("Bid is below the reserve price");
+    expect(() => {
+      simulator.commitSealedBid(1n, 1_500n);
+    }).toThrow("Bid exceeds the deposit");
+    expect(() => {
+      simulator.commitSealedBid(1n, 200n, 200n);
+    }).toThrow("Escrowed amount must match the deposit");
+
+    // Rejected bids are not kept in the private state
+    expect(simulator.getPrivateState().sealedBids).toEqual([]);
+    simulator.commitSealedBid(1n, 200n);
+    expect(() => {
+      simulator.commitSealedBid(1n, 300n);
+    }).toThrow("Existing sealed bid on kitty 1, withdraw it first");
+
+    // While bidding is open a bid can be withdrawn and placed again
+    simulator.withdrawSealedBid(1n);
+    expect(simulator.getPaidOut(bob)).toBe(1_000n);
+    simulator.commitSealedBid(1n, 300n);
+
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.cancelSealedAuction(1n);
+    }).toThrow("Auction already has bids");
+
+    simulator.setBlockTime(2_000n);
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.commitSealedBid(1n, 400n);
+    }).toThrow("Existing sealed bid on kitty 1, withdraw it first");
+    expect(() => {
+      simulator.withdrawSealedBid(1n);
+    }).toThrow(
+      "Unrevealed sealed bids can only be withdrawn while bidding is open"
+    );
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.commitSealedBid(1n, 300n);
+    }).toThrow("Bidding has closed");
+  });
+
+  it("should return the kitty to the seller when no bid is revealed", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createSealedAuction(1n, 100n, 1_000n, 2_000n, 3_000n);
+    simulator.switchUser(bob);
+    simulator.commitSealedBid(1n, 300n);
+
+    simulator.setBlockTime(3_000n);
+    simulator.settleSealedAuction(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+
+    // Bob's leftover bid can't be revealed when the kitty is auctioned again
+    simulator.switchUser(alice);
+    simulator.createSealedAuction(1n, 100n, 1_000n, 4_000n, 5_000n);
+    simulator.setBlockTime(4_000n);
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.revealSealedBid(1n);
+    }).toThrow("Sealed bid is for another auction");
+
+    // Nor withdrawn: its deposit went to the seller when revealing closed
+    expect(() => {
+      simulator.withdrawSealedBid(1n);
+    }).toThrow(
+      "Unrevealed sealed bids can only be withdrawn while bidding is open"
+    );
+    const [[commitment]] = Array.from(simulator.getLedger().sealedBidStates);
+    expect(() => {
+      simulator.claimSealedBidDeposit(1n, commitment);
+    }).toThrow("Only the seller can claim the deposit");
+    simulator.switchUser(alice);
+    simulator.claimSealedBidDeposit(1n, commitment);
+    expect(simulator.getPaidOut(alice)).toBe(1_000n);
+    expect(simulator.getPaidOut(bob)).toBe(0n);
+    expect(simulator.getSealedBidDeposits(1n)).toBe(0n);
+
+    // Without bids the seller can cancel
+    simulator.cancelSealedAuction(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+  });
+
+  it("should forfeit a withheld bid so that shading bids costs more than the highest one", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createSealedAuction(1n, 100n, 1_000n, 2_000n, 3_000n);
+    simulator.switchUser(charlie);
+    simulator.commitSealedBid(1n, 400n);
+
+    // Bob places two bids under two owner secrets, meaning to reveal only the cheapest one that wins
+    simulator.switchUser(bob);
+    simulator.commitSealedBid(1n, 450n);
+    const lowBid = simulator.getPrivateState();
+    simulator.setPrivateState({
+      ...lowBid,
+      ownerSecret: simulator.createSecretSeed(),
+      sealedBids: []
+    });
+    simulator.commitSealedBid(1n, 900n);
+
+    simulator.setBlockTime(2_000n);
+    simulator.switchUser(charlie);
+    simulator.revealSealedBid(1n);
+    simulator.switchUser(bob);
+    simulator.setPrivateState(lowBid);
+    simulator.revealSealedBid(1n);
+    expect(simulator.getSealedAuction(1n).leadingBid).toBe(450n);
+
+    // The seller can't take the withheld deposit before revealing closes
+    const [[withheld]] = Array.from(
+      simulator.getLedger().sealedBidStates
+    ).filter(([, state]) => !state.revealed);
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.claimSealedBidDeposit(1n, withheld);
+    }).toThrow("Reveal period has not ended yet");
+
+    simulator.setBlockTime(3_000n);
+    simulator.settleSealedAuction(1n);
+    simulator.claimSealedBidDeposit(1n, withheld);
+    expect(() => {
+      simulator.claimSealedBidDeposit(1n, withheld);
+    }).toThrow("No sealed bid deposit for this kitty");
+
+    // Bob gets the kitty for 450 but loses the whole 1000 deposit of the withheld bid
+    expect(simulator.ownerOf(1n)).toBe(bob);
+    expect(simulator.getPaidOut(alice)).toBe(1_450n);
+    expect(simulator.getPaidOut(bob)).toBe(550n);
+    expect(simulator.getActivity().at(-1)?.kind).toBe(
+      ActivityKind.DepositForfeited
+    );
+
+    // Charlie revealed a beaten bid and withdraws the deposit
+    simulator.switchUser(charlie);
+    simulator.withdrawSealedBid(1n);
+    expect(simulator.getPaidOut(charlie)).toBe(1_000n);
+  });
+});
+
+describe("Gifts", () => {
+  it("should let whoever knows the secret claim a gifted kitty", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    const secret = simulator.createGift(1n);
+
+    // The kitty is out of circulation until it is claimed
+    expect(simulator.bytesToPublicKey(simulator.getGift(1n).giver)).toBe(alice);
+    expect(simulator.getKitty(1n).forSale).toBe(false);
+    expect(() => {
+      simulator.transferKitty(bob, 1n);
+    }).toThrow("Kitty does not exist");
+
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.claimGift(1n, simulator.createSecretSeed());
+    }).toThrow("Invalid gift secret");
+
+    simulator.switchUser(bob);
+    simulator.claimGift(1n, secret);
+    expect(simulator.ownerOf(1n)).toBe(bob);
+    expect(simulator.bytesToPublicKey(simulator.getKitty(1n).owner)).toBe(bob);
+    expect(simulator.getLedger().gifts.member(1n)).toBe(false);
+
+    // A claimed gift can't be claimed again
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.claimGift(1n, secret);
+    }).toThrow("Kitty is not gifted");
+
+    const kinds = simulator.getActivity().map((entry) => entry.kind);
+    expect(kinds.slice(-2)).toEqual([
+      ActivityKind.GiftCreated,
+      ActivityKind.GiftClaimed
+    ]);
+  });
+
+  it("should let the giver reclaim an unclaimed gift", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    const secret = simulator.createGift(1n);
+    expect(() => {
+      simulator.createGift(1n);
+    }).toThrow("Kitty is already gifted");
+
+    // A secret only opens the gift it was made for
+    simulator.createGift(2n, secret);
+    simulator.reclaimGift(2n);
+    expect(simulator.ownerOf(2n)).toBe(alice);
+
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.createGift(2n);
+    }).toThrow("Not the owner of this kitty");
+    expect(() => {
+      simulator.reclaimGift(1n);
+    }).toThrow("Only the giver can reclaim a gift");
+
+    // Reclaiming stays open while the contract is paused, claiming doesn't
+    simulator.switchUser(alice);
+    simulator.pause();
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.claimGift(1n, secret);
+    }).toThrow("Contract is paused");
+    simulator.switchUser(alice);
+    simulator.reclaimGift(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+  });
+
+  it("should not gift shielded kitties", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.shieldKitty(1n);
+    expect(() => {
+      simulator.createGift(1n);
+    }).toThrow("Shielded kitties can't be gifted");
+  });
+});
+
+describe("Rentals", () => {
+  it("should let a borrower breed with a rented kitty until the rental ends", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1 (Female), owned by Alice
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 2 (Male), owned by Bob
+    simulator.offerRental(2n, alice, RentalKind.Breeding, 2_000n, 100n);
+
+    // An offer alone grants nothing
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.breedKitty(1n, 2n);
+    }).toThrow("No siring approval for parent kitty 2");
+
+    expect(() => {
+      simulator.acceptRental(2n, 50n);
+    }).toThrow("Payment must match the rental fee");
+    simulator.acceptRental(2n);
+    expect(simulator.getPaidOut(bob)).toBe(100n);
+    expect(simulator.getRental(2n).active).toBe(true);
+
+    // Bob keeps the kitty but can't sell or give it away while it is rented
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.transferKitty(charlie, 2n);
+    }).toThrow("Kitty is rented");
+    expect(() => {
+      simulator.setPrice(2n, 500n);
+    }).toThrow("Kitty is rented");
+
+    // Alice breeds with it and keeps the offspring, Bob keeps the parent
+    simulator.switchUser(alice);
+    simulator.breedKitty(1n, 2n);
+    expect(simulator.ownerOf(3n)).toBe(alice);
+    expect(simulator.ownerOf(2n)).toBe(bob);
+
+    // Breeding rights lapse on their own at the end time
+    simulator.setBlockTime(2_000n);
+    expect(() => {
+      simulator.breedKitty(1n, 2n);
+    }).toThrow("No siring approval for parent kitty 2");
+
+    simulator.switchUser(bob);
+    simulator.transferKitty(charlie, 2n);
+    expect(simulator.ownerOf(2n)).toBe(charlie);
+    expect(simulator.getLedger().rentals.member(2n)).toBe(false);
+  });
+
+  it("should hand a kitty to its borrower without letting them dispose of it", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 300n);
+    simulator.offerRental(1n, bob, RentalKind.Custody, 2_000n);
+
+    simulator.switchUser(bob);
+    simulator.acceptRental(1n);
+    expect(simulator.ownerOf(1n)).toBe(bob);
+    expect(simulator.bytesToPublicKey(simulator.getKitty(1n).owner)).toBe(bob);
+    expect(simulator.getKitty(1n).forSale).toBe(false);
+
+    expect(() => {
+      simulator.transferKitty(charlie, 1n);
+    }).toThrow("Kitty is rented");
+    expect(() => {
+      simulator.setPrice(1n, 100n);
+    }).toThrow("Kitty is rented");
+    expect(() => {
+      simulator.createGift(1n);
+    }).toThrow("Kitty is rented");
+    expect(() => {
+      simulator.burnKitty(1n);
+    }).toThrow("Kitty is rented");
+
+    // The lender has to wait for the end time, the borrower doesn't
+    simulator.switchUser(alice);
+    expect(() => {
+      simulator.endRental(1n);
+    }).toThrow("Rental has not ended yet");
+
+    simulator.setBlockTime(2_000n);
+    simulator.endRental(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+    expect(simulator.getLedger().rentals.member(1n)).toBe(false);
+
+    simulator.offerRental(1n, bob, RentalKind.Custody, 3_000n);
+    simulator.switchUser(bob);
+    simulator.acceptRental(1n);
+    simulator.endRental(1n);
+    expect(simulator.ownerOf(1n)).toBe(alice);
+
+    const kinds = simulator.getActivity().map((entry) => entry.kind);
+    expect(kinds.slice(-3)).toEqual([
+      ActivityKind.RentalOffered,
+      ActivityKind.Rented,
+      ActivityKind.RentalEnded
+    ]);
+  });
+
+  it("should only let the chosen borrower accept an open offer", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createShieldedKitty(); // Kitty ID 2
+    expect(() => {
+      simulator.offerRental(1n, alice, RentalKind.Breeding, 2_000n);
+    }).toThrow("Cannot rent a kitty to yourself");
+    expect(() => {
+      simulator.offerRental(1n, bob, RentalKind.Breeding, 1_000n);
+    }).toThrow("Rental end time must be in the future");
+    expect(() => {
+      simulator.offerRental(2n, bob, RentalKind.Breeding, 2_000n);
+    }).toThrow("Shielded kitties can't be rented");
+
+    simulator.offerRental(1n, bob, RentalKind.Custody, 2_000n);
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.acceptRental(1n);
+    }).toThrow("Rental is offered to another account");
+    expect(() => {
+      simulator.endRental(1n);
+    }).toThrow("Not the lender or borrower of this kitty");
+
+    // An offer that wasn't taken up in time can't be accepted
+    simulator.switchUser(bob);
+    simulator.setBlockTime(2_000n);
+    expect(() => {
+      simulator.acceptRental(1n);
+    }).toThrow("Rental offer has expired");
+
+    // Withdrawn offers are gone, and transfers drop open ones
+    simulator.switchUser(alice);
+    simulator.endRental(1n);
+    expect(simulator.getLedger().rentals.member(1n)).toBe(false);
+    simulator.offerRental(1n, bob, RentalKind.Custody, 3_000n);
+    simulator.transferKitty(charlie, 1n);
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.acceptRental(1n);
+    }).toThrow("No rental offered for this kitty");
+  });
+});
+
+describe("Royalties", () => {
+  it("should pay the creator a royalty when a kitty is resold", () => {
+    const simulator = new KittiesSimulator(500n); // 5%
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    expect(simulator.getRoyaltyRate()).toBe(500n);
+    simulator.createKitty(); // Kitty ID 1, created by Alice
+    expect(simulator.getKitty(1n).creator).toEqual(
+      simulator.publicKeyToBytes(alice)
+    );
+
+    // The creator selling their own kitty keeps the full price
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+    simulator.switchUser(alice);
+    simulator.approveOffer(1n, bob);
+    expect(simulator.getPaidOut(alice)).toBe(100n);
+
+    // On a resale the creator gets 5% and the seller the rest
+    simulator.switchUser(bob);
+    simulator.setPrice(1n, 200n);
+    simulator.switchUser(charlie);
+    simulator.createBuyOffer(1n, 200n);
+    simulator.switchUser(bob);
+    simulator.approveOffer(1n, charlie);
+    expect(simulator.getPaidOut(alice)).toBe(10n);
+    expect(simulator.getPaidOut(bob)).toBe(190n);
+  });
+
+  it("should credit the breeder and pay royalties on auction sales", () => {
+    const simulator = new KittiesSimulator(500n); // 5%
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1 (Female)
+    simulator.createKitty(); // Kitty ID 2 (Male)
+    simulator.transferKitty(bob, 1n);
+    simulator.transferKitty(bob, 2n);
+
+    // Bob bred the offspring, so Bob is its creator
+    simulator.switchUser(bob);
+    simulator.breedKitty(1n, 2n); // Kitty ID 3
+    expect(simulator.getKitty(3n).creator).toEqual(
+      simulator.publicKeyToBytes(bob)
+    );
+    simulator.transferKitty(charlie, 3n);
+
+    // Charlie sells it in a Dutch auction that Alice buys
+    simulator.switchUser(charlie);
+    simulator.createDutchAuction(3n, 1_000n, 1_000n, 900n);
+    simulator.switchUser(alice);
+    simulator.buyDutchAuction(3n, 1_000n);
+    expect(simulator.getPaidOut(bob)).toBe(50n);
+    expect(simulator.getPaidOut(charlie)).toBe(950n);
+  });
+
+  it("should reject royalty rates above 100% and round shares down", () => {
+    expect(() => new KittiesSimulator(10_001n)).toThrow(
+      "Royalty rate can't exceed 100%"
+    );
+    expect(new KittiesSimulator(10_000n).getRoyaltyRate()).toBe(10_000n);
+
+    // 5% of 30 is 1.5, the creator gets 1
+    expect(getRoyaltyShare(30n, 500n)).toBe(1n);
+  });
+});
+
+describe("Administration", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should make the deployer admin and let only the admin pause", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    expect(simulator.getAdmin()).toEqual(alice);
+    expect(simulator.isPaused()).toBe(false);
+
+    simulator.switchUser(bob);
+    expect(() => simulator.pause()).toThrow("Only the admin can do this");
+
+    simulator.switchUser(alice);
+    simulator.pause();
+    expect(simulator.isPaused()).toBe(true);
+    expect(() => simulator.pause()).toThrow("Contract is already paused");
+
+    simulator.unpause();
+    expect(simulator.isPaused()).toBe(false);
+    expect(() => simulator.unpause()).toThrow("Contract is not paused");
+  });
+
+  it("should block trading while paused but let buyers cancel offers", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+
+    simulator.switchUser(alice);
+    simulator.pause();
+    expect(() => simulator.createKitty()).toThrow("Contract is paused");
+    expect(() => simulator.transferKitty(bob, 1n)).toThrow(
+      "Contract is paused"
+    );
+    expect(() => simulator.approveOffer(1n, bob)).toThrow("Contract is paused");
+
+    // Bob can still get the escrow back
+    simulator.switchUser(bob);
+    simulator.cancelOffer(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+
+    simulator.switchUser(alice);
+    simulator.unpause();
+    simulator.transferKitty(bob, 1n);
+    expect(simulator.ownerOf(1n)).toEqual(bob);
+  });
+
+  it("should enforce the generation 0 supply and wallet limits", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setMintPolicy(3n, 2n, 0n);
+    expect(simulator.getMintPolicy()).toEqual({
+      maxGen0Supply: 3n,
+      walletLimit: 2n,
+      mintFee: 0n
+    });
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    expect(() => simulator.createKitty()).toThrow(
+      "Mint limit reached for this account"
+    );
+
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 3
+    expect(() => simulator.createKitty()).toThrow(
+      "Generation 0 supply is sold out"
+    );
+    expect(() => simulator.setMintPolicy(0n, 0n, 0n)).toThrow(
+      "Only the admin can do this"
+    );
+    expect(simulator.getAllKittiesCount()).toBe(3n);
+  });
+
+  it("should count shielded generation 0 mints without disclosing the minter", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+
+    simulator.setMintPolicy(0n, 2n, 0n);
+    simulator.createShieldedKitty(); // Kitty ID 1
+    simulator.createShieldedKitty(); // Kitty ID 2
+    expect(() => simulator.createShieldedKitty()).toThrow(
+      "Mint limit reached for this account"
+    );
+    const ledger = simulator.getLedger();
+    expect(ledger.gen0MintedBy.member(alice)).toBe(false);
+    expect(ledger.gen0Nullifiers.size()).toBe(2n);
+
+    // An index that was used already can't be minted with again
+    vi.spyOn(witnesses, "gen0MintIndex").mockImplementation(
+      ({ privateState }) => [privateState, 0n]
+    );
+    expect(() => simulator.createShieldedKitty()).toThrow(
+      "Mint index already used"
+    );
+
+    // Public mints are counted apart
+    simulator.createKitty(); // Kitty ID 3
+    expect(simulator.getLedger().gen0MintedBy.lookup(alice)).toBe(1n);
+  });
+
+  it("should charge the mint fee and forward it to the admin", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setMintPolicy(0n, 0n, 50n);
+    simulator.switchUser(bob);
+    expect(() => simulator.createKitty(undefined, 10n)).toThrow(
+      "Payment must match the mint fee"
+    );
+    simulator.createKitty(); // Kitty ID 1, pays 50
+    expect(simulator.ownerOf(1n)).toEqual(bob);
+    expect(simulator.getPaidOut(alice)).toBe(50n);
+  });
+
+  it("should hand over the admin role", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.transferAdmin(bob);
+    expect(simulator.getAdmin()).toEqual(bob);
+    expect(() => simulator.pause()).toThrow("Only the admin can do this");
+
+    simulator.switchUser(bob);
+    simulator.pause();
+    simulator.transferAdmin(alice);
+    expect(() => simulator.unpause()).toThrow("Only the admin can do this");
+  });
+});
+
+describe("Allowlist", () => {
+  it("should only let listed keys mint, up to their entry's limit", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const carol = simulator.createPublicKey("Carol");
+
+    const bobEntry: AllowlistEntry = {
+      kind: "key",
+      value: simulator.publicKeyToBytes(bob).bytes,
+      limit: 2n
+    };
+    const allowlist = createAllowlist([
+      {
+        kind: "key",
+        value: simulator.publicKeyToBytes(alice).bytes,
+        limit: 1n
+      },
+      bobEntry
+    ]);
+    simulator.setAllowlistRoot(allowlist.root);
+    expect(simulator.getAllowlistRoot()).toEqual(allowlist.root);
+
+    const ticket = getAllowlistTicket(allowlist, bobEntry);
+    simulator.switchUser(bob);
+    simulator.useAllowlistTicket(ticket);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createShieldedKitty(); // Kitty ID 2
+    expect(() => simulator.createKitty()).toThrow(
+      "Allowlist mint limit reached"
+    );
+    expect(simulator.getAllowlistMinted(getAllowlistLeaf(bobEntry))).toBe(2n);
+
+    // A raised limit or someone else's ticket doesn't match a leaf
+    simulator.useAllowlistTicket({ ...ticket, limit: 5n });
+    expect(() => simulator.createKitty()).toThrow("Not on the allowlist");
+    simulator.switchUser(carol);
+    expect(() => simulator.createKitty()).toThrow(
+      "Private state has no allowlist ticket"
+    );
+    simulator.useAllowlistTicket(ticket);
+    expect(() => simulator.createKitty()).toThrow("Not on the allowlist");
+    expect(() =>
+      getAllowlistTicket(allowlist, {
+        kind: "key",
+        value: simulator.publicKeyToBytes(carol).bytes
+      })
+    ).toThrow("Not on the allowlist");
+    expect(simulator.getAllKittiesCount()).toBe(2n);
+  });
+
+  it("should let whoever holds a listed secret mint", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const carol = simulator.createPublicKey("Carol");
+
+    const secretEntry: AllowlistEntry = {
+      kind: "secret",
+      value: simulator.createSecretSeed(),
+      limit: 1n
+    };
+    const allowlist = createAllowlist([secretEntry]);
+    simulator.setAllowlistRoot(allowlist.root);
+
+    simulator.switchUser(bob);
+    simulator.useAllowlistTicket(getAllowlistTicket(allowlist, secretEntry));
+    simulator.createKitty(); // Kitty ID 1
+    expect(simulator.ownerOf(1n)).toEqual(bob);
+
+    // The entry is used up, whoever holds the secret
+    simulator.switchUser(carol);
+    simulator.useAllowlistTicket(getAllowlistTicket(allowlist, secretEntry));
+    expect(() => simulator.createKitty()).toThrow(
+      "Allowlist mint limit reached"
+    );
+    expect(() => simulator.setAllowlistRoot({ field: 0n })).toThrow(
+      "Only the admin can do this"
+    );
+
+    // Clearing the root opens minting again
+    simulator.switchUser(alice);
+    simulator.setAllowlistRoot({ field: 0n });
+    simulator.switchUser(carol);
+    simulator.createKitty(); // Kitty ID 2
+    expect(simulator.ownerOf(2n)).toEqual(carol);
+  });
+});
+
+describe("Accessories", () => {
+  it("should let the admin mint accessories that owners trade and equip", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.mintAccessory(alice, AccessorySlot.Hat, 2n); // Accessory ID 1
+    simulator.mintAccessory(alice, AccessorySlot.Hat, 0n); // Accessory ID 2
+    simulator.mintAccessory(bob, AccessorySlot.Collar, 1n); // Accessory ID 3
+    expect(simulator.getAccessoryCount()).toBe(3n);
+    expect(simulator.getAccessory(1n).style).toBe(2n);
+    expect(simulator.bytesToPublicKey(simulator.getAccessory(3n).owner)).toBe(
+      bob
+    );
+
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.mintAccessory(bob, AccessorySlot.Hat, 0n);
+    }).toThrow("Only the admin can do this");
+    expect(() => {
+      simulator.transferAccessory(bob, 1n);
+    }).toThrow("Not the owner of this accessory");
+
+    simulator.switchUser(alice);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.equipAccessory(1n, 1n);
+    expect(simulator.getKittyAccessories(1n).hat).toBe(1n);
+    expect(simulator.getAccessory(1n).kittyId).toBe(1n);
+    expect(() => {
+      simulator.equipAccessory(1n, 3n);
+    }).toThrow("Not the owner of this accessory");
+
+    // A new hat replaces the old one, which goes back to the owner
+    simulator.equipAccessory(1n, 2n);
+    expect(simulator.getKittyAccessories(1n).hat).toBe(2n);
+    expect(simulator.getAccessory(1n).kittyId).toBe(0n);
+    expect(simulator.bytesToPublicKey(simulator.getAccessory(1n).owner)).toBe(
+      alice
+    );
+    simulator.transferAccessory(bob, 1n);
+    expect(simulator.bytesToPublicKey(simulator.getAccessory(1n).owner)).toBe(
+      bob
+    );
+
+    simulator.unequipAccessory(1n, AccessorySlot.Hat);
+    expect(simulator.getLedger().kittyAccessories.member(1n)).toBe(false);
+    expect(() => {
+      simulator.unequipAccessory(1n, AccessorySlot.Hat);
+    }).toThrow("No accessory in this slot");
+
+    const kinds = simulator.getActivity().map((entry) => entry.kind);
+    expect(kinds.slice(-3)).toEqual([
+      ActivityKind.AccessoriesChanged,
+      ActivityKind.AccessoriesChanged,
+      ActivityKind.AccessoriesChanged
+    ]);
+  });
+
+  it("should keep worn accessories on the kitty when it changes hands", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.mintAccessory(alice, AccessorySlot.Background, 3n); // Accessory ID 1
+    simulator.createKitty(); // Kitty ID 1
+    simulator.equipAccessory(1n, 1n);
+    expect(() => {
+      simulator.transferAccessory(bob, 1n);
+    }).toThrow("Unequip the accessory first");
+    expect(() => {
+      simulator.burnKitty(1n);
+    }).toThrow("Unequip the kitty's accessories first");
+
+    simulator.transferKitty(bob, 1n);
+    expect(simulator.getKittyAccessories(1n).background).toBe(1n);
+    expect(() => {
+      simulator.unequipAccessory(1n, AccessorySlot.Background);
+    }).toThrow("Not the owner of this kitty");
+
+    // The new owner takes the accessory off and keeps it
+    simulator.switchUser(bob);
+    simulator.unequipAccessory(1n, AccessorySlot.Background);
+    expect(simulator.bytesToPublicKey(simulator.getAccessory(1n).owner)).toBe(
+      bob
+    );
+    simulator.burnKitty(1n);
+  });
+
+  it("should not change the accessories of a rented kitty", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.mintAccessory(alice, AccessorySlot.Collar, 0n); // Accessory ID 1
+    simulator.mintAccessory(bob, AccessorySlot.Hat, 0n); // Accessory ID 2
+    simulator.createKitty(); // Kitty ID 1
+    simulator.equipAccessory(1n, 1n);
+    simulator.offerRental(1n, bob, RentalKind.Custody, 2_000n);
+
+    simulator.switchUser(bob);
+    simulator.acceptRental(1n);
+    expect(() => {
+      simulator.equipAccessory(1n, 2n);
+    }).toThrow("Kitty is rented");
+    expect(() => {
+      simulator.unequipAccessory(1n, AccessorySlot.Collar);
+    }).toThrow("Kitty is rented");
+
+    simulator.endRental(1n);
+    expect(simulator.getKittyAccessories(1n).collar).toBe(1n);
+  });
+});
+
+describe("Burning", () => {
+  it("should burn a kitty and keep counting it as created", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.burnKitty(1n);
+
+    expect(() => simulator.getKitty(1n)).toThrow("Kitty does not exist");
+    expect(simulator.balanceOf(alice)).toBe(1n);
+    expect(simulator.getAllKittiesCount()).toBe(2n);
+    expect(simulator.getLiveSupply()).toBe(1n);
+
+    // Burned IDs are never reused
+    simulator.createKitty(); // Kitty ID 3
+    expect(simulator.ownerOf(3n)).toEqual(alice);
+    expect(simulator.getLiveSupply()).toBe(2n);
+    expect(() => simulator.burnKitty(1n)).toThrow("Kitty does not exist");
+  });
+
+  it("should only let the owner or an approved operator burn", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createKitty(); // Kitty ID 3
+    simulator.approve(bob, 1n);
+
+    simulator.switchUser(charlie);
+    expect(() => simulator.burnKitty(1n)).toThrow(
+      "Not the owner or an approved operator"
+    );
+
+    // Bob is approved for kitty 1 only
+    simulator.switchUser(bob);
+    simulator.burnKitty(1n);
+    expect(() => simulator.burnKitty(2n)).toThrow(
+      "Not the owner or an approved operator"
+    );
+
+    // An operator for all of Alice's kitties can burn any of them
+    simulator.switchUser(alice);
+    simulator.setApprovalForAll(charlie, true);
+    simulator.switchUser(charlie);
+    simulator.burnKitty(2n);
+    expect(simulator.balanceOf(alice)).toBe(1n);
+  });
+
+  it("should drop open offers but keep their escrow refundable", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+
+    simulator.switchUser(alice);
+    simulator.burnKitty(1n);
+    expect(simulator.getOffer(1n, bob).price).toBe(0n);
+
+    simulator.switchUser(bob);
+    simulator.withdrawRefund(1n);
+    expect(simulator.getPaidOut(bob)).toBe(100n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+  });
+
+  it("should burn shielded kitties but not auctioned ones", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createShieldedKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createDutchAuction(2n, 100n, 50n, 600n);
+
+    expect(() => simulator.burnKitty(2n)).toThrow("Kitty is on auction");
+
+    simulator.switchUser(bob);
+    expect(() => simulator.burnKitty(1n)).toThrow(
+      "Not the owner of this kitty"
+    );
+
+    simulator.switchUser(alice);
+    simulator.burnKitty(1n);
+    expect(simulator.ownsShieldedKitty(1n)).toBe(false);
+    expect(simulator.getLiveSupply()).toBe(1n);
+  });
+});
+
+describe("Names and Metadata", () => {
+  it("should let the owner name a kitty and set its metadata URI", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    expect(simulator.getKittyMetadata(1n)).toEqual({ name: "", uri: "" });
+
+    simulator.setKittyMetadata(1n, "Whiskers", "ipfs://bafykitty");
+    expect(simulator.getKittyMetadata(1n)).toEqual({
+      name: "Whiskers",
+      uri: "ipfs://bafykitty"
+    });
+
+    simulator.switchUser(bob);
+    expect(() => simulator.setKittyMetadata(1n, "Mine now")).toThrow(
+      "Not the owner of this kitty"
+    );
+  });
+
+  it("should keep the name on transfer and drop it on burn", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setKittyMetadata(1n, "Whiskers");
+    simulator.transferKitty(bob, 1n);
+    expect(simulator.getKittyMetadata(1n).name).toBe("Whiskers");
+
+    // The new owner can rename it, or clear the name and URI
+    simulator.switchUser(bob);
+    simulator.setKittyMetadata(1n, "Mittens");
+    expect(simulator.getKittyMetadata(1n).name).toBe("Mittens");
+    simulator.setKittyMetadata(1n, "");
+    expect(simulator.getLedger().kittyMetadata.member(1n)).toBe(false);
+
+    simulator.setKittyMetadata(1n, "Mittens");
+    simulator.burnKitty(1n);
+    expect(simulator.getKittyMetadata(1n)).toEqual({ name: "", uri: "" });
+  });
+
+  it("should let the owner of a shielded kitty name it", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createShieldedKitty(); // Kitty ID 1
+    simulator.setKittyMetadata(1n, "Ghost");
+    expect(simulator.getKittyMetadata(1n).name).toBe("Ghost");
+
+    simulator.switchUser(bob);
+    expect(() => simulator.setKittyMetadata(1n, "Mine now")).toThrow(
+      "Not the owner of this kitty"
+    );
+  });
+});
+
+describe("Batch Operations", () => {
+  it("should transfer several kitties in one call", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createKitty(); // Kitty ID 3
+    simulator.setPrice(2n, 100n);
+
+    simulator.batchTransferKitty(bob, [1n, 2n]);
+    expect(simulator.ownerOf(1n)).toEqual(bob);
+    expect(simulator.ownerOf(2n)).toEqual(bob);
+    expect(simulator.getKitty(2n).forSale).toBe(false);
+    expect(simulator.balanceOf(alice)).toBe(1n);
+  });
+
+  it("should fail the whole batch if one kitty fails", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createShieldedKitty(); // Kitty ID 3
+
+    simulator.switchUser(alice);
+    expect(() => simulator.batchTransferKitty(bob, [1n, 2n])).toThrow();
+    expect(() => simulator.batchSetPrice([1n, 9n], 100n)).toThrow(
+      "Kitty does not exist"
+    );
+    expect(simulator.ownerOf(1n)).toEqual(alice);
+    expect(simulator.getKitty(1n).forSale).toBe(false);
+
+    simulator.switchUser(bob);
+    expect(() => simulator.batchTransferKitty(alice, [2n, 3n])).toThrow(
+      "Kitty is shielded, use transferShieldedKitty"
+    );
+    expect(simulator.ownerOf(2n)).toEqual(bob);
+  });
+
+  it("should list and delist several kitties in one call", () => {
+    const simulator = new KittiesSimulator();
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createShieldedKitty(); // Kitty ID 3
+
+    simulator.batchSetPrice([1n, 2n, 3n], 250n);
+    for (const kittyId of [1n, 2n, 3n]) {
+      expect(simulator.getKitty(kittyId).price).toBe(250n);
+      expect(simulator.getKitty(kittyId).forSale).toBe(true);
+    }
+
+    simulator.batchCancelListing([1n, 3n]);
+    expect(simulator.getKitty(1n).forSale).toBe(false);
+    expect(simulator.getKitty(2n).forSale).toBe(true);
+    expect(simulator.getKitty(3n).price).toBe(0n);
+  });
+
+  it("should reject batches over the batch size", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    expect(() =>
+      simulator.batchTransferKitty(
+        bob,
+        Array.from({ length: BATCH_SIZE + 1 }, (_, i) => BigInt(i + 1))
+      )
+    ).toThrow(`A batch holds at most ${BATCH_SIZE} kitties`);
+    expect(splitIntoBatches([1n, 2n, 3n]).length).toBe(1);
+    expect(
+      splitIntoBatches(
+        Array.from({ length: BATCH_SIZE * 2 + 1 }, (_, i) => BigInt(i + 1))
+      ).map((batch) => batch.filter((kittyId) => kittyId !== 0n).length)
+    ).toEqual([BATCH_SIZE, BATCH_SIZE, 1]);
+  });
+});
+
+describe("Bundles", () => {
+  it("should sell a bundle as a unit and pay the shared creator's royalty", () => {
+    const simulator = new KittiesSimulator(500n); // 5%
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty(); // Kitty ID 1, created by Alice
+    simulator.createKitty(); // Kitty ID 2, created by Alice
+    simulator.batchTransferKitty(bob, [1n, 2n]);
+
+    simulator.switchUser(bob);
+    simulator.createBundle([1n, 2n], 300n); // Bundle ID 1
+    const bundle = simulator.getBundle(1n);
+    expect(bundle.seller).toEqual(simulator.publicKeyToBytes(bob));
+    expect(bundle.size).toBe(2n);
+    expect(bundle.price).toBe(300n);
+    expect(simulator.getKittyBundle(2n)).toBe(1n);
+    expect(() => simulator.createBundleOffer(1n, 300n)).toThrow(
+      "Cannot buy your own bundle"
+    );
+
+    simulator.switchUser(charlie);
+    expect(() => simulator.createBundleOffer(1n, 299n)).toThrow(
+      "Bid price too low"
+    );
+    simulator.createBundleOffer(1n, 300n);
+    expect(simulator.getBundleEscrow(1n, charlie)).toBe(300n);
+
+    simulator.switchUser(bob);
+    simulator.approveBundleOffer(1n, charlie);
+    expect(simulator.ownerOf(1n)).toEqual(charlie);
+    expect(simulator.ownerOf(2n)).toEqual(charlie);
+    expect(simulator.getPaidOut(alice)).toBe(15n);
+    expect(simulator.getPaidOut(bob)).toBe(285n);
+    expect(simulator.getBundle(1n).size).toBe(0n);
+    expect(simulator.getKittyBundle(1n)).toBe(0n);
+    expect(
+      simulator
+        .getActivity()
+        .filter((activity) => activity.kind === ActivityKind.BundleSold)
+        .map((activity) => activity.kittyId)
+    ).toEqual([1n, 2n]);
+  });
+
+  it("should drop a bundle when one of its kitties changes hands", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createKitty(); // Kitty ID 3
+    simulator.createBundle([1n, 2n, 3n], 500n); // Bundle ID 1
+
+    simulator.switchUser(bob);
+    simulator.createBundleOffer(1n, 500n);
+
+    // Selling one kitty on its own frees the rest of the bundle
+    simulator.switchUser(alice);
+    simulator.setPrice(2n, 100n);
+    simulator.switchUser(charlie);
+    simulator.createBuyOffer(2n, 100n);
+    simulator.switchUser(alice);
+    simulator.approveOffer(2n, charlie);
+    expect(simulator.getBundle(1n).size).toBe(0n);
+    expect(simulator.getKittyBundle(1n)).toBe(0n);
+    expect(simulator.getKittyBundle(3n)).toBe(0n);
+    expect(() => simulator.approveBundleOffer(1n, bob)).toThrow(
+      "Bundle does not exist"
+    );
+
+    // The offer went with the bundle, so its escrow can be withdrawn
+    simulator.switchUser(bob);
+    simulator.withdrawBundleRefund(1n);
+    expect(simulator.getPaidOut(bob)).toBe(500n);
+    expect(simulator.getBundleEscrow(1n, bob)).toBe(0n);
+
+    // A transfer drops a bundle just the same, and freed kitties can be bundled again
+    simulator.switchUser(alice);
+    simulator.createBundle([1n, 3n], 400n); // Bundle ID 2
+    simulator.transferKitty(bob, 3n);
+    expect(simulator.getBundle(2n).size).toBe(0n);
+    expect(simulator.getKittyBundle(1n)).toBe(0n);
+  });
+
+  it("should let the seller cancel a bundle and reject offers", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createBundle([1n, 2n], 200n); // Bundle ID 1
+
+    simulator.switchUser(bob);
+    simulator.createBundleOffer(1n, 250n);
+    expect(() => simulator.cancelBundle(1n)).toThrow(
+      "Only the seller can cancel a bundle"
+    );
+    expect(() => simulator.withdrawBundleRefund(1n)).toThrow(
+      "Offer is still active"
+    );
+
+    simulator.switchUser(alice);
+    simulator.rejectBundleOffer(1n, bob);
+    expect(simulator.getBundleOffer(1n, bob).price).toBe(0n);
+    simulator.cancelBundle(1n);
+    expect(simulator.getBundle(1n).size).toBe(0n);
+    expect(simulator.ownerOf(1n)).toEqual(alice);
+
+    simulator.switchUser(bob);
+    simulator.withdrawBundleRefund(1n);
+    expect(simulator.getPaidOut(bob)).toBe(250n);
+  });
+
+  it("should reject bundles that can't be sold as one lot", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.createShieldedKitty(); // Kitty ID 3
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 4, created by Bob
+    simulator.transferKitty(alice, 4n);
+
+    simulator.switchUser(alice);
+    expect(() => simulator.createBundle([1n], 100n)).toThrow(
+      "A bundle needs at least 2 kitties"
+    );
+    expect(() => simulator.createBundle([1n, 1n], 100n)).toThrow(
+      "A kitty can only be in a bundle once"
+    );
+    expect(() => simulator.createBundle([1n, 2n], 0n)).toThrow(
+      "Price must be positive"
+    );
+    expect(() => simulator.createBundle([1n, 3n], 100n)).toThrow(
+      "Shielded kitties can't be bundled"
+    );
+    expect(() => simulator.createBundle([1n, 4n], 100n)).toThrow(
+      "Bundled kitties must share a creator"
+    );
+
+    simulator.createBundle([1n, 2n], 100n); // Bundle ID 1
+    simulator.createKitty(); // Kitty ID 5
+    expect(() => simulator.createBundle([5n, 2n], 100n)).toThrow(
+      "Kitty is already in a bundle"
+    );
+
+    simulator.switchUser(bob);
+    simulator.createKitty(); // Kitty ID 6
+    expect(() => simulator.createBundle([6n, 1n], 100n)).toThrow(
+      "Not the owner of this kitty"
+    );
+  });
+});
+
+describe("Counter-Offers", () => {
+  it("should let the buyer accept a counter price in one step", () => {
+    const simulator = new KittiesSimulator(500n); // 5%
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty(); // Kitty ID 1, created by Alice
+    simulator.transferKitty(bob, 1n);
+
+    simulator.switchUser(bob);
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(charlie);
+    simulator.createBuyOffer(1n, 120n);
+    expect(() => {
+      simulator.acceptCounterOffer(1n, 0n);
+    }).toThrow("No counter offer to accept");
+
+    // Only the owner can counter, and only above the bid
+    expect(() => {
+      simulator.counterOffer(1n, charlie, 200n);
+    }).toThrow("Only owner can counter offers.");
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.counterOffer(1n, charlie, 120n);
+    }).toThrow("Counter price must be above the bid");
+
+    // A second counter replaces the first
+    simulator.counterOffer(1n, charlie, 220n);
+    simulator.counterOffer(1n, charlie, 200n);
+    const countered = simulator.getOffer(1n, charlie);
+    expect(countered.status).toBe(OfferStatus.Countered);
+    expect(countered.price).toBe(120n);
+    expect(countered.counterPrice).toBe(200n);
+
+    // Charlie tops up the escrowed bid with the missing 80
+    simulator.switchUser(charlie);
+    expect(() => {
+      simulator.acceptCounterOffer(1n, 50n);
+    }).toThrow("Payment must cover the rest of the counter price");
+    simulator.acceptCounterOffer(1n);
+    expect(simulator.ownerOf(1n)).toBe(charlie);
+    expect(simulator.getEscrow(1n, charlie)).toBe(0n);
+    expect(simulator.getPaidOut(alice)).toBe(10n);
+    expect(simulator.getPaidOut(bob)).toBe(190n);
+
+    const accepted = simulator.getOffer(1n, charlie);
+    expect(accepted.status).toBe(OfferStatus.Accepted);
+    expect(accepted.counterPrice).toBe(200n);
+
+    // The negotiation can be read back from the activity log
+    expect(
+      simulator
+        .getActivity()
+        .filter(
+          (entry) => entry.amount > 0n && entry.kind !== ActivityKind.Listed
+        )
+        .map((entry) => [entry.kind, entry.amount])
+    ).toEqual([
+      [ActivityKind.Offer, 120n],
+      [ActivityKind.OfferCountered, 220n],
+      [ActivityKind.OfferCountered, 200n],
+      [ActivityKind.Sale, 200n]
+    ]);
+  });
+
+  it("should keep the last 8 steps of the negotiation on the offer", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+    simulator.switchUser(alice);
+    for (let counter = 1n; counter <= 9n; counter++) {
+      simulator.counterOffer(1n, bob, 100n + counter);
+    }
+
+    // The bid and the first counter are dropped, the last 8 counters are kept
+    const offer = simulator.getOffer(1n, bob);
+    expect(offer.stepCount).toBe(10n);
+    expect(offer.steps.map((step) => step.activity.amount)).toEqual([
+      102n,
+      103n,
+      104n,
+      105n,
+      106n,
+      107n,
+      108n,
+      109n
+    ]);
+
+    // Each step matches the activity log entry it was logged as
+    const log = new Map(
+      Array.from(simulator.getLedger().activityLog).map(([seq, entry]) => [
+        seq,
+        entry
+      ])
+    );
+    offer.steps.forEach((step) => {
+      expect(log.get(step.seq)).toEqual(step.activity);
+    });
+    expect(offer.steps[7].activity.kind).toBe(ActivityKind.OfferCountered);
+  });
+
+  it("should keep the bid open to approval or rejection after a counter", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const charlie = simulator.createPublicKey("Charlie");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n);
+    simulator.switchUser(charlie);
+    simulator.createBuyOffer(1n, 110n);
+
+    simulator.switchUser(alice);
+    simulator.counterOffer(1n, bob, 150n);
+    simulator.counterOffer(1n, charlie, 150n);
+
+    // Rejecting a countered offer closes it, so its counter can't be accepted
+    simulator.rejectOffer(1n, bob);
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.acceptCounterOffer(1n);
+    }).toThrow("No counter offer to accept");
+    expect(() => {
+      simulator.cancelOffer(1n);
+    }).toThrow("No offer to cancel");
+    simulator.withdrawRefund(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+
+    // Approving sells at the bid and wipes the counter
+    simulator.switchUser(alice);
+    simulator.approveOffer(1n, charlie);
+    expect(simulator.ownerOf(1n)).toBe(charlie);
+    expect(simulator.getPaidOut(alice)).toBe(110n);
+    expect(simulator.getOffer(1n, charlie).counterPrice).toBe(0n);
+    expect(() => {
+      simulator.counterOffer(1n, charlie, 200n);
+    }).toThrow("Only owner can counter offers.");
+  });
+
+  it("should refuse to counter or accept expired offers", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.setBlockTime(1_000n);
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 100n, 100n, 2_000n);
+
+    simulator.switchUser(alice);
+    simulator.counterOffer(1n, bob, 130n);
+
+    simulator.setBlockTime(3_000n);
+    expect(() => {
+      simulator.counterOffer(1n, bob, 120n);
+    }).toThrow("Offer has expired.");
+    simulator.switchUser(bob);
+    expect(() => {
+      simulator.acceptCounterOffer(1n);
+    }).toThrow("Offer has expired.");
+
+    // The buyer can still cancel a countered offer to recover the escrow
+    simulator.cancelOffer(1n);
+    expect(simulator.getEscrow(1n, bob)).toBe(0n);
+  });
+});
+
+describe("Migration", () => {
+  it("should recreate kitties under the same IDs on a new deployment", () => {
+    const source = new KittiesSimulator();
+    const alice = source.createPublicKey("Alice");
+    const bob = source.createPublicKey("Bob");
+
+    source.createKitty(); // Kitty ID 1
+    source.createKitty(); // Kitty ID 2
+    source.createKitty(); // Kitty ID 3
+    source.createKitty(); // Kitty ID 4
+    source.setPrice(1n, 100n);
+    source.setKittyMetadata(3n, "Whiskers");
+    source.transferKitty(bob, 3n);
+    source.burnKitty(2n);
+    source.burnKitty(4n);
+
+    const target = new KittiesSimulator();
+    target.pause();
+    target.openImport();
+    for (const kittyId of [1n, 3n]) {
+      const metadata = source.getLedger().kittyMetadata;
+      target.importKitty(
+        kittyId,
+        source.getKitty(kittyId),
+        metadata.member(kittyId) ? metadata.lookup(kittyId) : undefined
+      );
+    }
+    target.finishImport(
+      source.getAllKittiesCount(),
+      source.getLedger().gen0Count
+    );
+    target.unpause();
+
+    expect(target.getKitty(1n)).toEqual(source.getKitty(1n));
+    expect(target.getKitty(1n).price).toBe(100n);
+    expect(target.ownerOf(3n)).toEqual(bob);
+    expect(target.getKittyMetadata(3n).name).toBe("Whiskers");
+    expect(() => target.getKitty(2n)).toThrow("Kitty does not exist");
+    expect(target.getAllKittiesCount()).toBe(4n);
+    expect(target.getLiveSupply()).toBe(2n);
+    expect(target.isImportOpen()).toBe(false);
+
+    // New kitties continue after the old deployment's last ID
+    target.createKitty(); // Kitty ID 5
+    expect(target.ownerOf(5n)).toEqual(alice);
+  });
+
+  it("should only import as the admin, while paused and before finishing", () => {
+    const source = new KittiesSimulator();
+    source.createKitty(); // Kitty ID 1
+    const kitty = source.getKitty(1n);
+
+    const target = new KittiesSimulator();
+    const alice = target.createPublicKey("Alice");
+    const bob = target.createPublicKey("Bob");
+
+    expect(() => target.importKitty(1n, kitty)).toThrow("Import is closed");
+    target.openImport();
+    expect(() => target.importKitty(1n, kitty)).toThrow(
+      "Pause the contract before importing"
+    );
+    target.pause();
+    target.switchUser(bob);
+    expect(() => target.importKitty(1n, kitty)).toThrow(
+      "Only the admin can do this"
+    );
+
+    target.switchUser(alice);
+    target.importKitty(1n, kitty);
+    expect(() => target.importKitty(1n, kitty)).toThrow(
+      "Kitties must be imported in ascending ID order"
+    );
+    expect(() => target.finishImport(0n, 1n)).toThrow(
+      "Total count is below the imported kitties"
+    );
+
+    target.finishImport(1n, 1n);
+    expect(() => target.importKitty(2n, kitty)).toThrow("Import is closed");
+  });
+
+  it("should reject the import once normal operation has begun", () => {
+    const source = new KittiesSimulator();
+    source.createKitty(); // Kitty ID 1
+    const kitty = source.getKitty(1n);
+
+    const target = new KittiesSimulator();
+    const alice = target.createPublicKey("Alice");
+    const bob = target.createPublicKey("Bob");
+    expect(target.isImportOpen()).toBe(false);
+    target.switchUser(bob);
+    expect(() => target.openImport()).toThrow("Only the admin can do this");
+
+    // The first minted kitty closes an open import for good
+    target.switchUser(alice);
+    target.openImport();
+    expect(() => target.openImport()).toThrow("Import is already open");
+    target.createKitty(); // Kitty ID 1
+    expect(target.isImportOpen()).toBe(false);
+    target.pause();
+    expect(() => target.importKitty(2n, kitty)).toThrow("Import is closed");
+    expect(() => target.openImport()).toThrow(
+      "Import can only be opened before any kitty exists"
+    );
+  });
+
+  it("should carry the generation 0 mint limits over", () => {
+    const source = new KittiesSimulator();
+    const alice = source.createPublicKey("Alice");
+    const entry: AllowlistEntry = {
+      kind: "key",
+      value: source.publicKeyToBytes(alice).bytes,
+      limit: 3n
+    };
+    const allowlist = createAllowlist([entry]);
+    source.setMintPolicy(0n, 2n, 0n);
+    source.setAllowlistRoot(allowlist.root);
+    source.useAllowlistTicket(getAllowlistTicket(allowlist, entry));
+    source.createKitty(); // Kitty ID 1
+    source.createShieldedKitty(); // Kitty ID 2
+    source.burnKitty(1n);
+
+    // Only the shielded kitty is left, but both mints count
+    const target = new KittiesSimulator();
+    target.pause();
+    target.openImport();
+    target.importKitty(
+      2n,
+      source.getKitty(2n),
+      undefined,
+      source.getLedger().shieldedOwners.lookup(2n)
+    );
+    const ledger = source.getLedger();
+    for (const [account, minted] of ledger.gen0MintedBy) {
+      target.importGen0Minted(target.bytesToPublicKey(account), minted);
+    }
+    for (const nullifier of ledger.gen0Nullifiers) {
+      target.importGen0Nullifier(nullifier);
+    }
+    for (const [leaf, minted] of ledger.allowlistMinted) {
+      target.importAllowlistMinted(leaf, minted);
+    }
+    target.finishImport(2n, ledger.gen0Count);
+    target.setMintPolicy(0n, 2n, 0n);
+    target.setAllowlistRoot(allowlist.root);
+    target.unpause();
+
+    target.useAllowlistTicket(getAllowlistTicket(allowlist, entry));
+    target.setPrivateState({
+      ...target.getPrivateState(),
+      ownerSecret: source.getPrivateState().ownerSecret
+    });
+    expect(
+      target.getLedger().gen0MintedBy.lookup(target.publicKeyToBytes(alice))
+    ).toBe(1n);
+    expect(target.getAllowlistMinted(getAllowlistLeaf(entry))).toBe(2n);
+
+    // One more public and one more shielded mint fit the wallet limit
+    target.createKitty(); // Kitty ID 3
+    expect(() => target.createKitty()).toThrow(
+      "Mint limit reached for this account"
+    );
+    expect(() => target.createShieldedKitty()).toThrow(
+      "Allowlist mint limit reached"
+    );
+    expect(target.getAllowlistMinted(getAllowlistLeaf(entry))).toBe(3n);
+
+    // The imported nullifier keeps the owner secret's first index used
+    target.setAllowlistRoot({ field: 0n });
+    vi.spyOn(witnesses, "gen0MintIndex").mockImplementation(
+      ({ privateState }) => [privateState, 0n]
+    );
+    expect(() => target.createShieldedKitty()).toThrow(
+      "Mint index already used"
+    );
+    vi.restoreAllMocks();
+    target.createShieldedKitty(); // Kitty ID 4
+    expect(target.getLedger().gen0Nullifiers.size()).toBe(2n);
+  });
+
+  it("should keep shielded kitties provable by their owner", () => {
+    const source = new KittiesSimulator();
+    source.createShieldedKitty(); // Kitty ID 1
+
+    const target = new KittiesSimulator();
+    target.pause();
+    target.openImport();
+    target.importKitty(
+      1n,
+      source.getKitty(1n),
+      undefined,
+      source.getLedger().shieldedOwners.lookup(1n)
+    );
+    target.finishImport(1n, 1n);
+    target.unpause();
+
+    // The owner brings the same owner secret to the new deployment
+    target.setPrivateState(source.getPrivateState());
+    expect(target.ownsShieldedKitty(1n)).toBe(true);
+    target.setPrice(1n, 50n);
+    expect(target.getKitty(1n).forSale).toBe(true);
+  });
+});
+
+describe("Activity Log", () => {
+  it("should record each state change with its accounts and amount", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const bob = simulator.createPublicKey("Bob");
+    const nobody = simulator.bytesToPublicKey({ bytes: new Uint8Array(32) });
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 100n);
+    simulator.switchUser(bob);
+    simulator.createBuyOffer(1n, 120n);
+    simulator.switchUser(alice);
+    simulator.approveOffer(1n, bob);
+
+    expect(simulator.getActivity()).toEqual([
+      {
+        seq: 0n,
+        kind: ActivityKind.Mint,
+        kittyId: 1n,
+        from: nobody,
+        to: alice,
+        amount: 0n
+      },
+      {
+        seq: 1n,
+        kind: ActivityKind.Listed,
+        kittyId: 1n,
+        from: alice,
+        to: nobody,
+        amount: 100n
+      },
+      {
+        seq: 2n,
+        kind: ActivityKind.Offer,
+        kittyId: 1n,
+        from: bob,
+        to: alice,
+        amount: 120n
+      },
+      {
+        seq: 3n,
+        kind: ActivityKind.Sale,
+        kittyId: 1n,
+        from: alice,
+        to: bob,
+        amount: 120n
+      }
+    ]);
+  });
+
+  it("should log one entry per kitty in a batch and skip failed calls", () => {
+    const simulator = new KittiesSimulator();
+    const bob = simulator.createPublicKey("Bob");
+
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+    simulator.batchTransferKitty(bob, [1n, 2n]);
+    expect(() => simulator.burnKitty(1n)).toThrow(
+      "Not the owner or an approved operator"
+    );
+
+    const transfers = simulator
+      .getActivity()
+      .filter((entry) => entry.kind === ActivityKind.Transfer);
+    expect(transfers.map((entry) => entry.kittyId)).toEqual([1n, 2n]);
+    expect(transfers.every((entry) => entry.to === bob)).toBe(true);
+    expect(simulator.getLedger().activityCount).toBe(4n);
+  });
+
+  it("should log shielded kitties under the shielded vault", () => {
+    const simulator = new KittiesSimulator();
+    const alice = simulator.createPublicKey("Alice");
+    const vault = simulator.bytesToPublicKey({ bytes: SHIELDED_VAULT_KEY });
+
+    simulator.createShieldedKitty(); // Kitty ID 1
+    simulator.setPrice(1n, 50n);
+
+    const accounts = simulator
+      .getActivity()
+      .flatMap((entry) => [entry.from, entry.to]);
+    expect(accounts).toContain(vault);
+    expect(accounts).not.toContain(alice);
+  });
+
+  it("should keep only the last 1024 entries", () => {
+    const simulator = new KittiesSimulator();
+    simulator.createKitty(); // Kitty ID 1
+    for (let price = 1n; price <= 1030n; price++) {
+      simulator.setPrice(1n, price);
+    }
+
+    const activity = simulator.getActivity();
+    expect(simulator.getLedger().activityCount).toBe(1031n);
+    expect(activity).toHaveLength(1024);
+    expect(activity[0].seq).toBe(7n);
+    expect(activity[1023]).toMatchObject({
+      seq: 1030n,
+      kind: ActivityKind.Listed,
+      amount: 1030n
+    });
+  });
+});
+
+describe("Kitty Genome Inheritance", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Mirrors inheritGene and mutateGene in the contract
+  const expectedGene = (gene1: Gene, gene2: Gene, seed: GeneSeed): Gene => {
+    const roll = seed.inherit;
+    const allele1 = roll < 192n ? gene1.dominant : gene1.recessive;
+    const allele2 =
+      roll < 144n || (roll >= 192n && roll < 240n)
+        ? gene2.dominant
+        : gene2.recessive;
+    const firstShows =
+      roll < 72n ||
+      (roll >= 144n && roll < 168n) ||
+      (roll >= 192n && roll < 216n) ||
+      (roll >= 240n && roll < 248n);
+    const gene = firstShows
+      ? { dominant: allele1, recessive: allele2 }
+      : { dominant: allele2, recessive: allele1 };
+    return seed.mutation < 8n
+      ? { dominant: seed.mutant, recessive: gene.recessive }
+      : gene;
+  };
+
+  it("should breed genes from the revealed random seeds", () => {
+    const simulator = new KittiesSimulator();
+    simulator.createKitty(); // Kitty ID 1
+    simulator.createKitty(); // Kitty ID 2
+
+    // Record the seeds split from the revealed randomness
+    const split = vi.spyOn(witnesses, "splitRandomness");
+    simulator.breedKitty(1n, 2n); // Kitty ID 3
+    const [, { seeds }] = split.mock.results[0].value;
+
+    const genes1 = decodeGenes(simulator.getKitty(1n).dna);
+    const genes2 = decodeGenes(simulator.getKitty(2n).dna);
+    const child = decodeGenes(simulator.getKitty(3n).dna);
+
+    child.forEach((gene, slot) => {
+      expect(gene).toEqual(
+        expectedGene(genes1[slot], genes2[slot], seeds[slot])
+      );
+    });
+  });
+
+  it("should reject random seeds that don't match the revealed randomness", () => {
+    const simulator = new KittiesSimulator();
+
+    // Every random byte is 25: the seeds a caller might want to force
+    vi.spyOn(witnesses, "splitRandomness").mockImplementation(
+      ({ privateState }) => [
+        privateState,
+        {
+          seeds: GENE_SLOTS.map(() => ({
+            inherit: 25n,
+            mutation: 25n,
+            mutant: 25n
+          })),
+          high: 0n
+        }
+      ]
+    );
+
+    expect(() => {
+      simulator.createKitty();
+    }).toThrow("Invalid random seeds");
+  });
+
+  it("should decode traits from the dominant and recessive alleles", () => {
+    const genes = GENE_SLOTS.map((_, slot) => ({
+      dominant: BigInt(slot),
+      recessive: BigInt(slot + 8)
+    }));
+    const dna = encodeGenes(genes);
+
+    const traits = decodeTraits(dna);
+    expect(traits.body).toEqual({ name: "Persian", recessive: "Persian" });
+    expect(traits.pattern.name).toBe("Tiger");
+    expect(traits.mouth.name).toBe("Grim");
+
+    // Only the alleles that show are kept
+    expect(decodeGenes(expressedDNA(dna))).toEqual(
+      genes.map((gene) => ({ dominant: gene.dominant, recessive: 0n }))
+    );
+
+    // Alleles that show the same trait name give the same expressed DNA
+    const sameTraits = encodeGenes(
+      genes.map((gene) => ({
+        dominant: gene.dominant + 8n * 31n,
+        recessive: gene.recessive
+      }))
+    );
+    expect(decodeTraits(sameTraits)).toEqual(traits);
+    expect(expressedDNA(sameTraits)).toBe(expressedDNA(dna));
+
+    expect(() => decodeGenes(1n << 128n)).toThrow(
+      "DNA does not encode a kitty genome"
+    );
+  });
 });
@@ -25,8 +25,18 @@
 
 import {
   Contract as ContractType,
-  Witnesses
+  Witnesses,
+  type AllowlistTicket,
+  type Gene,
+  type RandomSplit,
+  type SealedBidOpening,
+  type ShieldedKittyOpening
 } from "./managed/kitties/contract/index.cjs";
+import { GENE_SLOTS, decodeGenes } from "./genome.js";
+import { getRoyaltyShare } from "./royalties.js";
+import { getShieldedKittyOpening } from "./attestations.js";
+import { getGen0MintIndex } from "./shielded.js";
+import { getPoolSnapshotTime } from "./randomness.js";
 
 import { WitnessContext } from "@midnight-ntwrk/compact-runtime";
 
@@ -45,25 +55,159 @@ export type Contract<T, W extends Witnesses<T> = Witnesses<T>> = ContractType<
   W
 >;
 
-// This is how we type an empty object.
-export type KittiesPrivateState = {};
+// The secret seed is replaced on every commitRandomness, which commits to the
+// new one, and revealed when a kitty is created or bred. The owner secret proves
+// ownership of shielded kitties. Neither ever leaves the private state. Sealed
+// bids stay here until they are withdrawn; only the winning one is ever disclosed. The allowlist ticket, if any,
+// is what generation 0 kitties are minted with while an allowlist is set.
+export type KittiesPrivateState = {
+  readonly secretSeed: Uint8Array;
+  readonly ownerSecret: Uint8Array;
+  readonly sealedBids?: readonly SealedBid[];
+  readonly allowlistTicket?: AllowlistTicket;
+};
+
+// A sealed bid the user placed, at most one per kitty
+export type SealedBid = SealedBidOpening & {
+  readonly kittyId: bigint;
+};
 
-export function createKittiesPrivateState(): KittiesPrivateState {
-  return {};
+export function createKittiesPrivateState(
+  secretSeed: Uint8Array,
+  ownerSecret: Uint8Array,
+  sealedBids: readonly SealedBid[] = [],
+  allowlistTicket?: AllowlistTicket
+): KittiesPrivateState {
+  return { secretSeed, ownerSecret, sealedBids, allowlistTicket };
 }
 
+const SEED_BITS = 24n;
+const SEEDS_BITS = SEED_BITS * BigInt(GENE_SLOTS.length);
+const BYTE_MASK = 0xffn;
+
 export const witnesses = {
-  createRandomNumber: ({
+  randomSeed: ({
+    privateState
+  }: WitnessContext<any, KittiesPrivateState>): [
+    KittiesPrivateState,
+    Uint8Array
+  ] => {
+    if (!privateState?.secretSeed) {
+      throw new Error("Private state has no secret seed");
+    }
+    return [privateState, privateState.secretSeed];
+  },
+
+  freshRandomSeed: ({
+    privateState
+  }: WitnessContext<any, KittiesPrivateState>): [
+    KittiesPrivateState,
+    Uint8Array
+  ] => {
+    const secretSeed = globalThis.crypto.getRandomValues(new Uint8Array(32));
+    return [{ ...privateState, secretSeed }, secretSeed];
+  },
+
+  poolSnapshotTime: (
+    { privateState, ledger }: WitnessContext<any, KittiesPrivateState>,
+    after: bigint
+  ): [KittiesPrivateState, bigint] => {
+    // The contract checks that the snapshot exists and that the one before it is older than after
+    return [privateState, getPoolSnapshotTime(ledger, after)];
+  },
+
+  ownerSecret: ({
     privateState
   }: WitnessContext<any, KittiesPrivateState>): [
     KittiesPrivateState,
     Uint8Array
   ] => {
-    // Generate 32 random bytes using Math.random()
-    const randomBytes = new Uint8Array(32);
-    for (let i = 0; i < 32; i++) {
-      randomBytes[i] = Math.floor(Math.random() * 256);
+    if (!privateState?.ownerSecret) {
+      throw new Error("Private state has no owner secret");
+    }
+    return [privateState, privateState.ownerSecret];
+  },
+
+  sealedBidOpening: (
+    { privateState }: WitnessContext<any, KittiesPrivateState>,
+    kittyId: bigint
+  ): [KittiesPrivateState, SealedBidOpening] => {
+    const bid = privateState?.sealedBids?.find(
+      (entry) => entry.kittyId === kittyId
+    );
+    if (!bid) {
+      throw new Error(`Private state has no sealed bid for kitty ${kittyId}`);
+    }
+    const { bidEndTime, price, salt } = bid;
+    return [privateState, { bidEndTime, price, salt }];
+  },
+
+  splitRandomness: (
+    { privateState }: WitnessContext<any, KittiesPrivateState>,
+    randomness: bigint
+  ): [KittiesPrivateState, RandomSplit] => {
+    // Three bytes per gene slot below the high bits, first slot most significant.
+    // The contract re-packs the seeds and rejects them unless they match the value
+    const seeds = GENE_SLOTS.map((_, index) => {
+      const shift = SEED_BITS * BigInt(GENE_SLOTS.length - 1 - index);
+      return {
+        inherit: (randomness >> (shift + 16n)) & BYTE_MASK,
+        mutation: (randomness >> (shift + 8n)) & BYTE_MASK,
+        mutant: (randomness >> shift) & BYTE_MASK
+      };
+    });
+    return [privateState, { seeds, high: randomness >> SEEDS_BITS }];
+  },
+
+  divideRoyalty: (
+    { privateState }: WitnessContext<any, KittiesPrivateState>,
+    price: bigint,
+    rate: bigint
+  ): [KittiesPrivateState, bigint] => {
+    // The contract multiplies the share back out and rejects it unless it is the rounded down quotient
+    return [privateState, getRoyaltyShare(price, rate)];
+  },
+
+  unpackGenome: (
+    { privateState }: WitnessContext<any, KittiesPrivateState>,
+    dna: bigint
+  ): [KittiesPrivateState, Gene[]] => {
+    // The contract re-packs the genes and rejects them unless they match the DNA
+    return [privateState, decodeGenes(dna)];
+  },
+
+  shieldedKittyOpening: (
+    { privateState, ledger }: WitnessContext<any, KittiesPrivateState>,
+    kittyId: bigint
+  ): [KittiesPrivateState, ShieldedKittyOpening] => {
+    // The contract recomputes the leaf with the owner secret and checks the path against the current root
+    return [privateState, getShieldedKittyOpening(ledger, kittyId)];
+  },
+
+  allowlistTicket: ({
+    privateState
+  }: WitnessContext<any, KittiesPrivateState>): [
+    KittiesPrivateState,
+    AllowlistTicket
+  ] => {
+    // The contract recomputes the leaf and checks the path against the allowlist root
+    if (!privateState?.allowlistTicket) {
+      throw new Error("Private state has no allowlist ticket");
+    }
+    return [privateState, privateState.allowlistTicket];
+  },
+
+  gen0MintIndex: ({
+    privateState,
+    ledger
+  }: WitnessContext<any, KittiesPrivateState>): [
+    KittiesPrivateState,
+    bigint
+  ] => {
+    // The contract recomputes the nullifier with the owner secret and rejects it if it was used
+    if (!privateState?.ownerSecret) {
+      throw new Error("Private state has no owner secret");
     }
-    return [privateState, randomBytes];
+    return [privateState, getGen0MintIndex(ledger, privateState.ownerSecret)];
   }
 };
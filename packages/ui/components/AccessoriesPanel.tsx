@@ -0,0 +1,180 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file AccessoriesPanel.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Chip, Paper, TextField, Typography } from '@mui/material';
+import type { AccessoryData, KittyData } from '@repo/kitties-api';
+import { hexToBytes, toHex } from './utils.js';
+
+interface AccessoriesPanelProps {
+  kittiesApi: any; // API instance
+  walletPublicKey?: { bytes: Uint8Array } | Uint8Array;
+}
+
+export const AccessoriesPanel: React.FC<AccessoriesPanelProps> = ({ kittiesApi, walletPublicKey }) => {
+  const [held, setHeld] = useState<AccessoryData[]>([]);
+  const [worn, setWorn] = useState<AccessoryData[]>([]);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Per-accessory form inputs, keyed by accessory ID
+  const [kittyIds, setKittyIds] = useState<Record<string, string>>({});
+  const [recipients, setRecipients] = useState<Record<string, string>>({});
+
+  const walletBytes = walletPublicKey
+    ? walletPublicKey instanceof Uint8Array
+      ? walletPublicKey
+      : walletPublicKey.bytes
+    : null;
+  const walletHex = walletBytes ? toHex(walletBytes) : '';
+
+  // Reload this wallet's accessories, and the ones its kitties wear, whenever the contract state changes
+  useEffect(() => {
+    if (!kittiesApi || !walletBytes) return;
+
+    const subscription = kittiesApi.state$.subscribe({
+      next: () => {
+        Promise.all([
+          kittiesApi.getUserAccessories({ bytes: walletBytes }),
+          kittiesApi.getMyKitties({ bytes: walletBytes }),
+        ])
+          .then(([accessories, kitties]: [AccessoryData[], KittyData[]]) => {
+            setHeld(accessories);
+            setWorn(kitties.flatMap((kitty) => kitty.accessories));
+          })
+          .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [kittiesApi, walletHex]);
+
+  if (!walletBytes || (held.length === 0 && worn.length === 0)) {
+    return null;
+  }
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const renderAccessory = (accessory: AccessoryData) => {
+    const key = accessory.id.toString();
+    const isWorn = accessory.kittyId !== 0n;
+
+    return (
+      <Paper key={key} elevation={2} sx={{ p: 2, borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">{accessory.name}</Typography>
+          <Chip size="small" label={accessory.slot.toUpperCase()} />
+        </Box>
+        <Typography variant="body2" color="textSecondary">
+          Accessory #{key}
+          {isWorn && ` · worn by kitty #${accessory.kittyId}`}
+        </Typography>
+
+        {isWorn ? (
+          <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+            <Button
+              variant="outlined"
+              disabled={pending !== null}
+              onClick={() =>
+                void run(key, () => kittiesApi.unequipAccessory({ kittyId: accessory.kittyId, slot: accessory.slot }))
+              }
+            >
+              Take off
+            </Button>
+          </Box>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+              <TextField
+                size="small"
+                label="Kitty ID"
+                value={kittyIds[key] ?? ''}
+                onChange={(e) => setKittyIds({ ...kittyIds, [key]: e.target.value })}
+              />
+              <Button
+                variant="contained"
+                disabled={pending !== null || !kittyIds[key]}
+                onClick={() =>
+                  void run(key, () =>
+                    kittiesApi.equipAccessory({ kittyId: BigInt(kittyIds[key]), accessoryId: accessory.id }),
+                  )
+                }
+              >
+                Put on
+              </Button>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+              <TextField
+                size="small"
+                label="Recipient key (hex)"
+                value={recipients[key] ?? ''}
+                onChange={(e) => setRecipients({ ...recipients, [key]: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <Button
+                variant="outlined"
+                disabled={pending !== null || !recipients[key]}
+                onClick={() =>
+                  void run(key, () =>
+                    kittiesApi.transferAccessory({
+                      accessoryId: accessory.id,
+                      to: { bytes: hexToBytes(recipients[key], 'Recipient key') },
+                    }),
+                  )
+                }
+              >
+                Send
+              </Button>
+            </Box>
+          </>
+        )}
+        {pending === key && (
+          <Typography variant="caption" color="textSecondary">
+            Executing...
+          </Typography>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ margin: '0 0 8px 0', color: '#333' }}>Accessories</h2>
+      <div style={{ color: '#666', fontSize: '14px', marginBottom: '16px' }}>
+        Hats, collars and backgrounds for your kitties · Worn accessories go with the kitty when it is sold
+      </div>
+
+      {error && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+          gap: '16px',
+        }}
+      >
+        {[...held, ...worn].map(renderAccessory)}
+      </div>
+    </div>
+  );
+};
+
+export default AccessoriesPanel;
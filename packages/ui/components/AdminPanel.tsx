@@ -0,0 +1,315 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file AdminPanel.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+/* global window, document, Blob, URL */
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Chip, MenuItem, Paper, TextField, Typography } from '@mui/material';
+import {
+  ACCESSORY_SLOTS,
+  ACCESSORY_STYLES,
+  createAllowlist,
+  encodeAllowlistCode,
+  parseAllowlistCsv,
+  serializeAllowlist,
+  type AccessorySlot,
+  type AccessorySlotName,
+  type MintPolicy,
+} from '@repo/kitties-api';
+import { hexToBytes, toHex } from './utils.js';
+
+interface AdminPanelProps {
+  kittiesApi: any; // API instance
+  walletPublicKey?: { bytes: Uint8Array } | Uint8Array;
+}
+
+interface AdminState {
+  admin: { bytes: Uint8Array };
+  paused: boolean;
+  mintPolicy: MintPolicy;
+  allowlistActive: boolean;
+}
+
+// Hands the published allowlist to the admin as a file to share with minters
+const downloadFile = (name: string, contents: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Only rendered for the admin's wallet; the contract rejects admin calls from anyone else anyway
+export const AdminPanel: React.FC<AdminPanelProps> = ({ kittiesApi, walletPublicKey }) => {
+  const [adminState, setAdminState] = useState<AdminState | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Mint policy form, 0 disables a limit or the fee
+  const [maxGen0Supply, setMaxGen0Supply] = useState('');
+  const [walletLimit, setWalletLimit] = useState('');
+  const [mintFee, setMintFee] = useState('');
+  const [newAdmin, setNewAdmin] = useState('');
+  const [allowlistCodes, setAllowlistCodes] = useState<string[]>([]);
+  const [accessorySlot, setAccessorySlot] = useState<AccessorySlotName>('hat');
+  const [accessoryStyle, setAccessoryStyle] = useState(0);
+  const [accessoryOwner, setAccessoryOwner] = useState('');
+
+  const walletHex = walletPublicKey
+    ? toHex(walletPublicKey instanceof Uint8Array ? walletPublicKey : walletPublicKey.bytes)
+    : '';
+
+  useEffect(() => {
+    if (!kittiesApi) return;
+
+    const subscription = kittiesApi.state$.subscribe({
+      next: (state: AdminState) => {
+        setAdminState({
+          admin: state.admin,
+          paused: state.paused,
+          mintPolicy: state.mintPolicy,
+          allowlistActive: state.allowlistActive,
+        });
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [kittiesApi]);
+
+  // Prefill the form whenever the policy on the ledger changes
+  const policy = adminState?.mintPolicy;
+  useEffect(() => {
+    if (!policy) return;
+    setMaxGen0Supply(policy.maxGen0Supply.toString());
+    setWalletLimit(policy.walletLimit.toString());
+    setMintFee(policy.mintFee.toString());
+  }, [policy?.maxGen0Supply, policy?.walletLimit, policy?.mintFee]);
+
+  if (!adminState || !walletHex || toHex(adminState.admin.bytes) !== walletHex) {
+    return null;
+  }
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleSetMintPolicy = () =>
+    run('policy', () =>
+      kittiesApi.setMintPolicy({
+        maxGen0Supply: BigInt(maxGen0Supply || '0'),
+        walletLimit: BigInt(walletLimit || '0'),
+        mintFee: BigInt(mintFee || '0'),
+      }),
+    );
+
+  const handlePublishAllowlist = (csvFile: File) =>
+    run('allowlist', async () => {
+      const entries = parseAllowlistCsv(await csvFile.text());
+      const allowlist = createAllowlist(entries);
+      await kittiesApi.setAllowlist(allowlist);
+      downloadFile(csvFile.name.replace(/\.csv$/i, '') + '.json', serializeAllowlist(allowlist));
+      setAllowlistCodes(
+        entries.filter((entry) => entry.kind === 'secret').map((entry) => encodeAllowlistCode(entry.value)),
+      );
+    });
+
+  // Mints to the admin's own wallet unless a recipient key is given
+  const handleMintAccessory = () =>
+    run('accessory', async () => {
+      const to = accessoryOwner.trim()
+        ? hexToBytes(accessoryOwner, 'Recipient key')
+        : hexToBytes(walletHex, 'Wallet key');
+      await kittiesApi.mintAccessory({ to: { bytes: to }, slot: accessorySlot, style: accessoryStyle });
+      setAccessoryOwner('');
+    });
+
+  const handleTransferAdmin = () =>
+    run('admin', async () => {
+      const bytes = hexToBytes(newAdmin, 'Admin key');
+      if (!window.confirm('Hand the admin role to this key? You will lose access to this panel.')) return;
+      await kittiesApi.transferAdmin({ newAdmin: { bytes } });
+      setNewAdmin('');
+    });
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <h2 style={{ margin: 0, color: '#333' }}>Admin</h2>
+        <Chip
+          size="small"
+          label={adminState.paused ? 'PAUSED' : 'ACTIVE'}
+          color={adminState.paused ? 'error' : 'success'}
+        />
+      </Box>
+      <div style={{ color: '#666', fontSize: '14px', marginBottom: '16px' }}>
+        While paused, only cancelling offers and auctions and withdrawing refunds is possible
+      </div>
+
+      {error && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+
+      <Paper elevation={1} sx={{ p: 2, mb: 2, display: 'flex', gap: 1, alignItems: 'center' }}>
+        <Button
+          variant="contained"
+          color={adminState.paused ? 'success' : 'error'}
+          disabled={pending !== null}
+          onClick={() => void run('pause', () => (adminState.paused ? kittiesApi.unpause() : kittiesApi.pause()))}
+        >
+          {pending === 'pause' ? 'Executing...' : adminState.paused ? 'Unpause contract' : 'Pause contract'}
+        </Button>
+      </Paper>
+
+      {/* Mint Policy Form */}
+      <Paper elevation={1} sx={{ p: 2, mb: 2, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Typography variant="subtitle2" sx={{ width: '100%' }}>
+          Generation 0 mint policy (0 = no limit / free)
+        </Typography>
+        <TextField
+          size="small"
+          type="number"
+          label="Max supply"
+          value={maxGen0Supply}
+          onChange={(e) => setMaxGen0Supply(e.target.value)}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Per account"
+          value={walletLimit}
+          onChange={(e) => setWalletLimit(e.target.value)}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Mint fee"
+          value={mintFee}
+          onChange={(e) => setMintFee(e.target.value)}
+        />
+        <Button variant="contained" disabled={pending !== null} onClick={() => void handleSetMintPolicy()}>
+          {pending === 'policy' ? 'Saving...' : 'Save policy'}
+        </Button>
+      </Paper>
+
+      {/* Allowlist */}
+      <Paper elevation={1} sx={{ p: 2, mb: 2, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Typography variant="subtitle2" sx={{ width: '100%' }}>
+          Generation 0 allowlist: {adminState.allowlistActive ? 'required' : 'off'}
+        </Typography>
+        <Typography variant="body2" color="textSecondary" sx={{ width: '100%' }}>
+          CSV lines of kind,value,limit, e.g. key,&lt;public key hex&gt;,2 or secret,&lt;secret hex&gt;,1. Only the root
+          goes on chain; share the downloaded file with minters.
+        </Typography>
+        <Button variant="contained" component="label" disabled={pending !== null}>
+          {pending === 'allowlist' ? 'Publishing...' : 'Publish CSV'}
+          <input
+            type="file"
+            accept=".csv"
+            hidden
+            onChange={(e) => {
+              const csvFile = e.target.files?.[0];
+              e.target.value = '';
+              if (csvFile) void handlePublishAllowlist(csvFile);
+            }}
+          />
+        </Button>
+        <Button
+          variant="outlined"
+          disabled={pending !== null || !adminState.allowlistActive}
+          onClick={() => void run('allowlist', () => kittiesApi.clearAllowlist())}
+        >
+          Open minting to everyone
+        </Button>
+        {allowlistCodes.length > 0 && (
+          <Box sx={{ width: '100%', fontFamily: 'monospace', fontSize: '12px', wordBreak: 'break-all' }}>
+            <Typography variant="body2">Codes to hand out:</Typography>
+            {allowlistCodes.map((code) => (
+              <div key={code}>{code}</div>
+            ))}
+          </Box>
+        )}
+      </Paper>
+
+      {/* Mint Accessory Form */}
+      <Paper elevation={1} sx={{ p: 2, mb: 2, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Typography variant="subtitle2" sx={{ width: '100%' }}>
+          Mint an accessory
+        </Typography>
+        <TextField
+          select
+          size="small"
+          label="Slot"
+          value={accessorySlot}
+          onChange={(e) => {
+            setAccessorySlot(e.target.value as AccessorySlotName);
+            setAccessoryStyle(0);
+          }}
+        >
+          {ACCESSORY_SLOTS.map((slot) => (
+            <MenuItem key={slot} value={slot}>
+              {slot}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Style"
+          value={accessoryStyle}
+          onChange={(e) => setAccessoryStyle(Number(e.target.value))}
+        >
+          {ACCESSORY_STYLES[ACCESSORY_SLOTS.indexOf(accessorySlot) as AccessorySlot].map((name, style) => (
+            <MenuItem key={name} value={style}>
+              {name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Recipient key (hex, empty for you)"
+          value={accessoryOwner}
+          onChange={(e) => setAccessoryOwner(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Button variant="contained" disabled={pending !== null} onClick={() => void handleMintAccessory()}>
+          {pending === 'accessory' ? 'Minting...' : 'Mint'}
+        </Button>
+      </Paper>
+
+      {/* Transfer Admin Form */}
+      <Paper elevation={1} sx={{ p: 2, display: 'flex', gap: 1, alignItems: 'center' }}>
+        <TextField
+          size="small"
+          label="New admin key (hex)"
+          value={newAdmin}
+          onChange={(e) => setNewAdmin(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          variant="outlined"
+          color="warning"
+          disabled={pending !== null || !newAdmin}
+          onClick={() => void handleTransferAdmin()}
+        >
+          {pending === 'admin' ? 'Transferring...' : 'Transfer admin'}
+        </Button>
+      </Paper>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,99 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file AllowlistEntry.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button, Paper, TextField, Typography } from '@mui/material';
+import { decodeAllowlistCode, parseAllowlist, type AllowlistStatus } from '@repo/kitties-api';
+
+interface AllowlistEntryProps {
+  kittiesApi: any; // API instance
+}
+
+// Only rendered while the admin limits minting to an allowlist
+export const AllowlistEntry: React.FC<AllowlistEntryProps> = ({ kittiesApi }) => {
+  const [status, setStatus] = useState<AllowlistStatus | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [code, setCode] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Mints change what is left on the entry, so reload the status with the contract state
+  useEffect(() => {
+    if (!kittiesApi) return;
+
+    const subscription = kittiesApi.state$.subscribe({
+      next: () => {
+        kittiesApi
+          .getAllowlistStatus()
+          .then(setStatus)
+          .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [kittiesApi]);
+
+  if (!status?.active) {
+    return null;
+  }
+
+  const handleLoad = async () => {
+    if (!file) return;
+    setPending(true);
+    setError(null);
+    try {
+      const allowlist = parseAllowlist(await file.text());
+      await kittiesApi.useAllowlist({ allowlist, secret: code.trim() ? decodeAllowlistCode(code) : undefined });
+      setStatus(await kittiesApi.getAllowlistStatus());
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const left = status.limit - status.minted;
+
+  return (
+    <Paper elevation={1} sx={{ p: 2, mt: 2, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+      <Typography variant="subtitle2" sx={{ width: '100%' }}>
+        Minting is limited to an allowlist
+      </Typography>
+      {status.limit > 0n && (
+        <Typography variant="body2" color={left > 0n ? 'success.main' : 'textSecondary'} sx={{ width: '100%' }}>
+          Your entry has {left.toString()} of {status.limit.toString()} mints left
+        </Typography>
+      )}
+      {(status.limit === 0n || left <= 0n) && (
+        <>
+          <Button variant="outlined" component="label" size="small">
+            {file ? file.name : 'Allowlist file'}
+            <input type="file" accept=".json" hidden onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </Button>
+          <TextField
+            size="small"
+            label="Allowlist code (empty for your wallet key)"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <Button variant="contained" disabled={pending || !file} onClick={() => void handleLoad()}>
+            {pending ? 'Loading...' : 'Load entry'}
+          </Button>
+        </>
+      )}
+      {error && (
+        <Typography color="error" variant="body2" sx={{ width: '100%' }}>
+          {error}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default AllowlistEntry;
@@ -0,0 +1,270 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file AuctionHouse.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Chip, MenuItem, Paper, TextField, Typography } from '@mui/material';
+import {
+  formatAuctionTimeLeft,
+  getDutchAuctionPrice,
+  getMinimumBid,
+  isDutchAuction,
+  nowInSeconds,
+  type Auction,
+} from '@repo/kitties-api';
+import { toHex } from './utils.js';
+
+interface AuctionHouseProps {
+  kittiesApi: any; // API instance
+  walletPublicKey?: { bytes: Uint8Array } | Uint8Array;
+}
+
+export const AuctionHouse: React.FC<AuctionHouseProps> = ({ kittiesApi, walletPublicKey }) => {
+  const [auctions, setAuctions] = useState<Array<[bigint, Auction]>>([]);
+  const [now, setNow] = useState<bigint>(nowInSeconds());
+  const [bids, setBids] = useState<Map<string, string>>(new Map());
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start auction form
+  const [kind, setKind] = useState<'english' | 'dutch'>('english');
+  const [kittyId, setKittyId] = useState('');
+  const [startPrice, setStartPrice] = useState('');
+  const [endPrice, setEndPrice] = useState('');
+  const [minIncrement, setMinIncrement] = useState('');
+  const [hours, setHours] = useState('');
+
+  const walletHex = walletPublicKey
+    ? toHex(walletPublicKey instanceof Uint8Array ? walletPublicKey : walletPublicKey.bytes)
+    : '';
+
+  // Running auctions come straight from the contract state, so bids and settlements show up live
+  useEffect(() => {
+    if (!kittiesApi) return;
+
+    const subscription = kittiesApi.state$.subscribe({
+      next: (state: { auctions: Map<bigint, Auction> }) => {
+        const running = Array.from(state.auctions).sort(([a], [b]) => Number(a - b));
+        setAuctions(running);
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [kittiesApi]);
+
+  // Tick every second to drive the countdowns and falling Dutch prices
+  useEffect(() => {
+    const interval = setInterval(() => setNow(nowInSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleStartAuction = () =>
+    run('start', async () => {
+      const id = BigInt(kittyId);
+      const seconds = BigInt(hours) * 3600n;
+      if (kind === 'english') {
+        await kittiesApi.createEnglishAuction({
+          kittyId: id,
+          reservePrice: BigInt(startPrice),
+          minIncrement: BigInt(minIncrement),
+          endTime: nowInSeconds() + seconds,
+        });
+      } else {
+        await kittiesApi.createDutchAuction({
+          kittyId: id,
+          startPrice: BigInt(startPrice),
+          endPrice: BigInt(endPrice),
+          duration: seconds,
+        });
+      }
+      setKittyId('');
+    });
+
+  const renderAuction = (id: bigint, auction: Auction) => {
+    const key = id.toString();
+    const dutch = isDutchAuction(auction);
+    const ended = !dutch && auction.endTime <= now;
+    const isSeller = toHex(auction.seller.bytes) === walletHex;
+    const hasBids = auction.highestBid > 0n;
+    const isLeading = hasBids && toHex(auction.highestBidder.bytes) === walletHex;
+
+    return (
+      <Paper key={key} elevation={2} sx={{ p: 2, borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Kitty #{key}</Typography>
+          <Chip size="small" label={dutch ? 'DUTCH' : 'ENGLISH'} color={dutch ? 'secondary' : 'primary'} />
+        </Box>
+
+        {dutch ? (
+          <>
+            <Typography variant="h5" color="success.main" sx={{ fontWeight: 700 }}>
+              {getDutchAuctionPrice(auction, now).toString()} tokens
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              Falls from {auction.startPrice.toString()} to {auction.endPrice.toString()}
+              {auction.endTime > now ? ` · ${formatAuctionTimeLeft(auction.endTime, now)} left` : ' · at end price'}
+            </Typography>
+          </>
+        ) : (
+          <>
+            <Typography variant="h5" color="primary.main" sx={{ fontWeight: 700 }}>
+              {hasBids ? `${auction.highestBid.toString()} tokens` : 'No bids yet'}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              {ended ? 'Bidding closed' : `${formatAuctionTimeLeft(auction.endTime, now)} left`}
+              {isLeading && ' · you are the highest bidder'}
+            </Typography>
+          </>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+          {!dutch && !ended && !isSeller && (
+            <>
+              <TextField
+                size="small"
+                type="number"
+                label={`Min ${getMinimumBid(auction).toString()}`}
+                value={bids.get(key) ?? ''}
+                onChange={(e) => setBids(new Map(bids).set(key, e.target.value))}
+                sx={{ flex: 1 }}
+              />
+              <Button
+                variant="contained"
+                disabled={pending !== null || !bids.get(key)}
+                onClick={() =>
+                  void run(key, () => kittiesApi.bidOnAuction({ kittyId: id, bidPrice: BigInt(bids.get(key) ?? '0') }))
+                }
+              >
+                Bid
+              </Button>
+            </>
+          )}
+          {dutch && !isSeller && (
+            <Button
+              variant="contained"
+              color="success"
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.buyDutchAuction({ kittyId: id }))}
+            >
+              Buy now
+            </Button>
+          )}
+          {ended && (
+            <Button
+              variant="outlined"
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.settleAuction({ kittyId: id }))}
+            >
+              Settle
+            </Button>
+          )}
+          {isSeller && !hasBids && (
+            <Button
+              variant="outlined"
+              color="error"
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.cancelAuction({ kittyId: id }))}
+            >
+              Cancel
+            </Button>
+          )}
+        </Box>
+        {pending === key && (
+          <Typography variant="caption" color="textSecondary">
+            Executing...
+          </Typography>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ margin: '0 0 8px 0', color: '#333' }}>Auction House</h2>
+      <div style={{ color: '#666', fontSize: '14px', marginBottom: '16px' }}>
+        {auctions.length} running auctions · Ended English auctions can be settled by anyone
+      </div>
+
+      {error && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+
+      {/* Start Auction Form */}
+      <Paper elevation={1} sx={{ p: 2, mb: 3, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField
+          select
+          size="small"
+          label="Type"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as 'english' | 'dutch')}
+        >
+          <MenuItem value="english">English</MenuItem>
+          <MenuItem value="dutch">Dutch</MenuItem>
+        </TextField>
+        <TextField size="small" label="Kitty ID" value={kittyId} onChange={(e) => setKittyId(e.target.value)} />
+        <TextField
+          size="small"
+          label={kind === 'english' ? 'Reserve price' : 'Start price'}
+          value={startPrice}
+          onChange={(e) => setStartPrice(e.target.value)}
+        />
+        {kind === 'english' ? (
+          <TextField
+            size="small"
+            label="Min increment"
+            value={minIncrement}
+            onChange={(e) => setMinIncrement(e.target.value)}
+          />
+        ) : (
+          <TextField size="small" label="End price" value={endPrice} onChange={(e) => setEndPrice(e.target.value)} />
+        )}
+        <TextField
+          size="small"
+          label={kind === 'english' ? 'Hours open' : 'Hours to fall'}
+          value={hours}
+          onChange={(e) => setHours(e.target.value)}
+        />
+        <Button
+          variant="contained"
+          disabled={pending !== null || !kittyId || !startPrice || !hours}
+          onClick={() => void handleStartAuction()}
+        >
+          {pending === 'start' ? 'Starting...' : 'Start auction'}
+        </Button>
+      </Paper>
+
+      {auctions.length === 0 ? (
+        <Typography color="textSecondary">No kitties are on auction.</Typography>
+      ) : (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+            gap: '16px',
+          }}
+        >
+          {auctions.map(([id, auction]) => renderAuction(id, auction))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuctionHouse;
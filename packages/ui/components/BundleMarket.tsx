@@ -0,0 +1,226 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file BundleMarket.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Chip, Paper, TextField, Typography } from '@mui/material';
+import type { BundleData, BundleRefundData } from '@repo/kitties-api';
+import { toHex } from './utils.js';
+
+interface BundleMarketProps {
+  kittiesApi: any; // API instance
+  walletPublicKey?: { bytes: Uint8Array } | Uint8Array;
+}
+
+export const BundleMarket: React.FC<BundleMarketProps> = ({ kittiesApi, walletPublicKey }) => {
+  const [bundles, setBundles] = useState<BundleData[]>([]);
+  const [refunds, setRefunds] = useState<BundleRefundData[]>([]);
+  const [bids, setBids] = useState<Map<string, string>>(new Map());
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const walletBytes = walletPublicKey
+    ? walletPublicKey instanceof Uint8Array
+      ? walletPublicKey
+      : walletPublicKey.bytes
+    : null;
+  const walletHex = walletBytes ? toHex(walletBytes) : '';
+
+  // Bundles and their offers are reloaded with the contract state, so sales and dropped bundles show up live
+  useEffect(() => {
+    if (!kittiesApi) return;
+
+    const subscription = kittiesApi.state$.subscribe({
+      next: () => {
+        Promise.all([
+          kittiesApi.getBundles(),
+          walletBytes ? kittiesApi.getPendingBundleRefunds({ bytes: walletBytes }) : Promise.resolve([]),
+        ])
+          .then(([forSale, pendingRefunds]: [BundleData[], BundleRefundData[]]) => {
+            setBundles(forSale.sort((a, b) => Number(a.id - b.id)));
+            setRefunds(pendingRefunds);
+          })
+          .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [kittiesApi, walletHex]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const renderBundle = (bundle: BundleData) => {
+    const key = bundle.id.toString();
+    const bundleId = bundle.id;
+    const isSeller = toHex(bundle.seller.bytes) === walletHex;
+    const myOffer = bundle.offers.find((offer) => toHex(offer.buyer.bytes) === walletHex);
+
+    return (
+      <Paper key={key} elevation={2} sx={{ p: 2, borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Bundle #{key}</Typography>
+          <Chip size="small" label={`${bundle.kittyIds.length} KITTIES`} color="primary" />
+        </Box>
+        <Typography variant="h5" color="success.main" sx={{ fontWeight: 700 }}>
+          {bundle.price.toString()} tokens
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          Kitties {bundle.kittyIds.map((kittyId) => `#${kittyId}`).join(', ')}
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          {isSeller ? 'Your bundle' : `Seller ${toHex(bundle.seller.bytes).slice(0, 8)}…`} · {bundle.offers.length}{' '}
+          offers
+        </Typography>
+
+        {isSeller ? (
+          <>
+            {bundle.offers.map((offer) => {
+              const buyerHex = toHex(offer.buyer.bytes);
+              return (
+                <Box key={buyerHex} sx={{ display: 'flex', gap: 1, mt: 1, alignItems: 'center' }}>
+                  <Typography variant="body2" sx={{ flex: 1 }}>
+                    {offer.price.toString()} from {buyerHex.slice(0, 8)}…
+                  </Typography>
+                  <Button
+                    size="small"
+                    variant="contained"
+                    color="success"
+                    disabled={pending !== null}
+                    onClick={() => void run(key, () => kittiesApi.approveBundleOffer({ bundleId, buyer: offer.buyer }))}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    disabled={pending !== null}
+                    onClick={() => void run(key, () => kittiesApi.rejectBundleOffer({ bundleId, buyer: offer.buyer }))}
+                  >
+                    Reject
+                  </Button>
+                </Box>
+              );
+            })}
+            <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+              <Button
+                variant="outlined"
+                color="error"
+                disabled={pending !== null}
+                onClick={() => void run(key, () => kittiesApi.cancelBundle({ bundleId }))}
+              >
+                Cancel bundle
+              </Button>
+            </Box>
+          </>
+        ) : myOffer ? (
+          <Box sx={{ display: 'flex', gap: 1, mt: 2, alignItems: 'center' }}>
+            <Typography variant="body2" sx={{ flex: 1 }}>
+              Your offer: {myOffer.price.toString()} tokens
+            </Typography>
+            <Button
+              variant="outlined"
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.cancelBundleOffer({ bundleId }))}
+            >
+              Cancel offer
+            </Button>
+          </Box>
+        ) : (
+          walletBytes && (
+            <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+              <TextField
+                size="small"
+                type="number"
+                label={`Min ${bundle.price.toString()}`}
+                value={bids.get(key) ?? ''}
+                onChange={(e) => setBids(new Map(bids).set(key, e.target.value))}
+                sx={{ flex: 1 }}
+              />
+              <Button
+                variant="contained"
+                disabled={pending !== null || !bids.get(key)}
+                onClick={() =>
+                  void run(key, () =>
+                    kittiesApi.createBundleOffer({ bundleId, bidPrice: BigInt(bids.get(key) ?? '0') }),
+                  )
+                }
+              >
+                Make offer
+              </Button>
+            </Box>
+          )
+        )}
+        {pending === key && (
+          <Typography variant="caption" color="textSecondary">
+            Executing...
+          </Typography>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ margin: '0 0 8px 0', color: '#333' }}>Bundle Market</h2>
+      <div style={{ color: '#666', fontSize: '14px', marginBottom: '16px' }}>
+        {bundles.length} bundles for sale · A bundle is dropped as soon as any of its kitties changes hands
+      </div>
+
+      {error && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+
+      {/* Escrow of offers on bundles that sold to someone else, were dropped or rejected */}
+      {refunds.map((refund) => {
+        const key = `refund-${refund.bundleId}`;
+        return (
+          <Paper key={key} elevation={1} sx={{ p: 2, mb: 2, display: 'flex', gap: 1, alignItems: 'center' }}>
+            <Typography variant="body2" sx={{ flex: 1 }}>
+              {refund.amount.toString()} tokens escrowed for bundle #{refund.bundleId.toString()} can be withdrawn
+            </Typography>
+            <Button
+              variant="outlined"
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.withdrawBundleRefund({ bundleId: refund.bundleId }))}
+            >
+              {pending === key ? 'Withdrawing...' : 'Withdraw'}
+            </Button>
+          </Paper>
+        );
+      })}
+
+      {bundles.length === 0 ? (
+        <Typography color="textSecondary">
+          No bundles are for sale. Select kitties in your collection to list them as one.
+        </Typography>
+      ) : (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+            gap: '16px',
+          }}
+        >
+          {bundles.map(renderBundle)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BundleMarket;
@@ -0,0 +1,99 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file ClaimGift.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+/* global window, URL, URLSearchParams */
+import React, { useState } from 'react';
+import { Button, Paper, TextField, Typography } from '@mui/material';
+import { decodeClaimCode } from '@repo/kitties-api';
+
+interface ClaimGiftProps {
+  kittiesApi: any; // API instance
+}
+
+// Gift links carry the claim code as ?claim=..., so the page opens with it filled in
+const CLAIM_PARAM = 'claim';
+
+const readClaimParam = (): string => new URLSearchParams(window.location.search).get(CLAIM_PARAM) ?? '';
+
+const clearClaimParam = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(CLAIM_PARAM);
+  window.history.replaceState(null, '', url.toString());
+};
+
+export const ClaimGift: React.FC<ClaimGiftProps> = ({ kittiesApi }) => {
+  const [claimCode, setClaimCode] = useState(readClaimParam);
+  const [claimedId, setClaimedId] = useState<bigint | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Validate the code as it's typed, without touching the contract
+  let codeError: string | null = null;
+  let kittyId: bigint | null = null;
+  if (claimCode.trim()) {
+    try {
+      kittyId = decodeClaimCode(claimCode).kittyId;
+    } catch (err) {
+      codeError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const handleClaim = async () => {
+    setPending(true);
+    setError(null);
+    try {
+      const id: bigint = await kittiesApi.claimGift(claimCode);
+      setClaimedId(id);
+      setClaimCode('');
+      // The code is spent, don't leave it in the address bar or history
+      clearClaimParam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ margin: '0 0 8px', color: '#333' }}>Claim a Kitty</h2>
+      <div style={{ color: '#666', fontSize: '14px', marginBottom: '16px' }}>
+        Got a claim code or gift link? Claim the kitty to your wallet before the giver takes it back
+      </div>
+
+      {error && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+      {claimedId !== null && (
+        <Typography color="success.main" sx={{ mb: 2, fontWeight: 600 }}>
+          🎁 Kitty #{claimedId.toString()} is now yours! It shows up in your collection above.
+        </Typography>
+      )}
+
+      <Paper elevation={1} sx={{ p: 2, display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+        <TextField
+          size="small"
+          label="Claim code"
+          placeholder="kitty-1-..."
+          value={claimCode}
+          onChange={(e) => setClaimCode(e.target.value)}
+          error={codeError !== null}
+          helperText={codeError ?? (kittyId !== null ? `Gift of kitty #${kittyId}` : ' ')}
+          sx={{ flex: 1 }}
+        />
+        <Button variant="contained" disabled={pending || kittyId === null} onClick={() => void handleClaim()}>
+          {pending ? 'Claiming...' : 'Claim kitty'}
+        </Button>
+      </Paper>
+    </div>
+  );
+};
+
+export default ClaimGift;
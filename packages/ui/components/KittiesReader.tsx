@@ -30,6 +30,12 @@ import React, { useState, useEffect } from 'react';
 import { type ContractAddress } from '@midnight-ntwrk/compact-runtime';
 import { CircularProgress } from '@mui/material';
 import { MyKittiesGallery } from './MyKittiesGallery';
+import { AuctionHouse } from './AuctionHouse';
+import { BundleMarket } from './BundleMarket';
+import { AdminPanel } from './AdminPanel';
+import { ClaimGift } from './ClaimGift';
+import { RentalsPanel } from './RentalsPanel';
+import { AccessoriesPanel } from './AccessoriesPanel';
 import { type KittiesProviders } from '@repo/kitties-api';
 
 // Helper function to convert hex string to Uint8Array
@@ -160,7 +166,17 @@ export const KittiesReader: React.FC<KittiesReaderProps> = ({ contractAddress, p
     );
   }
 
-  return <MyKittiesGallery kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} isLoading={isLoading} />;
+  return (
+    <>
+      <MyKittiesGallery kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} isLoading={isLoading} />
+      <AuctionHouse kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} />
+      <BundleMarket kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} />
+      <ClaimGift kittiesApi={kittiesApi} />
+      <RentalsPanel kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} />
+      <AccessoriesPanel kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} />
+      <AdminPanel kittiesApi={kittiesApi} walletPublicKey={walletPublicKey} />
+    </>
+  );
 };
 
 // Address input component for selecting a contract
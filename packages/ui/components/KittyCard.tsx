@@ -23,8 +23,8 @@
  * damages or losses arising from the use of this software.
  */
 
-/* global console */
-import React, { useState, useEffect } from 'react';
+/* global console, window */
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -47,6 +47,23 @@ import {
 } from '@mui/material';
 import { Close as CloseIcon, Settings as SettingsIcon } from '@mui/icons-material';
 import { CatGenerator } from 'cryptokitty-generator';
+import {
+  GENE_SLOTS,
+  decodeTraits,
+  expressedDNA,
+  formatAncestorTree,
+  formatDescendantTree,
+  formatGeneSlot,
+  formatActivityEvent,
+  isOpenOffer,
+  nowInSeconds,
+  type AccessoryData,
+  type ActivityEvent,
+  type AccessorySlotName,
+  type KittyTraits,
+  type LineageData,
+  type OfferStatusName,
+} from '@repo/kitties-api';
 
 // Type declaration for the kitty data structure
 export interface KittyData {
@@ -57,20 +74,82 @@ export interface KittyData {
   price: bigint;
   forSale: boolean;
   generation: bigint;
+  cooldownEnd: bigint; // Block time in seconds when the kitty can breed again, 0 = ready
+  matronId: bigint; // Female parent, 0 for generation 0
+  sireId: bigint; // Male parent, 0 for generation 0
+  shielded?: boolean; // Owner is hidden behind a commitment
+  name?: string; // On-chain name, empty when unnamed
+  metadataUri?: string;
+  accessories?: AccessoryData[]; // Worn accessories, drawn on top of the kitty
 }
 
+// Accessory art on the generator's 400x500 canvas, by style. Styles without art of their own use the first one.
+const ACCESSORY_ART: Record<AccessorySlotName, string[]> = {
+  background: [
+    '<rect width="400" height="500" fill="#ffb37a"/><circle cx="200" cy="380" r="90" fill="#ff7b54"/>',
+    '<rect width="400" height="500" fill="#1d2951"/><circle cx="320" cy="80" r="30" fill="#f6f1d5"/>' +
+      '<circle cx="80" cy="60" r="3" fill="#fff"/><circle cx="150" cy="120" r="2" fill="#fff"/>' +
+      '<circle cx="260" cy="40" r="2" fill="#fff"/>',
+    '<rect width="400" height="500" fill="#bfe6ff"/><rect y="360" width="400" height="140" fill="#7cc36b"/>',
+    '<rect width="400" height="500" fill="#cdeffd"/>' +
+      '<path d="M0 380 Q50 360 100 380 T200 380 T300 380 T400 380 V500 H0 Z" fill="#3a9bdc"/>',
+  ],
+  collar: [
+    '<rect x="130" y="290" width="140" height="18" rx="9" fill="#d62828"/>',
+    '<rect x="130" y="290" width="140" height="18" rx="9" fill="#d62828"/>' +
+      '<circle cx="200" cy="318" r="12" fill="#f4c430" stroke="#b8860b" stroke-width="2"/>',
+    '<path d="M200 300 L160 280 L160 320 Z M200 300 L240 280 L240 320 Z" fill="#222"/>' +
+      '<circle cx="200" cy="300" r="8" fill="#222"/>',
+    '<path d="M130 290 H270 L200 340 Z" fill="#1e88e5"/>',
+  ],
+  hat: [
+    '<rect x="150" y="40" width="100" height="80" fill="#222"/><rect x="150" y="100" width="100" height="12" fill="#c62828"/>' +
+      '<rect x="120" y="115" width="160" height="14" rx="4" fill="#222"/>',
+    '<path d="M200 30 L160 125 H240 Z" fill="#ab47bc"/><circle cx="200" cy="30" r="10" fill="#ffeb3b"/>',
+    '<path d="M145 125 L150 65 L175 95 L200 55 L225 95 L250 65 L255 125 Z" fill="#ffd54f" stroke="#c79a00" stroke-width="3"/>',
+    '<path d="M135 125 Q200 20 265 125 Z" fill="#43a047"/><rect x="130" y="115" width="140" height="18" rx="6" fill="#2e7d32"/>' +
+      '<circle cx="200" cy="52" r="12" fill="#a5d6a7"/>',
+  ],
+};
+
+// Layers worn accessories onto the generated cat: the background behind it, the collar and hat on top
+const dressKitty = (catSvg: string, accessories: AccessoryData[]): string => {
+  if (accessories.length === 0) return catSvg;
+  const layer = (slot: AccessorySlotName): string => {
+    const accessory = accessories.find((worn) => worn.slot === slot);
+    return accessory ? (ACCESSORY_ART[slot][accessory.style] ?? ACCESSORY_ART[slot][0]) : '';
+  };
+  const cat = catSvg.replace(/<\?xml[^>]*\?>/, '').replace('<svg', '<svg x="0" y="0" width="400" height="500"');
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 500">' +
+    `${layer('background')}${cat}${layer('collar')}${layer('hat')}</svg>`
+  );
+};
+
 interface KittyCardProps {
   kitty: KittyData;
   onTransfer?: (kittyId: bigint, toAddress: string) => void;
   onSetPrice?: (kittyId: bigint, price: bigint) => void;
   onBreedKitty?: (parentKitty1Id: bigint, parentKitty2Id: bigint) => void;
+  onApproveSiring?: (kittyId: bigint, toAddress: string) => void;
+  onRevokeSiring?: (kittyId: bigint) => void;
   onApproveOffer?: (kittyId: bigint, offerId: string) => void;
+  onRejectOffer?: (kittyId: bigint, offerId: string) => void;
+  onCounterOffer?: (kittyId: bigint, offerId: string, counterPrice: bigint) => void;
+  onLoadLineage?: (kittyId: bigint) => Promise<LineageData>;
+  onBurn?: (kittyId: bigint) => void;
+  onSetName?: (kittyId: bigint, name: string) => void;
   offers?: Array<{
     id: string;
     amount: bigint;
+    escrowed: bigint;
+    expiresAt: bigint; // Block time in seconds, 0 = never expires
     buyer: string;
     buyerBytes: { bytes: Uint8Array };
     timestamp: Date;
+    status: OfferStatusName;
+    counterPrice: bigint; // Owner's counter price, 0 if the offer was never countered
+    thread: ActivityEvent[]; // Last steps of the negotiation, kept on the offer
   }>;
 }
 
@@ -79,7 +158,14 @@ export const KittyCard: React.FC<KittyCardProps> = ({
   onTransfer,
   onSetPrice,
   onBreedKitty,
+  onApproveSiring,
+  onRevokeSiring,
   onApproveOffer,
+  onRejectOffer,
+  onCounterOffer,
+  onLoadLineage,
+  onBurn,
+  onSetName,
   offers = [],
 }) => {
   const [catSvg, setCatSvg] = useState<string>('');
@@ -87,11 +173,38 @@ export const KittyCard: React.FC<KittyCardProps> = ({
   const [error, setError] = useState<string>('');
   const [modalOpen, setModalOpen] = useState<boolean>(false);
   const [priceInput, setPriceInput] = useState<string>('');
+  const [nameInput, setNameInput] = useState<string>('');
   const [transferAddress, setTransferAddress] = useState<string>('');
   const [breedKittyId, setBreedKittyId] = useState<string>('');
+  const [siringAddress, setSiringAddress] = useState<string>('');
+  const [counterInputs, setCounterInputs] = useState<Record<string, string>>({});
   const [isExecuting, setIsExecuting] = useState<boolean>(false);
   const [executingAction, setExecutingAction] = useState<string>('');
   const [tabValue, setTabValue] = useState<number>(0);
+  const [now, setNow] = useState<bigint>(nowInSeconds());
+  const [lineage, setLineage] = useState<LineageData | null>(null);
+  const [lineageError, setLineageError] = useState<string>('');
+
+  const familyTab = (onTransfer ? 1 : 0) + (onSetPrice ? 1 : 0) + 2;
+
+  // Redraw only when the worn accessories change, not on every new accessories array
+  const accessoriesKey = (kitty.accessories ?? []).map((accessory) => accessory.id).join(',');
+
+  // Tick the breeding cooldown countdown while the modal is open
+  useEffect(() => {
+    if (!modalOpen) return;
+    const interval = setInterval(() => setNow(nowInSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, [modalOpen]);
+
+  // Load the family tree the first time the Family tab is opened
+  useEffect(() => {
+    if (!onLoadLineage || tabValue !== familyTab || lineage) return;
+    setLineageError('');
+    onLoadLineage(kitty.id)
+      .then(setLineage)
+      .catch((err: unknown) => setLineageError(err instanceof Error ? err.message : String(err)));
+  }, [onLoadLineage, tabValue, familyTab, lineage, kitty.id]);
 
   useEffect(() => {
     const generateKittySvg = async () => {
@@ -100,13 +213,15 @@ export const KittyCard: React.FC<KittyCardProps> = ({
         setError('');
 
         // Use the actual CatGenerator to create responsive SVG from DNA
+        // It is drawn from the decoded trait of each gene slot, the same ones listed as its traits,
+        // so hidden genes and alleles that show the same trait don't change the look
         const generator = new CatGenerator();
-        const dnaString = kitty.dna.toString();
+        const dnaString = expressedDNA(kitty.dna).toString();
 
         // Generate responsive cat using the proper configuration
         const responsiveCat = generator.generateCat(dnaString);
 
-        setCatSvg(responsiveCat.svgData);
+        setCatSvg(dressKitty(responsiveCat.svgData, kitty.accessories ?? []));
       } catch {
         setError('Failed to generate kitty image');
       } finally {
@@ -115,6 +230,14 @@ export const KittyCard: React.FC<KittyCardProps> = ({
     };
 
     void generateKittySvg();
+  }, [kitty.dna, accessoriesKey]);
+
+  const traits = useMemo((): KittyTraits | null => {
+    try {
+      return decodeTraits(kitty.dna);
+    } catch {
+      return null;
+    }
   }, [kitty.dna]);
 
   const formatPrice = (price: bigint): string => {
@@ -122,6 +245,26 @@ export const KittyCard: React.FC<KittyCardProps> = ({
     return `${price.toString()} tokens`;
   };
 
+  const isOfferExpired = (expiresAt: bigint): boolean => {
+    return expiresAt !== 0n && expiresAt <= nowInSeconds();
+  };
+
+  const formatExpiry = (expiresAt: bigint): string => {
+    if (expiresAt === 0n) return 'No expiry';
+    const date = new Date(Number(expiresAt) * 1000).toLocaleString();
+    return isOfferExpired(expiresAt) ? `Expired ${date}` : `Expires ${date}`;
+  };
+
+  const isCoolingDown = kitty.cooldownEnd > now;
+
+  const formatCooldown = (cooldownEnd: bigint): string => {
+    const remaining = Number(cooldownEnd - now);
+    const hours = Math.floor(remaining / 3600);
+    const minutes = Math.floor((remaining % 3600) / 60);
+    const seconds = remaining % 60;
+    return hours > 0 ? `${hours}h ${minutes}m ${seconds}s` : `${minutes}m ${seconds}s`;
+  };
+
   const getGenderEmoji = (gender: any): string => {
     // Assuming Gender enum: 0 = Male, 1 = Female
     return gender === 0 ? '♂️' : '♀️';
@@ -130,8 +273,10 @@ export const KittyCard: React.FC<KittyCardProps> = ({
   const handleOpenModal = (e: React.MouseEvent) => {
     e.stopPropagation();
     setPriceInput(kitty.price.toString());
+    setNameInput(kitty.name ?? '');
     setTransferAddress('');
     setBreedKittyId('');
+    setSiringAddress('');
     setTabValue(0);
     setModalOpen(true);
   };
@@ -139,8 +284,10 @@ export const KittyCard: React.FC<KittyCardProps> = ({
   const handleCloseModal = () => {
     setModalOpen(false);
     setPriceInput('');
+    setNameInput('');
     setTransferAddress('');
     setBreedKittyId('');
+    setSiringAddress('');
     setTabValue(0);
   };
 
@@ -194,6 +341,37 @@ export const KittyCard: React.FC<KittyCardProps> = ({
     }
   };
 
+  const handleApproveSiring = async () => {
+    if (onApproveSiring && siringAddress.trim()) {
+      setIsExecuting(true);
+      setExecutingAction('Granting sire permission...');
+      try {
+        await onApproveSiring(kitty.id, siringAddress.trim());
+        setSiringAddress('');
+      } catch {
+        // Granting failed - error is handled by the parent component
+      } finally {
+        setIsExecuting(false);
+        setExecutingAction('');
+      }
+    }
+  };
+
+  const handleRevokeSiring = async () => {
+    if (onRevokeSiring) {
+      setIsExecuting(true);
+      setExecutingAction('Revoking sire permission...');
+      try {
+        await onRevokeSiring(kitty.id);
+      } catch {
+        // Revoking failed - error is handled by the parent component
+      } finally {
+        setIsExecuting(false);
+        setExecutingAction('');
+      }
+    }
+  };
+
   const handleApproveOffer = async (offerId: string) => {
     if (onApproveOffer) {
       setIsExecuting(true);
@@ -210,6 +388,70 @@ export const KittyCard: React.FC<KittyCardProps> = ({
     }
   };
 
+  const handleRejectOffer = async (offerId: string) => {
+    if (onRejectOffer) {
+      setIsExecuting(true);
+      setExecutingAction('Rejecting offer...');
+      try {
+        await onRejectOffer(kitty.id, offerId);
+        // Don't close modal, just refresh the state
+      } catch {
+        // Reject offer failed - error is handled by the parent component
+      } finally {
+        setIsExecuting(false);
+        setExecutingAction('');
+      }
+    }
+  };
+
+  const handleCounterOffer = async (offerId: string) => {
+    if (onCounterOffer) {
+      setIsExecuting(true);
+      setExecutingAction('Countering offer...');
+      try {
+        await onCounterOffer(kitty.id, offerId, BigInt(counterInputs[offerId]));
+        setCounterInputs({ ...counterInputs, [offerId]: '' });
+      } catch {
+        // Counter offer failed - error is handled by the parent component
+      } finally {
+        setIsExecuting(false);
+        setExecutingAction('');
+      }
+    }
+  };
+
+  const handleSetName = async () => {
+    if (onSetName) {
+      setIsExecuting(true);
+      setExecutingAction('Naming kitty...');
+      try {
+        await onSetName(kitty.id, nameInput.trim());
+        handleCloseModal();
+      } catch {
+        // Naming failed - error is handled by the parent component
+      } finally {
+        setIsExecuting(false);
+        setExecutingAction('');
+      }
+    }
+  };
+
+  const handleBurn = async () => {
+    if (onBurn && window.confirm(`Burn kitty #${kitty.id}? It will be gone for good.`)) {
+      setIsExecuting(true);
+      setExecutingAction('Burning kitty...');
+      try {
+        await onBurn(kitty.id);
+        handleCloseModal();
+      } catch {
+        // Burn failed - error is handled by the parent component
+      } finally {
+        setIsExecuting(false);
+        setExecutingAction('');
+      }
+    }
+  };
+
   return (
     <>
       <div
@@ -306,15 +548,27 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                 color: '#2c3e50',
               }}
             >
-              Kitty #{kitty.id.toString()}
+              {kitty.name || `Kitty #${kitty.id.toString()}`}
             </h3>
             <span style={{ fontSize: '20px' }}>{getGenderEmoji(kitty.gender)}</span>
           </div>
 
+          {kitty.name && (
+            <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '4px' }}>
+              <strong>Kitty</strong> #{kitty.id.toString()}
+            </div>
+          )}
+
           <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '4px' }}>
             <strong>Generation:</strong> {kitty.generation.toString()}
           </div>
 
+          {traits && (
+            <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '4px' }}>
+              <strong>Traits:</strong> {traits.body.name} · {traits.pattern.name} · {traits.eyeColor.name} eyes
+            </div>
+          )}
+
           <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '4px' }}>
             <strong>DNA:</strong>{' '}
             <span style={{ fontFamily: 'monospace', fontSize: '10px' }}>{kitty.dna.toString().slice(0, 20)}...</span>
@@ -366,6 +620,23 @@ export const KittyCard: React.FC<KittyCardProps> = ({
             }}
           />
         )}
+
+        {/* Private Badge */}
+        {kitty.shielded && (
+          <Chip
+            label="PRIVATE"
+            size="small"
+            sx={{
+              position: 'absolute',
+              top: '8px',
+              left: '8px',
+              backgroundColor: '#2c3e50',
+              color: 'white',
+              fontSize: '10px',
+              fontWeight: 'bold',
+            }}
+          />
+        )}
       </div>
 
       {/* Management Modal */}
@@ -401,7 +672,9 @@ export const KittyCard: React.FC<KittyCardProps> = ({
             },
           }}
         >
-          <Typography variant="h6">Manage Kitty #{kitty.id.toString()}</Typography>
+          <Typography variant="h6">
+            Manage {kitty.name ? `"${kitty.name}" (#${kitty.id.toString()})` : `Kitty #${kitty.id.toString()}`}
+          </Typography>
           <IconButton
             onClick={handleCloseModal}
             size="small"
@@ -492,7 +765,7 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                   mb: 2,
                 }}
               >
-                Kitty #{kitty.id.toString()} {getGenderEmoji(kitty.gender)}
+                {kitty.name || `Kitty #${kitty.id.toString()}`} {getGenderEmoji(kitty.gender)}
               </Typography>
 
               <Box sx={{ display: 'flex', justifyContent: 'space-around', mb: 2 }}>
@@ -530,6 +803,20 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                 DNA: {kitty.dna.toString().slice(0, 40)}...
               </Typography>
 
+              {traits && (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                  {GENE_SLOTS.map((slot) => (
+                    <Chip
+                      key={slot}
+                      size="small"
+                      label={`${formatGeneSlot(slot)}: ${traits[slot].name}`}
+                      title={`Carries ${traits[slot].recessive}`}
+                      sx={{ backgroundColor: 'rgba(108, 92, 231, 0.1)', fontWeight: 500 }}
+                    />
+                  ))}
+                </Box>
+              )}
+
               <Typography
                 variant="h6"
                 color={kitty.forSale ? 'success.main' : 'textSecondary'}
@@ -573,6 +860,7 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                 {onSetPrice && <Tab label="Selling" />}
                 <Tab label={`Offers (${offers?.length || 0})`} />
                 <Tab label="Breeding" />
+                <Tab label="Family" />
               </Tabs>
 
               {/* Tab Content */}
@@ -634,6 +922,18 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                     >
                       {isExecuting && executingAction.includes('Transfer') ? 'Transferring...' : 'Transfer Kitty'}
                     </Button>
+                    {onBurn && (
+                      <Button
+                        variant="text"
+                        color="error"
+                        onClick={handleBurn}
+                        disabled={isExecuting}
+                        fullWidth
+                        sx={{ mt: 2, textTransform: 'none' }}
+                      >
+                        {isExecuting && executingAction.includes('Burning') ? 'Burning...' : 'Burn this kitty'}
+                      </Button>
+                    )}
                   </Box>
                 )}
 
@@ -686,6 +986,32 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                     >
                       {isExecuting && executingAction.includes('Setting') ? 'Setting...' : 'Update Price'}
                     </Button>
+
+                    {onSetName && (
+                      <Box sx={{ mt: 4 }}>
+                        <Typography variant="body1" sx={{ fontWeight: 600, mb: 1, color: '#2d3436' }}>
+                          Name:
+                        </Typography>
+                        <Box sx={{ display: 'flex', gap: 1 }}>
+                          <TextField
+                            fullWidth
+                            size="small"
+                            label="Kitty name"
+                            value={nameInput}
+                            onChange={(e) => setNameInput(e.target.value)}
+                            helperText="Up to 32 bytes, leave empty to clear the name"
+                          />
+                          <Button
+                            variant="outlined"
+                            onClick={handleSetName}
+                            disabled={isExecuting}
+                            sx={{ textTransform: 'none', alignSelf: 'flex-start', height: 40 }}
+                          >
+                            {isExecuting && executingAction.includes('Naming') ? 'Saving...' : 'Save'}
+                          </Button>
+                        </Box>
+                      </Box>
+                    )}
                   </Box>
                 )}
 
@@ -732,7 +1058,28 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                             }}
                           >
                             <ListItemText
-                              primary={`${formatPrice(offer.amount)} tokens`}
+                              primary={
+                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                  {formatPrice(offer.amount)}
+                                  <Chip
+                                    size="small"
+                                    label={
+                                      offer.status === 'countered'
+                                        ? `COUNTERED AT ${offer.counterPrice.toString()}`
+                                        : offer.status.toUpperCase()
+                                    }
+                                    color={
+                                      offer.status === 'accepted'
+                                        ? 'success'
+                                        : offer.status === 'rejected'
+                                          ? 'error'
+                                          : offer.status === 'countered'
+                                            ? 'warning'
+                                            : 'default'
+                                    }
+                                  />
+                                </Box>
+                              }
                               primaryTypographyProps={{
                                 sx: {
                                   color: '#1976d2',
@@ -755,6 +1102,28 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                                   >
                                     From: {offer.buyer.slice(0, 8)}...{offer.buyer.slice(-8)}
                                   </Typography>
+                                  <Typography
+                                    variant="caption"
+                                    display="block"
+                                    sx={{
+                                      color: offer.escrowed >= offer.amount ? '#28a745' : '#dc3545',
+                                      fontWeight: 600,
+                                      fontSize: '12px',
+                                    }}
+                                  >
+                                    Escrowed: {offer.escrowed.toString()} tokens
+                                  </Typography>
+                                  <Typography
+                                    variant="caption"
+                                    display="block"
+                                    sx={{
+                                      color: isOfferExpired(offer.expiresAt) ? '#dc3545' : '#666',
+                                      fontWeight: 500,
+                                      fontSize: '12px',
+                                    }}
+                                  >
+                                    {formatExpiry(offer.expiresAt)}
+                                  </Typography>
                                   <Typography
                                     variant="caption"
                                     sx={{
@@ -765,35 +1134,91 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                                   >
                                     {offer.timestamp.toLocaleDateString()}
                                   </Typography>
+                                  {offer.thread.map((event) => (
+                                    <Typography
+                                      key={event.seq.toString()}
+                                      variant="caption"
+                                      display="block"
+                                      sx={{ color: '#666', fontSize: '12px' }}
+                                    >
+                                      {formatActivityEvent(event)}
+                                    </Typography>
+                                  ))}
+                                  {onCounterOffer && isOpenOffer(offer) && (
+                                    <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                                      <TextField
+                                        size="small"
+                                        type="number"
+                                        label={`Counter above ${offer.amount.toString()}`}
+                                        value={counterInputs[offer.id] ?? ''}
+                                        onChange={(e) =>
+                                          setCounterInputs({ ...counterInputs, [offer.id]: e.target.value })
+                                        }
+                                      />
+                                      <Button
+                                        size="small"
+                                        variant="outlined"
+                                        onClick={() => handleCounterOffer(offer.id)}
+                                        disabled={
+                                          isExecuting || !counterInputs[offer.id] || isOfferExpired(offer.expiresAt)
+                                        }
+                                        sx={{ borderRadius: '12px', textTransform: 'none', fontWeight: 600 }}
+                                      >
+                                        {isExecuting && executingAction.includes('Countering')
+                                          ? 'Countering...'
+                                          : 'Counter'}
+                                      </Button>
+                                    </Box>
+                                  )}
                                 </Box>
                               }
                             />
-                            <ListItemSecondaryAction>
-                              <Button
-                                size="small"
-                                variant="contained"
-                                onClick={() => handleApproveOffer(offer.id)}
-                                disabled={isExecuting}
-                                startIcon={
-                                  isExecuting && executingAction.includes('Approving') ? (
-                                    <CircularProgress size={14} />
-                                  ) : undefined
-                                }
-                                sx={{
-                                  py: 1,
-                                  px: 2,
-                                  borderRadius: '12px',
-                                  textTransform: 'none',
-                                  fontWeight: 600,
-                                  background: 'linear-gradient(135deg, #fd79a8 0%, #fdcb6e 100%)',
-                                  '&:hover': {
-                                    background: 'linear-gradient(135deg, #e84393 0%, #f39c12 100%)',
-                                  },
-                                }}
-                              >
-                                {isExecuting && executingAction.includes('Approving') ? 'Approving...' : 'Accept'}
-                              </Button>
-                            </ListItemSecondaryAction>
+                            {isOpenOffer(offer) && (
+                              <ListItemSecondaryAction sx={{ display: 'flex', gap: 1 }}>
+                                {onRejectOffer && (
+                                  <Button
+                                    size="small"
+                                    variant="outlined"
+                                    color="error"
+                                    onClick={() => handleRejectOffer(offer.id)}
+                                    disabled={isExecuting}
+                                    sx={{
+                                      py: 1,
+                                      px: 2,
+                                      borderRadius: '12px',
+                                      textTransform: 'none',
+                                      fontWeight: 600,
+                                    }}
+                                  >
+                                    {isExecuting && executingAction.includes('Rejecting') ? 'Rejecting...' : 'Reject'}
+                                  </Button>
+                                )}
+                                <Button
+                                  size="small"
+                                  variant="contained"
+                                  onClick={() => handleApproveOffer(offer.id)}
+                                  disabled={isExecuting || isOfferExpired(offer.expiresAt)}
+                                  startIcon={
+                                    isExecuting && executingAction.includes('Approving') ? (
+                                      <CircularProgress size={14} />
+                                    ) : undefined
+                                  }
+                                  sx={{
+                                    py: 1,
+                                    px: 2,
+                                    borderRadius: '12px',
+                                    textTransform: 'none',
+                                    fontWeight: 600,
+                                    background: 'linear-gradient(135deg, #fd79a8 0%, #fdcb6e 100%)',
+                                    '&:hover': {
+                                      background: 'linear-gradient(135deg, #e84393 0%, #f39c12 100%)',
+                                    },
+                                  }}
+                                >
+                                  {isExecuting && executingAction.includes('Approving') ? 'Approving...' : 'Accept'}
+                                </Button>
+                              </ListItemSecondaryAction>
+                            )}
                           </ListItem>
                         ))}
                       </List>
@@ -829,6 +1254,23 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                       </Box>
                     ) : (
                       <>
+                        <Box
+                          sx={{
+                            mb: 3,
+                            p: 2,
+                            borderRadius: '12px',
+                            backgroundColor: isCoolingDown ? 'rgba(220, 53, 69, 0.08)' : 'rgba(40, 167, 69, 0.08)',
+                          }}
+                        >
+                          <Typography
+                            variant="body2"
+                            sx={{ fontWeight: 600, color: isCoolingDown ? '#dc3545' : '#28a745' }}
+                          >
+                            {isCoolingDown
+                              ? `Cooling down - can breed again in ${formatCooldown(kitty.cooldownEnd)}`
+                              : 'Ready to breed'}
+                          </Typography>
+                        </Box>
                         <TextField
                           fullWidth
                           label="Second Parent Kitty ID"
@@ -836,7 +1278,7 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                           value={breedKittyId}
                           onChange={(e) => setBreedKittyId(e.target.value)}
                           placeholder="Enter the ID of the second parent kitty"
-                          helperText="Both kitties must be owned by you to breed them"
+                          helperText="Pair a male with a female you own, or one whose owner granted you sire permission"
                           sx={{
                             mb: 3,
                             '& .MuiOutlinedInput-root': {
@@ -847,7 +1289,7 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                         <Button
                           variant="contained"
                           onClick={handleBreedKitty}
-                          disabled={!breedKittyId.trim() || isExecuting}
+                          disabled={!breedKittyId.trim() || isExecuting || isCoolingDown}
                           startIcon={
                             isExecuting && executingAction.includes('Breeding') ? (
                               <CircularProgress size={16} />
@@ -867,10 +1309,117 @@ export const KittyCard: React.FC<KittyCardProps> = ({
                         >
                           {isExecuting && executingAction.includes('Breeding') ? 'Breeding...' : 'Breed Kitties'}
                         </Button>
+
+                        {onApproveSiring && (
+                          <>
+                            <Divider sx={{ my: 3 }} />
+                            <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 700, color: '#2d3436' }}>
+                              Sire Permission
+                            </Typography>
+                            <Typography variant="body2" color="textSecondary" gutterBottom sx={{ mb: 2 }}>
+                              Let another address breed with this kitty once. The permission is cleared on transfer.
+                            </Typography>
+                            <TextField
+                              fullWidth
+                              label="Breeder Address"
+                              value={siringAddress}
+                              onChange={(e) => setSiringAddress(e.target.value)}
+                              placeholder="Enter the address allowed to breed with this kitty"
+                              sx={{
+                                mb: 2,
+                                '& .MuiOutlinedInput-root': {
+                                  borderRadius: '12px',
+                                },
+                              }}
+                            />
+                            <Box sx={{ display: 'flex', gap: 2 }}>
+                              <Button
+                                variant="contained"
+                                onClick={handleApproveSiring}
+                                disabled={!siringAddress.trim() || isExecuting}
+                                fullWidth
+                                sx={{ py: 1.5, borderRadius: '12px', fontWeight: 600, textTransform: 'none' }}
+                              >
+                                {isExecuting && executingAction.includes('Granting')
+                                  ? 'Granting...'
+                                  : 'Grant Permission'}
+                              </Button>
+                              {onRevokeSiring && (
+                                <Button
+                                  variant="outlined"
+                                  color="error"
+                                  onClick={handleRevokeSiring}
+                                  disabled={isExecuting}
+                                  fullWidth
+                                  sx={{ py: 1.5, borderRadius: '12px', fontWeight: 600, textTransform: 'none' }}
+                                >
+                                  {isExecuting && executingAction.includes('Revoking')
+                                    ? 'Revoking...'
+                                    : 'Revoke Permission'}
+                                </Button>
+                              )}
+                            </Box>
+                          </>
+                        )}
                       </>
                     )}
                   </Box>
                 )}
+
+                {/* Family Tab */}
+                {tabValue === familyTab && (
+                  <Box>
+                    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 700, color: '#2d3436' }}>
+                      Family Tree
+                    </Typography>
+                    <Typography variant="body2" color="textSecondary" gutterBottom sx={{ mb: 2 }}>
+                      {kitty.matronId === 0n
+                        ? 'A generation 0 kitty with no parents'
+                        : `Born to matron #${kitty.matronId.toString()} and sire #${kitty.sireId.toString()}`}
+                    </Typography>
+
+                    {!onLoadLineage ? (
+                      <Typography variant="body2" color="textSecondary">
+                        Family trees are not available for this kitty.
+                      </Typography>
+                    ) : lineageError ? (
+                      <Typography variant="body2" color="error">
+                        {lineageError}
+                      </Typography>
+                    ) : !lineage ? (
+                      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress size={24} />
+                      </Box>
+                    ) : (
+                      (
+                        [
+                          ['Ancestors', formatAncestorTree(lineage.ancestors)],
+                          ['Descendants', formatDescendantTree(lineage.descendants)],
+                        ] as const
+                      ).map(([title, lines]) => (
+                        <Box key={title} sx={{ mb: 2 }}>
+                          <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                            {title}
+                          </Typography>
+                          <Box
+                            component="pre"
+                            sx={{
+                              m: 0,
+                              p: 2,
+                              fontFamily: 'monospace',
+                              fontSize: '0.8rem',
+                              overflowX: 'auto',
+                              backgroundColor: 'rgba(108, 92, 231, 0.05)',
+                              borderRadius: '8px',
+                            }}
+                          >
+                            {lines.join('\n')}
+                          </Box>
+                        </Box>
+                      ))
+                    )}
+                  </Box>
+                )}
               </Box>
             </Box>
           </Box>
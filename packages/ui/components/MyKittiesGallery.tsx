@@ -12,6 +12,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { CircularProgress, Backdrop, Typography, Box } from '@mui/material';
 import { KittyCard, type KittyData } from './KittyCard';
+import { AllowlistEntry } from './AllowlistEntry';
+import { BATCH_SIZE, MIN_BUNDLE_SIZE, getInbreedingError } from '@repo/kitties-api';
 
 interface MyKittiesGalleryProps {
   kittiesApi: any; // API instance
@@ -19,6 +21,17 @@ interface MyKittiesGalleryProps {
   isLoading?: boolean;
 }
 
+const batchButtonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+  padding: '6px 12px',
+  fontSize: '13px',
+  backgroundColor: disabled ? '#cccccc' : color,
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontWeight: 'bold',
+});
+
 export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
   kittiesApi,
   walletPublicKey,
@@ -30,6 +43,13 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [error, setError] = useState<Error | null>(null);
   const [isRealTimeConnected, setIsRealTimeConnected] = useState<boolean>(false);
+  const [liveSupply, setLiveSupply] = useState<bigint | null>(null);
+
+  // Multi-select for batch actions, keyed by kitty ID string
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchPrice, setBatchPrice] = useState<string>('');
+  const [batchAddress, setBatchAddress] = useState<string>('');
+  const [batchAction, setBatchAction] = useState<string | null>(null);
 
   // Add subscription refs for cleanup
   const stateSubscriptionRef = useRef<any>(null);
@@ -46,7 +66,10 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
 
     // Subscribe to the contract state observable for real-time updates
     stateSubscriptionRef.current = kittiesApi.state$.subscribe({
-      next: () => {
+      next: (state: { allKittiesCount: bigint; burnedCount: bigint }) => {
+        // Burned kitties still count towards allKittiesCount
+        setLiveSupply(state.allKittiesCount - state.burnedCount);
+
         // Debounce rapid updates (max one update per second)
         const now = Date.now();
         if (now - lastUpdateRef.current < 1000) {
@@ -177,9 +200,14 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
             return {
               id: `${kitty.id}_${buyerHex}_${Date.now()}`,
               amount: offerAmount,
+              escrowed: offer.escrowed ?? 0n,
+              expiresAt: offer.expiresAt ?? 0n,
               buyer: buyerHex,
               buyerBytes: buyerBytes,
               timestamp: new Date(),
+              status: offer.status ?? 'pending',
+              counterPrice: offer.counterPrice ?? 0n,
+              thread: offer.thread ?? [],
             };
           });
 
@@ -219,6 +247,73 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
     }
   };
 
+  const handleBurnKitty = async (kittyId: bigint) => {
+    try {
+      await kittiesApi.burnKitty({ kittyId });
+      // Note: No manual reload needed - state subscription will handle updates
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to burn kitty'));
+    }
+  };
+
+  const handleSetKittyName = async (kittyId: bigint, name: string) => {
+    try {
+      await kittiesApi.setKittyMetadata({ kittyId, name });
+      // Note: No manual reload needed - state subscription will handle updates
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to rename kitty'));
+    }
+  };
+
+  const toggleSelected = (kittyId: bigint) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (!next.delete(kittyId.toString())) {
+        next.add(kittyId.toString());
+      }
+      return next;
+    });
+  };
+
+  // Runs a batch action on the selected kitties that are still ours; the API splits them into transactions
+  const runBatchAction = async (label: string, action: (kittyIds: bigint[]) => Promise<void>) => {
+    const kittyIds = myKitties.filter((kitty) => selectedIds.has(kitty.id.toString())).map((kitty) => kitty.id);
+    if (kittyIds.length === 0) return;
+
+    setBatchAction(label);
+    try {
+      await action(kittyIds);
+      setSelectedIds(new Set());
+      // Note: No manual reload needed - state subscription will handle updates
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(`Failed to ${label.toLowerCase()}`));
+    } finally {
+      setBatchAction(null);
+    }
+  };
+
+  const handleBatchSetPrice = () =>
+    runBatchAction('List kitties', (kittyIds) =>
+      kittiesApi.batchSetPrice({ kittyIds, price: BigInt(batchPrice || '0') }),
+    );
+
+  // A bundle is one transaction, so it can't hold more kitties than a batch
+  const canBundle = selectedIds.size >= MIN_BUNDLE_SIZE && selectedIds.size <= BATCH_SIZE;
+  const handleCreateBundle = () =>
+    runBatchAction('Bundle kitties', (kittyIds) =>
+      kittiesApi.createBundle({ kittyIds, price: BigInt(batchPrice || '0') }),
+    );
+
+  const handleBatchCancelListing = () =>
+    runBatchAction('Delist kitties', (kittyIds) => kittiesApi.batchCancelListing({ kittyIds }));
+
+  const handleBatchTransfer = () =>
+    runBatchAction('Transfer kitties', async (kittyIds) => {
+      const toBytes = new Uint8Array(Buffer.from(batchAddress, 'hex'));
+      await kittiesApi.batchTransferKitty({ to: { bytes: toBytes }, kittyIds });
+      setBatchAddress('');
+    });
+
   const handleSetPrice = async (kittyId: bigint, price: bigint) => {
     try {
       await kittiesApi.setPrice({ kittyId, price });
@@ -248,6 +343,14 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
     if (!kittiesApi) return;
 
     try {
+      // Explain inbreeding up front instead of surfacing the contract assertion
+      const inbreedingError = getInbreedingError(
+        await kittiesApi.getKitty(parentKitty1Id),
+        await kittiesApi.getKitty(parentKitty2Id),
+      );
+      if (inbreedingError) {
+        throw new Error(`Cannot breed: ${inbreedingError}`);
+      }
       await kittiesApi.breedKitty({ kittyId1: parentKitty1Id, kittyId2: parentKitty2Id });
       // Note: No manual reload needed - state subscription will handle updates
       // Individual KittyCard components handle their own loading states
@@ -256,6 +359,32 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
     }
   };
 
+  const handleApproveSiring = async (kittyId: bigint, toAddress: string) => {
+    if (!kittiesApi) return;
+
+    try {
+      // Convert hex string to bytes
+      const toBytes = new Uint8Array(Buffer.from(toAddress, 'hex'));
+      await kittiesApi.approveSiring({ kittyId, to: { bytes: toBytes } });
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to grant sire permission'));
+    }
+  };
+
+  const handleRevokeSiring = async (kittyId: bigint) => {
+    if (!kittiesApi) return;
+
+    try {
+      await kittiesApi.revokeSiring({ kittyId });
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to revoke sire permission'));
+    }
+  };
+
+  const handleLoadLineage = async (kittyId: bigint) => {
+    return await kittiesApi.getLineage(kittyId);
+  };
+
   const handleApproveOffer = async (kittyId: bigint, offerId: string) => {
     if (!kittiesApi) return;
 
@@ -275,6 +404,42 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
     }
   };
 
+  const handleRejectOffer = async (kittyId: bigint, offerId: string) => {
+    if (!kittiesApi) return;
+
+    try {
+      const offers = kittyOffers.get(kittyId.toString()) || [];
+      const offer = offers.find((o) => o.id === offerId);
+
+      if (!offer || !offer.buyerBytes) {
+        throw new Error('Offer not found or invalid buyer data');
+      }
+
+      await kittiesApi.rejectOffer({ kittyId, buyer: offer.buyerBytes });
+      // Note: KittyCard will handle its own loading state and UI updates
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to reject offer'));
+    }
+  };
+
+  const handleCounterOffer = async (kittyId: bigint, offerId: string, counterPrice: bigint) => {
+    if (!kittiesApi) return;
+
+    try {
+      const offers = kittyOffers.get(kittyId.toString()) || [];
+      const offer = offers.find((o) => o.id === offerId);
+
+      if (!offer || !offer.buyerBytes) {
+        throw new Error('Offer not found or invalid buyer data');
+      }
+
+      await kittiesApi.counterOffer({ kittyId, buyer: offer.buyerBytes, counterPrice });
+      // Note: KittyCard will handle its own loading state and UI updates
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to counter offer'));
+    }
+  };
+
   if (externalLoading || isLoading) {
     return (
       <div
@@ -342,6 +507,7 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
             <div style={{ color: '#666', fontSize: '14px', display: 'flex', alignItems: 'center', gap: '16px' }}>
               <span>
                 {myKitties.length} kitties owned
+                {liveSupply !== null && ` of ${liveSupply} in circulation`}
                 {walletPublicKey && (
                   <span
                     style={{
@@ -407,6 +573,100 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
           </button>
         </div>
 
+        {kittiesApi && <AllowlistEntry kittiesApi={kittiesApi} />}
+
+        {/* Batch Actions */}
+        {myKitties.length > 0 && kittiesApi && (
+          <div
+            style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '12px 16px',
+              marginTop: '24px',
+              backgroundColor: selectedIds.size > 0 ? '#e3f2fd' : '#f8f9fa',
+              borderRadius: '8px',
+              fontSize: '14px',
+            }}
+          >
+            <span style={{ fontWeight: 600, color: '#333', marginRight: '8px' }}>
+              {selectedIds.size} selected
+              {selectedIds.size > BATCH_SIZE && (
+                <span style={{ fontWeight: 400, color: '#666' }}>
+                  {' '}
+                  ({Math.ceil(selectedIds.size / BATCH_SIZE)} transactions)
+                </span>
+              )}
+            </span>
+            <button
+              onClick={() => setSelectedIds(new Set(myKitties.map((kitty) => kitty.id.toString())))}
+              style={batchButtonStyle('#1976d2', false)}
+            >
+              Select all
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              disabled={selectedIds.size === 0}
+              style={batchButtonStyle('#757575', selectedIds.size === 0)}
+            >
+              Clear
+            </button>
+            {selectedIds.size > 0 && (
+              <>
+                <input
+                  type="number"
+                  placeholder="Price"
+                  value={batchPrice}
+                  onChange={(e) => setBatchPrice(e.target.value)}
+                  style={{ width: '100px', padding: '6px 8px', borderRadius: '6px', border: '1px solid #ccc' }}
+                />
+                <button
+                  onClick={() => void handleBatchSetPrice()}
+                  disabled={batchAction !== null || !batchPrice}
+                  style={batchButtonStyle('#2e7d32', batchAction !== null || !batchPrice)}
+                >
+                  {batchAction === 'List kitties' ? 'Listing...' : 'List for sale'}
+                </button>
+                <button
+                  onClick={() => void handleCreateBundle()}
+                  disabled={batchAction !== null || !batchPrice || !canBundle}
+                  title={`A bundle holds ${MIN_BUNDLE_SIZE} to ${BATCH_SIZE} kitties with the same creator`}
+                  style={batchButtonStyle('#00838f', batchAction !== null || !batchPrice || !canBundle)}
+                >
+                  {batchAction === 'Bundle kitties' ? 'Bundling...' : 'Sell as bundle'}
+                </button>
+                <button
+                  onClick={() => void handleBatchCancelListing()}
+                  disabled={batchAction !== null}
+                  style={batchButtonStyle('#ef6c00', batchAction !== null)}
+                >
+                  {batchAction === 'Delist kitties' ? 'Delisting...' : 'Take off sale'}
+                </button>
+                <input
+                  placeholder="Recipient address (hex)"
+                  value={batchAddress}
+                  onChange={(e) => setBatchAddress(e.target.value)}
+                  style={{
+                    flex: 1,
+                    minWidth: '200px',
+                    padding: '6px 8px',
+                    borderRadius: '6px',
+                    border: '1px solid #ccc',
+                  }}
+                />
+                <button
+                  onClick={() => void handleBatchTransfer()}
+                  disabled={batchAction !== null || !batchAddress}
+                  style={batchButtonStyle('#6a1b9a', batchAction !== null || !batchAddress)}
+                >
+                  {batchAction === 'Transfer kitties' ? 'Transferring...' : 'Transfer'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Kitties Grid */}
         {myKitties.length === 0 ? (
           <div
@@ -473,15 +733,39 @@ export const MyKittiesGallery: React.FC<MyKittiesGalleryProps> = ({
             }}
           >
             {myKitties.map((kitty) => (
-              <KittyCard
-                key={kitty.id.toString()}
-                kitty={kitty}
-                onTransfer={kittiesApi ? handleTransferKitty : undefined}
-                onSetPrice={kittiesApi ? handleSetPrice : undefined}
-                onBreedKitty={kittiesApi ? handleBreedKitty : undefined}
-                onApproveOffer={kittiesApi ? handleApproveOffer : undefined}
-                offers={kittyOffers.get(kitty.id.toString()) || []}
-              />
+              <div key={kitty.id.toString()} style={{ position: 'relative' }}>
+                {kittiesApi && (
+                  <input
+                    type="checkbox"
+                    aria-label={`Select kitty #${kitty.id.toString()}`}
+                    checked={selectedIds.has(kitty.id.toString())}
+                    onChange={() => toggleSelected(kitty.id)}
+                    style={{
+                      position: 'absolute',
+                      top: '12px',
+                      left: '12px',
+                      zIndex: 1,
+                      width: '18px',
+                      height: '18px',
+                    }}
+                  />
+                )}
+                <KittyCard
+                  kitty={kitty}
+                  onTransfer={kittiesApi ? handleTransferKitty : undefined}
+                  onSetPrice={kittiesApi ? handleSetPrice : undefined}
+                  onBreedKitty={kittiesApi ? handleBreedKitty : undefined}
+                  onApproveSiring={kittiesApi ? handleApproveSiring : undefined}
+                  onRevokeSiring={kittiesApi ? handleRevokeSiring : undefined}
+                  onApproveOffer={kittiesApi ? handleApproveOffer : undefined}
+                  onRejectOffer={kittiesApi ? handleRejectOffer : undefined}
+                  onCounterOffer={kittiesApi ? handleCounterOffer : undefined}
+                  onLoadLineage={kittiesApi ? handleLoadLineage : undefined}
+                  onBurn={kittiesApi ? handleBurnKitty : undefined}
+                  onSetName={kittiesApi ? handleSetKittyName : undefined}
+                  offers={kittyOffers.get(kitty.id.toString()) || []}
+                />
+              </div>
             ))}
           </div>
         )}
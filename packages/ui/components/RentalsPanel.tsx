@@ -0,0 +1,219 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call */
+/**
+ * @file RentalsPanel.tsx
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Button, Chip, MenuItem, Paper, TextField, Typography } from '@mui/material';
+import {
+  formatAuctionTimeLeft,
+  nowInSeconds,
+  type AccountRentals,
+  type RentalData,
+  type RentalKindName,
+} from '@repo/kitties-api';
+import { hexToBytes, toHex } from './utils.js';
+
+interface RentalsPanelProps {
+  kittiesApi: any; // API instance
+  walletPublicKey?: { bytes: Uint8Array } | Uint8Array;
+}
+
+const STATUS_COLORS = { offered: 'info', active: 'success', ended: 'default' } as const;
+
+export const RentalsPanel: React.FC<RentalsPanelProps> = ({ kittiesApi, walletPublicKey }) => {
+  const [rentals, setRentals] = useState<AccountRentals>({ lent: [], borrowed: [] });
+  const [now, setNow] = useState<bigint>(nowInSeconds());
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Offer rental form
+  const [kittyId, setKittyId] = useState('');
+  const [borrower, setBorrower] = useState('');
+  const [kind, setKind] = useState<RentalKindName>('breeding');
+  const [hours, setHours] = useState('');
+  const [fee, setFee] = useState('');
+
+  const walletBytes = walletPublicKey
+    ? walletPublicKey instanceof Uint8Array
+      ? walletPublicKey
+      : walletPublicKey.bytes
+    : null;
+  const walletHex = walletBytes ? toHex(walletBytes) : '';
+
+  // Reload this wallet's rentals whenever the contract state changes
+  useEffect(() => {
+    if (!kittiesApi || !walletBytes) return;
+
+    const subscription = kittiesApi.state$.subscribe({
+      next: () => {
+        kittiesApi
+          .getRentals({ bytes: walletBytes })
+          .then(setRentals)
+          .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+      },
+    });
+    return () => subscription.unsubscribe();
+  }, [kittiesApi, walletHex]);
+
+  // Tick every second to drive the countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(nowInSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!walletBytes) {
+    return null;
+  }
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleOfferRental = () =>
+    run('offer', async () => {
+      await kittiesApi.offerRental({
+        kittyId: BigInt(kittyId),
+        borrower: { bytes: hexToBytes(borrower, 'Borrower key') },
+        kind,
+        endTime: nowInSeconds() + BigInt(hours) * 3600n,
+        fee: BigInt(fee || '0'),
+      });
+      setKittyId('');
+      setBorrower('');
+    });
+
+  const renderRental = (rental: RentalData, lent: boolean) => {
+    const key = rental.kittyId.toString();
+    // The status was computed when the rentals were loaded, so check the clock again
+    const status = rental.endTime <= now ? 'ended' : rental.status;
+    const counterparty = toHex((lent ? rental.borrower : rental.lender).bytes);
+
+    return (
+      <Paper key={key} elevation={2} sx={{ p: 2, borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">Kitty #{key}</Typography>
+          <Chip size="small" label={status.toUpperCase()} color={STATUS_COLORS[status]} />
+        </Box>
+        <Typography variant="body2">
+          {rental.kind === 'custody' ? 'Custody' : 'Breeding rights'} · {rental.fee.toString()} tokens
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          {lent ? 'To' : 'From'} {counterparty.slice(0, 8)}…
+          {status !== 'ended' && ` · ${formatAuctionTimeLeft(rental.endTime, now)} left`}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+          {!lent && status === 'offered' && (
+            <Button
+              variant="contained"
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.acceptRental({ kittyId: rental.kittyId }))}
+            >
+              Accept
+            </Button>
+          )}
+          {/* Lenders can only end a running rental once its time is up */}
+          {(!lent || status !== 'active') && (
+            <Button
+              variant="outlined"
+              color={status === 'offered' ? 'error' : 'primary'}
+              disabled={pending !== null}
+              onClick={() => void run(key, () => kittiesApi.endRental({ kittyId: rental.kittyId }))}
+            >
+              {status === 'offered' ? 'Withdraw' : lent ? 'Take back' : 'Give back'}
+            </Button>
+          )}
+        </Box>
+        {pending === key && (
+          <Typography variant="caption" color="textSecondary">
+            Executing...
+          </Typography>
+        )}
+      </Paper>
+    );
+  };
+
+  const renderSection = (title: string, list: RentalData[], lent: boolean) => (
+    <>
+      <Typography variant="subtitle1" sx={{ mt: 2, mb: 1, fontWeight: 600 }}>
+        {title} ({list.length})
+      </Typography>
+      {list.length === 0 ? (
+        <Typography color="textSecondary">None.</Typography>
+      ) : (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+            gap: '16px',
+          }}
+        >
+          {list.map((rental) => renderRental(rental, lent))}
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ margin: '0 0 8px 0', color: '#333' }}>Rentals</h2>
+      <div style={{ color: '#666', fontSize: '14px', marginBottom: '16px' }}>
+        Lend kitties for breeding or custody without selling them · Rented kitties can't be sold or transferred
+      </div>
+
+      {error && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {error}
+        </Typography>
+      )}
+
+      {/* Offer Rental Form */}
+      <Paper elevation={1} sx={{ p: 2, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField
+          select
+          size="small"
+          label="Type"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as RentalKindName)}
+        >
+          <MenuItem value="breeding">Breeding</MenuItem>
+          <MenuItem value="custody">Custody</MenuItem>
+        </TextField>
+        <TextField size="small" label="Kitty ID" value={kittyId} onChange={(e) => setKittyId(e.target.value)} />
+        <TextField
+          size="small"
+          label="Borrower key (hex)"
+          value={borrower}
+          onChange={(e) => setBorrower(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <TextField size="small" label="Hours" value={hours} onChange={(e) => setHours(e.target.value)} />
+        <TextField size="small" label="Fee" value={fee} onChange={(e) => setFee(e.target.value)} />
+        <Button
+          variant="contained"
+          disabled={pending !== null || !kittyId || !borrower || !hours}
+          onClick={() => void handleOfferRental()}
+        >
+          {pending === 'offer' ? 'Offering...' : 'Offer rental'}
+        </Button>
+      </Paper>
+
+      {renderSection('Lent', rentals.lent, true)}
+      {renderSection('Borrowed', rentals.borrowed, false)}
+    </div>
+  );
+};
+
+export default RentalsPanel;
@@ -27,6 +27,13 @@ export { default as App } from './App.js';
 export * from './KittiesReader.js';
 export * from './KittyCard.js';
 export * from './MyKittiesGallery.js';
+export * from './AuctionHouse.js';
+export * from './BundleMarket.js';
+export * from './AdminPanel.js';
+export * from './ClaimGift.js';
+export * from './RentalsPanel.js';
+export * from './AccessoriesPanel.js';
+export * from './AllowlistEntry.js';
 export * from './MidnightWallet.js';
 export * from './WalletWidget.js';
 
@@ -0,0 +1,19 @@
+/**
+ * @file utils.ts
+ * @author Ricardo Rius
+ * @license GPL-3.0
+ */
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map((b: number) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+// Parses a 32-byte key typed in as hex, naming the field in the error
+export const hexToBytes = (hex: string, label: string): Uint8Array => {
+  const clean = hex.trim().replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error(`${label} must be 32 bytes of hex`);
+  }
+  return new Uint8Array(clean.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)));
+};